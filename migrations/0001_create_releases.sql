@@ -0,0 +1,18 @@
+-- Release index: one row per artifact in the RELEASES bucket
+CREATE TABLE IF NOT EXISTS releases (
+  key TEXT PRIMARY KEY,
+  product TEXT NOT NULL,
+  version TEXT NOT NULL,
+  platform TEXT NOT NULL,
+  arch TEXT NOT NULL,
+  filename TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  uploaded TEXT NOT NULL,
+  checksum TEXT,
+  description TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_releases_product_version ON releases (product, version);
+CREATE INDEX IF NOT EXISTS idx_releases_channel ON releases (channel);
+CREATE INDEX IF NOT EXISTS idx_releases_uploaded ON releases (uploaded);
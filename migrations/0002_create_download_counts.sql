@@ -0,0 +1,16 @@
+-- Download counters, aggregated per artifact, day, country and user-agent family
+CREATE TABLE IF NOT EXISTS download_counts (
+  day TEXT NOT NULL,
+  key TEXT NOT NULL,
+  product TEXT NOT NULL,
+  version TEXT NOT NULL,
+  platform TEXT NOT NULL,
+  arch TEXT NOT NULL,
+  country TEXT NOT NULL,
+  ua_family TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (day, key, country, ua_family)
+);
+
+CREATE INDEX IF NOT EXISTS idx_download_counts_product_day ON download_counts (product, day);
+CREATE INDEX IF NOT EXISTS idx_download_counts_key ON download_counts (key);
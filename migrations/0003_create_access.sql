@@ -0,0 +1,15 @@
+-- Per-product settings; products without a row are public
+CREATE TABLE IF NOT EXISTS products (
+  name TEXT PRIMARY KEY,
+  visibility TEXT NOT NULL DEFAULT 'public'
+);
+
+-- API tokens scoped to a list of products. Only a SHA-256 of the token is stored.
+CREATE TABLE IF NOT EXISTS access_tokens (
+  id TEXT PRIMARY KEY,
+  token_hash TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  products TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
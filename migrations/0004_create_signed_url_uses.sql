@@ -0,0 +1,8 @@
+-- Use counters for signed download URLs issued with a maxUses limit
+CREATE TABLE IF NOT EXISTS signed_url_uses (
+  sig TEXT PRIMARY KEY,
+  uses INTEGER NOT NULL DEFAULT 0,
+  expires_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_signed_url_uses_expires_at ON signed_url_uses (expires_at);
@@ -0,0 +1,18 @@
+-- Yanked releases stay downloadable by key but are hidden from listings and latest resolution
+ALTER TABLE releases ADD COLUMN yanked INTEGER NOT NULL DEFAULT 0;
+
+-- Audit log of every write made through the API
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  at TEXT NOT NULL,
+  action TEXT NOT NULL,
+  product TEXT,
+  version TEXT,
+  key TEXT,
+  actor TEXT NOT NULL,
+  ip TEXT,
+  details TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_at ON audit_log (at);
+CREATE INDEX IF NOT EXISTS idx_audit_log_product_version ON audit_log (product, version);
@@ -0,0 +1,9 @@
+-- Version-level release notes (markdown), one row per product version
+CREATE TABLE IF NOT EXISTS release_notes (
+  product TEXT NOT NULL,
+  version TEXT NOT NULL,
+  notes TEXT NOT NULL,
+  release_date TEXT,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (product, version)
+);
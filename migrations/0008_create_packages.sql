@@ -0,0 +1,10 @@
+-- Control metadata of .deb and .rpm artifacts, read at upload time, for the APT and YUM repositories
+CREATE TABLE IF NOT EXISTS packages (
+  key TEXT PRIMARY KEY,
+  format TEXT NOT NULL,
+  name TEXT NOT NULL,
+  version TEXT NOT NULL,
+  arch TEXT NOT NULL,
+  metadata TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
@@ -0,0 +1,2 @@
+-- How the /install/:product.sh and .ps1 scripts install a product (JSON); products without one have no install scripts
+ALTER TABLE products ADD COLUMN install_layout TEXT;
@@ -0,0 +1,14 @@
+-- Product catalog: how each product is presented, and which platforms it is built for
+ALTER TABLE products ADD COLUMN display_name TEXT;
+ALTER TABLE products ADD COLUMN description TEXT;
+-- HTTPS URL of the icon shown on the download page
+ALTER TABLE products ADD COLUMN icon TEXT;
+ALTER TABLE products ADD COLUMN homepage TEXT;
+ALTER TABLE products ADD COLUMN docs_url TEXT;
+-- Lower sorts first; ties are broken by name
+ALTER TABLE products ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0;
+-- JSON array of platforms uploads may target; NULL allows every platform
+ALTER TABLE products ADD COLUMN platforms TEXT;
+
+-- Uploads now require a registered product, so register every product that already has releases
+INSERT OR IGNORE INTO products (name) SELECT DISTINCT product FROM releases;
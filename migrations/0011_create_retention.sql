@@ -0,0 +1,21 @@
+-- Retention rules for prerelease channels. product and channel are NULL for
+-- rules that cover every product or every prunable channel.
+CREATE TABLE IF NOT EXISTS retention_rules (
+  id TEXT PRIMARY KEY,
+  product TEXT,
+  channel TEXT,
+  keep_versions INTEGER,
+  keep_days INTEGER,
+  created_at TEXT NOT NULL
+);
+
+-- One rule per scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_retention_rules_scope ON retention_rules (COALESCE(product, ''), COALESCE(channel, ''));
+
+-- Versions that retention never deletes
+CREATE TABLE IF NOT EXISTS pinned_versions (
+  product TEXT NOT NULL,
+  version TEXT NOT NULL,
+  pinned_at TEXT NOT NULL,
+  PRIMARY KEY (product, version)
+);
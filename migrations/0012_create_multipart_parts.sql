@@ -0,0 +1,11 @@
+-- Sizes of the parts uploaded to each multipart upload, so a part that would
+-- push the upload past MAX_FILE_SIZE_GB is rejected before it is stored
+CREATE TABLE IF NOT EXISTS multipart_parts (
+  upload_id TEXT NOT NULL,
+  part_number INTEGER NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (upload_id, part_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_multipart_parts_created_at ON multipart_parts (created_at);
@@ -0,0 +1,42 @@
+// Local stand-in for a webhook receiver. Logs every delivery and checks its
+// signature when WEBHOOK_SECRET is set.
+//
+//   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.mjs
+//
+// PORT picks the port (default 8790); RESPOND_STATUS makes it answer with
+// another status, e.g. 500 to exercise retries.
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT ?? 8790);
+const secret = process.env.WEBHOOK_SECRET;
+const status = Number(process.env.RESPOND_STATUS ?? 200);
+
+createServer((req, res) => {
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const event = req.headers['x-cogix-event'];
+    const delivery = req.headers['x-cogix-delivery'];
+
+    let verified = 'unchecked (set WEBHOOK_SECRET)';
+    if (secret) {
+      const expected = `sha256=${createHmac('sha256', secret)
+        .update(`${req.headers['x-cogix-timestamp']}.${body}`)
+        .digest('hex')}`;
+      const actual = String(req.headers['x-cogix-signature'] ?? '');
+      verified = actual.length === expected.length && timingSafeEqual(Buffer.from(actual), Buffer.from(expected))
+        ? 'valid'
+        : 'INVALID';
+    }
+
+    console.log(`${new Date().toISOString()} ${event} delivery=${delivery} signature=${verified}`);
+    console.log(JSON.stringify(JSON.parse(body || '{}'), null, 2));
+
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(status < 300 ? 'ok' : 'failing on purpose');
+  });
+}).listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}`);
+});
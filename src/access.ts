@@ -0,0 +1,290 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { createMiddleware } from 'hono/factory';
+import { recordAudit } from './audit';
+import { getBearerToken, requireAuth, safeEqual } from './auth';
+import { toHex } from './checksums';
+import { isValidProduct } from './releases';
+import { PRODUCT_VISIBILITIES } from './types';
+import type { AppEnv, Caller, Env, ProductVisibility } from './types';
+
+const access = new Hono<AppEnv>();
+
+const ANONYMOUS: Caller = { admin: false, products: [] };
+
+const TOKEN_PREFIX = 'crt_';
+const DEFAULT_TOKEN_LIFETIME_DAYS = 90;
+
+export interface AccessToken {
+  id: string;
+  name: string;
+  products: string[];
+  expiresAt: string;
+  createdAt: string;
+}
+
+interface AccessTokenRow {
+  id: string;
+  name: string;
+  products: string;
+  expires_at: string;
+  created_at: string;
+}
+
+/**
+ * PUT /api/admin/products/:product/visibility - Makes a product public or private
+ */
+access.put('/api/admin/products/:product/visibility', requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    if (!isValidProduct(product)) {
+      return c.json({ success: false, error: `Invalid product: ${product}` }, 400);
+    }
+
+    const body = await c.req.json<{ visibility?: string }>().catch(() => ({ visibility: undefined }));
+    const visibility = body.visibility;
+    if (!isProductVisibility(visibility)) {
+      return c.json({
+        success: false,
+        error: `Invalid visibility: ${visibility} (expected one of ${PRODUCT_VISIBILITIES.join(', ')})`,
+      }, 400);
+    }
+
+    const result = await c.env.DB
+      .prepare('UPDATE products SET visibility = ? WHERE name = ?')
+      .bind(visibility, product)
+      .run();
+    if (result.meta.changes === 0) {
+      return c.json({ success: false, error: `Product not found: ${product}` }, 404);
+    }
+
+    await recordAudit(c, 'product.visibility', { product }, { visibility });
+    return c.json({ success: true, product, visibility });
+  } catch (error) {
+    console.error('Error setting product visibility:', error);
+    return c.json({ success: false, error: 'Failed to set product visibility' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/tokens - Lists scoped access tokens (never the token values)
+ */
+access.get('/api/admin/tokens', requireAuth, async (c) => {
+  try {
+    const { results } = await c.env.DB
+      .prepare('SELECT id, name, products, expires_at, created_at FROM access_tokens ORDER BY created_at DESC')
+      .all<AccessTokenRow>();
+    const tokens = results.map(fromRow);
+
+    return c.json({ success: true, count: tokens.length, tokens });
+  } catch (error) {
+    console.error('Error listing access tokens:', error);
+    return c.json({ success: false, error: 'Failed to list access tokens' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/tokens - Creates an access token for a list of products.
+ * The token value is only returned in this response.
+ */
+access.post('/api/admin/tokens', requireAuth, async (c) => {
+  try {
+    const body = await c.req.json<{ name?: unknown; products?: unknown; expiresAt?: unknown }>().catch(() => null);
+    if (!body || typeof body.name !== 'string' || body.name.trim() === '') {
+      return c.json({ success: false, error: 'Request body must include a name' }, 400);
+    }
+
+    const products = body.products;
+    if (!Array.isArray(products) || products.length === 0) {
+      return c.json({ success: false, error: 'products must be a non-empty array of product names' }, 400);
+    }
+    const invalid = products.find((product) => typeof product !== 'string' || !isValidProduct(product));
+    if (invalid !== undefined) {
+      return c.json({ success: false, error: `Invalid product: ${invalid}` }, 400);
+    }
+
+    let expiresAt = new Date(Date.now() + DEFAULT_TOKEN_LIFETIME_DAYS * 86_400_000);
+    if (body.expiresAt !== undefined) {
+      expiresAt = new Date(typeof body.expiresAt === 'string' ? body.expiresAt : NaN);
+      if (Number.isNaN(expiresAt.getTime())) {
+        return c.json({ success: false, error: 'expiresAt must be an ISO 8601 date' }, 400);
+      }
+      if (expiresAt.getTime() <= Date.now()) {
+        return c.json({ success: false, error: 'expiresAt must be in the future' }, 400);
+      }
+    }
+
+    const secret = generateToken();
+    const token: AccessToken = {
+      id: crypto.randomUUID(),
+      name: body.name.trim(),
+      products: [...new Set(products as string[])],
+      expiresAt: expiresAt.toISOString(),
+      createdAt: new Date().toISOString(),
+    };
+
+    await c.env.DB.prepare(
+      `INSERT INTO access_tokens (id, token_hash, name, products, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    ).bind(
+      token.id,
+      await hashToken(secret),
+      token.name,
+      JSON.stringify(token.products),
+      token.expiresAt,
+      token.createdAt,
+    ).run();
+
+    await recordAudit(c, 'token.create', {}, { id: token.id, name: token.name, products: token.products, expiresAt: token.expiresAt });
+    return c.json({ success: true, token: secret, accessToken: token }, 201);
+  } catch (error) {
+    console.error('Error creating access token:', error);
+    return c.json({ success: false, error: 'Failed to create access token' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/tokens/:id - Revokes an access token
+ */
+access.delete('/api/admin/tokens/:id', requireAuth, async (c) => {
+  try {
+    const id = c.req.param('id');
+    const result = await c.env.DB.prepare('DELETE FROM access_tokens WHERE id = ?').bind(id).run();
+    if (result.meta.changes === 0) {
+      return c.json({ success: false, error: `Access token not found: ${id}` }, 404);
+    }
+
+    await recordAudit(c, 'token.revoke', {}, { id });
+    return c.json({ success: true, id });
+  } catch (error) {
+    console.error('Error revoking access token:', error);
+    return c.json({ success: false, error: 'Failed to revoke access token' }, 500);
+  }
+});
+
+/**
+ * Establish the caller from an optional bearer token: the master API_TOKEN,
+ * a scoped access token, or nobody. A token that is unknown or expired leaves
+ * the caller anonymous, so public routes still answer; it is rejected where
+ * access is needed, by requireAuth and checkProductAccess.
+ */
+export const identifyCaller = createMiddleware<AppEnv>(async (c, next) => {
+  const token = getBearerToken(c.req.header('Authorization'));
+
+  if (!token) {
+    c.set('caller', ANONYMOUS);
+    return next();
+  }
+
+  if (c.env.API_TOKEN && safeEqual(token, c.env.API_TOKEN)) {
+    c.set('caller', { admin: true, products: [] });
+    return next();
+  }
+
+  let row: (AccessTokenRow & { token_hash: string }) | null;
+  try {
+    row = await c.env.DB
+      .prepare('SELECT * FROM access_tokens WHERE token_hash = ?')
+      .bind(await hashToken(token))
+      .first<AccessTokenRow & { token_hash: string }>();
+  } catch (error) {
+    console.error('Error looking up access token:', error);
+    return c.json({ success: false, error: 'Failed to verify access token' }, 500);
+  }
+
+  if (!row) {
+    c.set('caller', { ...ANONYMOUS, invalidToken: 'unknown' });
+  } else if (Date.parse(row.expires_at) <= Date.now()) {
+    c.set('caller', { ...ANONYMOUS, invalidToken: 'expired' });
+  } else {
+    c.set('caller', { admin: false, products: fromRow(row).products });
+  }
+  return next();
+});
+
+/**
+ * Private products the caller may not see. Pass these as `excludeProducts`
+ * when listing so private products stay hidden.
+ */
+export async function getHiddenProducts(c: Context<AppEnv>): Promise<string[]> {
+  const caller = c.get('caller') ?? ANONYMOUS;
+  if (caller.admin) return [];
+
+  const privateProducts = await listPrivateProducts(c.env);
+  return privateProducts.filter((product) => !caller.products.includes(product));
+}
+
+/**
+ * Returns a 401/403 response when the caller may not download from a
+ * product, or null when access is allowed
+ */
+export async function checkProductAccess(c: Context<AppEnv>, product: string): Promise<Response | null> {
+  const caller = c.get('caller') ?? ANONYMOUS;
+  if (caller.admin || caller.products.includes(product)) return null;
+  if (!(await isPrivateProduct(c.env, product))) return null;
+
+  if (caller.invalidToken === 'expired') {
+    c.header('WWW-Authenticate', 'Bearer realm="cogix-release", error="invalid_token"');
+    return c.json({ success: false, error: 'API token expired' }, 401);
+  }
+  if (caller.invalidToken === 'unknown') {
+    return c.json({ success: false, error: 'Invalid API token' }, 403);
+  }
+  if (caller === ANONYMOUS) {
+    c.header('WWW-Authenticate', 'Bearer realm="cogix-release"');
+    return c.json({ success: false, error: 'Authentication required' }, 401);
+  }
+  return c.json({ success: false, error: `Token does not grant access to ${product}` }, 403);
+}
+
+/**
+ * Cache-Control for a response that depends on who is asking. Responses to
+ * authenticated callers may include private products, and `public` would let
+ * shared caches store them despite the Authorization header (RFC 9111), so
+ * only anonymous responses are public. `isPrivate` forces `private`, e.g.
+ * for private artifacts fetched through a signed URL.
+ */
+export function cacheControl(c: Context<AppEnv>, directives: string, isPrivate = false): string {
+  const caller = c.get('caller') ?? ANONYMOUS;
+  return `${isPrivate || caller.admin || caller.products.length ? 'private' : 'public'}, ${directives}`;
+}
+
+export async function isPrivateProduct(env: Env, product: string): Promise<boolean> {
+  const row = await env.DB
+    .prepare('SELECT visibility FROM products WHERE name = ?')
+    .bind(product)
+    .first<{ visibility: string }>();
+  return row?.visibility === 'private';
+}
+
+export async function listPrivateProducts(env: Env): Promise<string[]> {
+  const { results } = await env.DB
+    .prepare(`SELECT name FROM products WHERE visibility = 'private'`)
+    .all<{ name: string }>();
+  return results.map((row) => row.name);
+}
+
+export function isProductVisibility(value: unknown): value is ProductVisibility {
+  return typeof value === 'string' && (PRODUCT_VISIBILITIES as readonly string[]).includes(value);
+}
+
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return TOKEN_PREFIX + toHex(bytes.buffer);
+}
+
+async function hashToken(token: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token)));
+}
+
+function fromRow(row: AccessTokenRow): AccessToken {
+  return {
+    id: row.id,
+    name: row.name,
+    products: JSON.parse(row.products) as string[],
+    expiresAt: row.expires_at,
+    createdAt: row.created_at,
+  };
+}
+
+export default access;
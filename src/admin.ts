@@ -0,0 +1,287 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { recordAudit } from './audit';
+import { requireAuth } from './auth';
+import { formatSha256, parseSha256 } from './checksums';
+import { deleteReleaseNotes } from './notes';
+import { indexMissingPackages } from './packages';
+import { deleteReleases, getRelease, listReleases, replaceIndex, updateReleases } from './release-index';
+import type { ReleasePatch } from './release-index';
+import {
+  buildReleaseKey,
+  isReleaseChannel,
+  listBucketReleases,
+  splitPlatformArch,
+  toReleaseFile,
+} from './releases';
+import { RELEASE_CHANNELS } from './types';
+import type { AppEnv } from './types';
+import { dispatchWebhooks } from './webhooks';
+
+const admin = new Hono<AppEnv>();
+
+const ARTIFACT_PATH = '/api/releases/:product/:version/:platformArch/:filename';
+const VERSION_PATH = '/api/releases/:product/:version';
+
+/**
+ * POST /api/releases/:product/:version/promote - Moves every artifact of a version to another channel
+ */
+admin.post('/api/releases/:product/:version/promote', requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+    const body = await c.req.json<{ channel?: string }>().catch(() => ({ channel: undefined }));
+    const channel = body.channel ?? 'stable';
+
+    if (!isReleaseChannel(channel)) {
+      return c.json({
+        success: false,
+        error: `Invalid channel: ${channel} (expected one of ${RELEASE_CHANNELS.join(', ')})`,
+      }, 400);
+    }
+
+    const artifacts = await listReleases(c.env, { product, version, includeYanked: true });
+    if (artifacts.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product} ${version}` }, 404);
+    }
+
+    const releases = await updateReleases(c.env, artifacts.map((artifact) => artifact.key), { channel });
+    await recordAudit(c, 'release.promote', { product, version }, { channel });
+
+    return c.json({
+      success: true,
+      product,
+      version,
+      channel,
+      count: releases.length,
+      releases,
+    });
+  } catch (error) {
+    console.error('Error promoting release:', error);
+    return c.json({ success: false, error: 'Failed to promote release' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/index/rebuild - Rebuilds the release index from the bucket and
+ * reads the metadata of packages that have none
+ */
+admin.post('/api/admin/index/rebuild', requireAuth, async (c) => {
+  try {
+    const releases = await listBucketReleases(c.env);
+    const result = {
+      ...await replaceIndex(c.env, releases),
+      packages: await indexMissingPackages(c.env, releases),
+    };
+    await recordAudit(c, 'index.rebuild', {}, result);
+    return c.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error rebuilding release index:', error);
+    return c.json({ success: false, error: 'Failed to rebuild release index' }, 500);
+  }
+});
+
+/**
+ * PATCH /api/releases/:product/:version/:platformArch/:filename - Edits one artifact's metadata
+ */
+admin.patch(ARTIFACT_PATH, requireAuth, async (c) => {
+  try {
+    const { product, version, key } = getArtifactParams(c);
+    const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+    const patch = parseMetadataPatch(body, { allowChecksum: true });
+    if (typeof patch === 'string') {
+      return c.json({ success: false, error: patch }, 400);
+    }
+
+    const [release] = await updateReleases(c.env, [key], patch);
+    if (!release) {
+      return c.json({ success: false, error: `Release not found: ${key}` }, 404);
+    }
+
+    await recordAudit(c, 'release.update', { product, version, key }, body ?? undefined);
+    if (body?.yanked === true) {
+      c.executionCtx.waitUntil(dispatchWebhooks(c.env, 'release.yanked', [release]));
+    }
+
+    return c.json({ success: true, release });
+  } catch (error) {
+    console.error('Error updating release metadata:', error);
+    return c.json({ success: false, error: 'Failed to update release metadata' }, 500);
+  }
+});
+
+/**
+ * PATCH /api/releases/:product/:version - Edits the metadata of every artifact of a version
+ */
+admin.patch(VERSION_PATH, requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+    const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+    const patch = parseMetadataPatch(body, { allowChecksum: false });
+    if (typeof patch === 'string') {
+      return c.json({ success: false, error: patch }, 400);
+    }
+
+    const artifacts = await listReleases(c.env, { product, version, includeYanked: true });
+    if (artifacts.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product} ${version}` }, 404);
+    }
+
+    const releases = await updateReleases(c.env, artifacts.map((artifact) => artifact.key), patch);
+    await recordAudit(c, 'release.update', { product, version }, body ?? undefined);
+    if (body?.yanked === true) {
+      c.executionCtx.waitUntil(dispatchWebhooks(c.env, 'release.yanked', releases));
+    }
+
+    return c.json({ success: true, product, version, count: releases.length, releases });
+  } catch (error) {
+    console.error('Error updating release metadata:', error);
+    return c.json({ success: false, error: 'Failed to update release metadata' }, 500);
+  }
+});
+
+/**
+ * POST /api/releases/:product/:version/yank - Hides a version from listings and latest
+ * resolution; its artifacts stay downloadable by exact key
+ */
+admin.post(`${VERSION_PATH}/yank`, requireAuth, (c) => setYanked(c, true));
+
+/**
+ * POST /api/releases/:product/:version/unyank - Reverses a yank
+ */
+admin.post(`${VERSION_PATH}/unyank`, requireAuth, (c) => setYanked(c, false));
+
+/**
+ * DELETE /api/releases/:product/:version/:platformArch/:filename - Deletes one artifact
+ */
+admin.delete(ARTIFACT_PATH, requireAuth, async (c) => {
+  try {
+    const { product, version, key } = getArtifactParams(c);
+    const object = await c.env.RELEASES.head(key);
+    if (!object) {
+      return c.json({ success: false, error: `Release not found: ${key}` }, 404);
+    }
+
+    const release = await getRelease(c.env, key) ?? toReleaseFile(object);
+    await deleteReleases(c.env, [key]);
+    await recordAudit(c, 'release.delete', { product, version, key }, { size: object.size });
+    if (release) c.executionCtx.waitUntil(dispatchWebhooks(c.env, 'release.deleted', [release]));
+
+    return c.json({ success: true, count: 1, deleted: [key] });
+  } catch (error) {
+    console.error('Error deleting release:', error);
+    return c.json({ success: false, error: 'Failed to delete release' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/releases/:product/:version - Deletes every artifact of a version and its release notes
+ */
+admin.delete(VERSION_PATH, requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+    const artifacts = await listReleases(c.env, { product, version, includeYanked: true });
+    if (artifacts.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product} ${version}` }, 404);
+    }
+
+    const keys = artifacts.map((artifact) => artifact.key);
+    await deleteReleases(c.env, keys);
+    await deleteReleaseNotes(c.env, product, version);
+    await recordAudit(c, 'release.delete', { product, version }, { keys });
+    c.executionCtx.waitUntil(dispatchWebhooks(c.env, 'release.deleted', artifacts));
+
+    return c.json({ success: true, count: keys.length, deleted: keys });
+  } catch (error) {
+    console.error('Error deleting release:', error);
+    return c.json({ success: false, error: 'Failed to delete release' }, 500);
+  }
+});
+
+async function setYanked(c: Context<AppEnv>, yanked: boolean): Promise<Response> {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+    const body = await c.req.json<{ reason?: unknown }>().catch(() => ({ reason: undefined }));
+
+    const artifacts = await listReleases(c.env, { product, version, includeYanked: true });
+    if (artifacts.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product} ${version}` }, 404);
+    }
+
+    const releases = await updateReleases(c.env, artifacts.map((artifact) => artifact.key), { yanked });
+    await recordAudit(
+      c,
+      yanked ? 'release.yank' : 'release.unyank',
+      { product, version },
+      typeof body.reason === 'string' ? { reason: body.reason } : undefined,
+    );
+    if (yanked) c.executionCtx.waitUntil(dispatchWebhooks(c.env, 'release.yanked', releases));
+
+    return c.json({ success: true, product, version, yanked, count: releases.length, releases });
+  } catch (error) {
+    console.error('Error yanking release:', error);
+    return c.json({ success: false, error: `Failed to ${yanked ? 'yank' : 'unyank'} release` }, 500);
+  }
+}
+
+function getArtifactParams(c: Context<AppEnv>): { product: string; version: string; key: string } {
+  const product = c.req.param('product') ?? '';
+  const version = c.req.param('version') ?? '';
+  const { platform, arch } = splitPlatformArch(c.req.param('platformArch') ?? '');
+  const filename = c.req.param('filename') ?? '';
+  return { product, version, key: buildReleaseKey({ product, version, platform, arch, filename }) };
+}
+
+/**
+ * Validate a PATCH body and turn it into a patch of the release index.
+ * Fields set to null are cleared. The key-derived fields (product, version, platform,
+ * arch, filename) can't be edited. Returns an error message on invalid input.
+ */
+function parseMetadataPatch(body: unknown, options: { allowChecksum: boolean }): ReleasePatch | string {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return 'Request body must be a JSON object';
+  }
+
+  const patch: ReleasePatch = {};
+  for (const [field, value] of Object.entries(body)) {
+    switch (field) {
+      case 'description':
+        if (value !== null && typeof value !== 'string') return 'description must be a string or null';
+        patch.description = value;
+        break;
+      case 'checksum': {
+        if (!options.allowChecksum) return 'checksum can only be set on a single artifact';
+        if (value === null) {
+          patch.checksum = null;
+          break;
+        }
+        const sha256 = typeof value === 'string' ? parseSha256(value) : null;
+        if (!sha256) return 'checksum must be a SHA-256 digest (sha256:<hex>) or null';
+        patch.checksum = formatSha256(sha256);
+        break;
+      }
+      case 'channel':
+        if (!isReleaseChannel(value)) {
+          return `Invalid channel: ${value} (expected one of ${RELEASE_CHANNELS.join(', ')})`;
+        }
+        patch.channel = value;
+        break;
+      case 'yanked':
+        if (typeof value !== 'boolean') return 'yanked must be a boolean';
+        patch.yanked = value;
+        break;
+      default:
+        return `Field cannot be edited: ${field}`;
+    }
+  }
+
+  if (Object.keys(patch).length === 0) {
+    return `Nothing to update (editable fields: description, ${options.allowChecksum ? 'checksum, ' : ''}channel, yanked)`;
+  }
+  return patch;
+}
+
+export default admin;
@@ -0,0 +1,241 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getHiddenProducts } from './access';
+import { parseReleaseMetadata } from './releases';
+import type { AppEnv, Env } from './types';
+
+const analytics = new Hono<AppEnv>();
+
+// Checked in order: Edge and Opera also claim to be Chrome, Chrome claims to be Safari
+const USER_AGENT_FAMILIES: [string, RegExp][] = [
+  ['curl', /^curl\//i],
+  ['wget', /^wget\//i],
+  ['powershell', /PowerShell/i],
+  ['electron', /Electron\//],
+  ['tauri', /tauri/i],
+  ['edge', /Edg(e|A|iOS)?\//],
+  ['opera', /OPR\//],
+  ['firefox', /Firefox\//],
+  ['chrome', /Chrome\/|CriOS\//],
+  ['safari', /Safari\//],
+];
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_SERIES_DAYS = 30;
+const MAX_SERIES_DAYS = 366;
+
+interface DownloadFilter {
+  from?: string;
+  to?: string;
+  product?: string;
+  version?: string;
+  platform?: string;
+  arch?: string;
+}
+
+const FILTER_COLUMNS = ['product', 'version', 'platform', 'arch'] as const;
+
+/**
+ * All-time downloads, in total and per product and artifact key
+ */
+export interface DownloadTotals {
+  total: number;
+  products: Record<string, number>;
+  artifacts: Record<string, number>;
+}
+
+/**
+ * GET /api/stats/downloads - Download totals, broken down by product, artifact, platform, country and client
+ */
+analytics.get('/api/stats/downloads', async (c) => {
+  try {
+    const filter = getFilter(c);
+    if (typeof filter === 'string') {
+      return c.json({ success: false, error: filter }, 400);
+    }
+
+    const { where, params } = buildWhere(filter, await getHiddenProducts(c));
+    const groupBy = (column: string) => c.env.DB
+      .prepare(`SELECT ${column} AS name, SUM(count) AS count FROM download_counts ${where} GROUP BY ${column} ORDER BY count DESC`)
+      .bind(...params);
+
+    const [total, products, versions, artifacts, platforms, countries, userAgents] = await c.env.DB.batch<{ name: string; count: number }>([
+      c.env.DB.prepare(`SELECT 'total' AS name, COALESCE(SUM(count), 0) AS count FROM download_counts ${where}`).bind(...params),
+      groupBy('product'),
+      groupBy(`product || ' ' || version`),
+      groupBy('key'),
+      groupBy(`platform || '-' || arch`),
+      groupBy('country'),
+      groupBy('ua_family'),
+    ]);
+
+    return c.json({
+      success: true,
+      filter,
+      downloads: {
+        total: total.results[0]?.count ?? 0,
+        products: toCounts(products.results),
+        versions: toCounts(versions.results),
+        artifacts: toCounts(artifacts.results),
+        platforms: toCounts(platforms.results),
+        countries: toCounts(countries.results),
+        userAgents: toCounts(userAgents.results),
+      },
+    });
+  } catch (error) {
+    console.error('Error getting download stats:', error);
+    return c.json({ success: false, error: 'Failed to get download statistics' }, 500);
+  }
+});
+
+/**
+ * GET /api/stats/downloads/daily - Downloads per day, with days without downloads filled in
+ */
+analytics.get('/api/stats/downloads/daily', async (c) => {
+  try {
+    const filter = getFilter(c);
+    if (typeof filter === 'string') {
+      return c.json({ success: false, error: filter }, 400);
+    }
+
+    const to = filter.to ?? formatDay(new Date());
+    const from = filter.from ?? formatDay(new Date(Date.parse(to) - (DEFAULT_SERIES_DAYS - 1) * 86_400_000));
+    const days = (Date.parse(to) - Date.parse(from)) / 86_400_000 + 1;
+    if (days > MAX_SERIES_DAYS) {
+      return c.json({ success: false, error: `Date range must not exceed ${MAX_SERIES_DAYS} days` }, 400);
+    }
+
+    const { where, params } = buildWhere({ ...filter, from, to }, await getHiddenProducts(c));
+    const { results } = await c.env.DB
+      .prepare(`SELECT day, SUM(count) AS count FROM download_counts ${where} GROUP BY day`)
+      .bind(...params)
+      .all<{ day: string; count: number }>();
+
+    const counts = new Map(results.map((row) => [row.day, row.count]));
+    const series: { date: string; count: number }[] = [];
+    for (let i = 0; i < days; i++) {
+      const date = formatDay(new Date(Date.parse(from) + i * 86_400_000));
+      series.push({ date, count: counts.get(date) ?? 0 });
+    }
+
+    return c.json({
+      success: true,
+      filter: { ...filter, from, to },
+      total: series.reduce((sum, point) => sum + point.count, 0),
+      series,
+    });
+  } catch (error) {
+    console.error('Error getting daily download stats:', error);
+    return c.json({ success: false, error: 'Failed to get download statistics' }, 500);
+  }
+});
+
+/**
+ * Count a download of an artifact. Runs after the response has been sent,
+ * so a failure is logged and the download itself is unaffected.
+ */
+export async function recordDownload(env: Env, object: R2Object, request: Request): Promise<void> {
+  const metadata = parseReleaseMetadata(object);
+  if (!metadata) return;
+
+  const cf = request.cf as { country?: string } | undefined;
+  try {
+    await env.DB.prepare(
+      `INSERT INTO download_counts (day, key, product, version, platform, arch, country, ua_family, count)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1)
+       ON CONFLICT (day, key, country, ua_family) DO UPDATE SET count = count + 1`,
+    ).bind(
+      formatDay(new Date()),
+      object.key,
+      metadata.product,
+      metadata.version,
+      metadata.platform,
+      metadata.arch,
+      cf?.country ?? 'XX',
+      getUserAgentFamily(request.headers.get('User-Agent')),
+    ).run();
+  } catch (error) {
+    console.error('Error recording download:', error);
+  }
+}
+
+/**
+ * All-time download totals for the download page, leaving out `excludeProducts`
+ */
+export async function getDownloadTotals(env: Env, excludeProducts: string[]): Promise<DownloadTotals> {
+  const { where, params } = buildWhere({}, excludeProducts);
+  const [products, artifacts] = await env.DB.batch<{ name: string; count: number }>([
+    env.DB.prepare(`SELECT product AS name, SUM(count) AS count FROM download_counts ${where} GROUP BY product`).bind(...params),
+    env.DB.prepare(`SELECT key AS name, SUM(count) AS count FROM download_counts ${where} GROUP BY key`).bind(...params),
+  ]);
+
+  const productCounts = toCounts(products.results);
+  return {
+    total: Object.values(productCounts).reduce((sum, count) => sum + count, 0),
+    products: productCounts,
+    artifacts: toCounts(artifacts.results),
+  };
+}
+
+export function getUserAgentFamily(userAgent: string | null): string {
+  if (!userAgent) return 'unknown';
+  const family = USER_AGENT_FAMILIES.find(([, pattern]) => pattern.test(userAgent));
+  return family ? family[0] : 'other';
+}
+
+function getFilter(c: Context<AppEnv>): DownloadFilter | string {
+  const filter: DownloadFilter = {};
+  for (const name of ['from', 'to', ...FILTER_COLUMNS] as const) {
+    const value = c.req.query(name);
+    if (value) filter[name] = value;
+  }
+
+  for (const name of ['from', 'to'] as const) {
+    const value = filter[name];
+    if (value && (!DAY_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+      return `${name} must be a date in YYYY-MM-DD format`;
+    }
+  }
+  if (filter.from && filter.to && filter.from > filter.to) {
+    return 'from must not be after to';
+  }
+
+  return filter;
+}
+
+function buildWhere(filter: DownloadFilter, excludeProducts: string[]): { where: string; params: string[] } {
+  const clauses: string[] = [];
+  const params: string[] = [];
+
+  for (const column of FILTER_COLUMNS) {
+    const value = filter[column];
+    if (value) {
+      clauses.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+  if (excludeProducts.length) {
+    clauses.push(`product NOT IN (${excludeProducts.map(() => '?').join(', ')})`);
+    params.push(...excludeProducts);
+  }
+  if (filter.from) {
+    clauses.push('day >= ?');
+    params.push(filter.from);
+  }
+  if (filter.to) {
+    clauses.push('day <= ?');
+    params.push(filter.to);
+  }
+
+  return { where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+function toCounts(rows: { name: string; count: number }[]): Record<string, number> {
+  return Object.fromEntries(rows.map((row) => [row.name, row.count]));
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export default analytics;
@@ -0,0 +1,178 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { requireAuth } from './auth';
+import type { AppEnv, Env } from './types';
+
+const audit = new Hono<AppEnv>();
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * What an audit entry is about. Release actions name the product and
+ * version, and the key when a single artifact is affected.
+ */
+export interface AuditTarget {
+  product?: string;
+  version?: string;
+  key?: string;
+}
+
+export interface AuditEntry extends AuditTarget {
+  id: number;
+  at: string;
+  action: string;
+  actor: string;
+  ip?: string;
+  details?: Record<string, unknown>;
+}
+
+interface AuditRow {
+  id: number;
+  at: string;
+  action: string;
+  product: string | null;
+  version: string | null;
+  key: string | null;
+  actor: string;
+  ip: string | null;
+  details: string | null;
+}
+
+const FILTER_COLUMNS = ['action', 'product', 'version', 'key'] as const;
+
+/**
+ * GET /api/admin/audit - Queries the audit log, newest first
+ */
+audit.get('/api/admin/audit', requireAuth, async (c) => {
+  try {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+
+    for (const column of FILTER_COLUMNS) {
+      const value = c.req.query(column);
+      if (value) {
+        clauses.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+
+    for (const [name, operator] of [['from', '>='], ['to', '<']] as const) {
+      const value = c.req.query(name);
+      if (value === undefined) continue;
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        return c.json({ success: false, error: `${name} must be an ISO 8601 date` }, 400);
+      }
+      clauses.push(`at ${operator} ?`);
+      params.push(date.toISOString());
+    }
+
+    const limitParam = c.req.query('limit');
+    const limit = limitParam === undefined ? DEFAULT_PAGE_SIZE : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return c.json({ success: false, error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` }, 400);
+    }
+
+    // Entry ids only grow, so the last id of a page is the cursor for the next one
+    const cursor = c.req.query('cursor');
+    if (cursor !== undefined) {
+      if (!/^\d+$/.test(cursor)) {
+        return c.json({ success: false, error: 'Invalid cursor' }, 400);
+      }
+      clauses.push('id < ?');
+      params.push(Number(cursor));
+    }
+
+    const where = clauses.length ? `WHERE ${clauses.join(' AND ')}` : '';
+    const { results } = await c.env.DB
+      .prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ?`)
+      .bind(...params, limit + 1)
+      .all<AuditRow>();
+
+    const truncated = results.length > limit;
+    const entries = (truncated ? results.slice(0, limit) : results).map(fromRow);
+
+    return c.json({
+      success: true,
+      count: entries.length,
+      entries,
+      truncated,
+      cursor: truncated ? String(entries[entries.length - 1].id) : undefined,
+    });
+  } catch (error) {
+    console.error('Error querying audit log:', error);
+    return c.json({ success: false, error: 'Failed to query audit log' }, 500);
+  }
+});
+
+/**
+ * Record an action in the audit log. The action has already happened, so a
+ * failure to record it is logged rather than failing the request.
+ */
+export async function recordAudit(
+  c: Context<AppEnv>,
+  action: string,
+  target: AuditTarget,
+  details?: Record<string, unknown>,
+): Promise<void> {
+  const caller = c.get('caller');
+  const actor = caller?.admin ? 'api-token' : 'anonymous';
+  await insertAuditEntry(c.env, action, target, actor, c.req.header('CF-Connecting-IP'), details);
+}
+
+/**
+ * Record an action the worker took on its own, such as a scheduled prune.
+ * The actor is `system`.
+ */
+export async function recordSystemAudit(
+  env: Env,
+  action: string,
+  target: AuditTarget,
+  details?: Record<string, unknown>,
+): Promise<void> {
+  await insertAuditEntry(env, action, target, 'system', undefined, details);
+}
+
+async function insertAuditEntry(
+  env: Env,
+  action: string,
+  target: AuditTarget,
+  actor: string,
+  ip: string | undefined,
+  details: Record<string, unknown> | undefined,
+): Promise<void> {
+  try {
+    await env.DB.prepare(
+      `INSERT INTO audit_log (at, action, product, version, key, actor, ip, details)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).bind(
+      new Date().toISOString(),
+      action,
+      target.product ?? null,
+      target.version ?? null,
+      target.key ?? null,
+      actor,
+      ip ?? null,
+      details ? JSON.stringify(details) : null,
+    ).run();
+  } catch (error) {
+    console.error('Error recording audit entry:', error);
+  }
+}
+
+function fromRow(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    at: row.at,
+    action: row.action,
+    product: row.product ?? undefined,
+    version: row.version ?? undefined,
+    key: row.key ?? undefined,
+    actor: row.actor,
+    ip: row.ip ?? undefined,
+    details: row.details ? JSON.parse(row.details) as Record<string, unknown> : undefined,
+  };
+}
+
+export default audit;
@@ -0,0 +1,40 @@
+import { createMiddleware } from 'hono/factory';
+import type { AppEnv } from './types';
+
+const encoder = new TextEncoder();
+
+/**
+ * Compare two strings in constant time
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  if (left.byteLength !== right.byteLength) return false;
+  return crypto.subtle.timingSafeEqual(left, right);
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(header: string | undefined): string | null {
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Require a valid API token for write/admin routes
+ */
+export const requireAuth = createMiddleware<AppEnv>(async (c, next) => {
+  const token = getBearerToken(c.req.header('Authorization'));
+
+  if (!token) {
+    c.header('WWW-Authenticate', 'Bearer realm="cogix-release"');
+    return c.json({ success: false, error: 'Missing bearer token' }, 401);
+  }
+
+  if (!c.env.API_TOKEN || !safeEqual(token, c.env.API_TOKEN)) {
+    return c.json({ success: false, error: 'Invalid API token' }, 403);
+  }
+
+  return next();
+});
@@ -0,0 +1,108 @@
+import { Hono } from 'hono';
+import { cacheControl, checkProductAccess } from './access';
+import { listReleases } from './release-index';
+import type { AppEnv, Env, ReleaseFile } from './types';
+
+const checksums = new Hono<AppEnv>();
+
+/**
+ * GET /checksums/:product/:version/SHA256SUMS - Checksums of every artifact of a version, in sha256sum format
+ */
+checksums.get('/checksums/:product/:version/SHA256SUMS', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+    const denied = await checkProductAccess(c, product);
+    if (denied) return denied;
+
+    // Yanked artifacts are still downloadable by key, so they keep their checksums
+    const releases = await listReleases(c.env, { product, version, includeYanked: true });
+
+    if (releases.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product} ${version}` }, 404);
+    }
+
+    const body = formatSha256Sums(releases);
+    return c.body(body, 200, {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': cacheControl(c, 'max-age=300'),
+    });
+  } catch (error) {
+    console.error('Error generating SHA256SUMS:', error);
+    return c.json({ success: false, error: 'Failed to generate checksums' }, 500);
+  }
+});
+
+/**
+ * Extract the hex digest from `sha256:<hex>` (or a bare 64-character hex string)
+ */
+export function parseSha256(checksum: string | undefined): string | null {
+  const match = checksum?.trim().match(/^(?:sha256[:-])?([0-9a-f]{64})$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+export function formatSha256(hex: string): string {
+  return `sha256:${hex}`;
+}
+
+/**
+ * One `<hex>  <name>` line per artifact, as produced by `sha256sum`. Artifacts
+ * are named by filename, or by `{platform}-{arch}/{filename}` when several
+ * platforms share a filename. Artifacts without a SHA-256 are skipped.
+ */
+export function formatSha256Sums(releases: ReleaseFile[]): string {
+  const filenameCounts = new Map<string, number>();
+  for (const { metadata } of releases) {
+    filenameCounts.set(metadata.filename, (filenameCounts.get(metadata.filename) ?? 0) + 1);
+  }
+
+  return releases
+    .map(({ metadata }) => {
+      const hex = parseSha256(metadata.checksum);
+      if (!hex) return null;
+      const name = filenameCounts.get(metadata.filename) === 1
+        ? metadata.filename
+        : `${metadata.platform}-${metadata.arch}/${metadata.filename}`;
+      return `${hex}  ${name}\n`;
+    })
+    .filter((line): line is string => line !== null)
+    .sort((a, b) => a.slice(66).localeCompare(b.slice(66)))
+    .join('');
+}
+
+/**
+ * Start hashing a stream. Returns the stream to consume instead, and a
+ * promise for the hex SHA-256 once that stream has been read to the end.
+ */
+export function hashStream(body: ReadableStream): { body: ReadableStream; digest: Promise<string> } {
+  const [forConsumer, forDigest] = body.tee();
+  const digestStream = new crypto.DigestStream('SHA-256');
+  const digest = forDigest.pipeTo(digestStream).then(() => digestStream.digest).then(toHex);
+  return { body: forConsumer, digest };
+}
+
+/**
+ * Read an object back from the bucket and return its hex SHA-256
+ */
+export async function digestObject(env: Env, key: string): Promise<string | null> {
+  const object = await env.RELEASES.get(key);
+  if (!object) return null;
+
+  const digestStream = new crypto.DigestStream('SHA-256');
+  await object.body.pipeTo(digestStream);
+  return toHex(await digestStream.digest);
+}
+
+export function hexToBase64(hex: string): string {
+  let binary = '';
+  for (let i = 0; i < hex.length; i += 2) {
+    binary += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return btoa(binary);
+}
+
+export function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export default checksums;
@@ -0,0 +1,316 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { cacheControl, checkProductAccess, isPrivateProduct } from './access';
+import { recordDownload } from './analytics';
+import { hexToBase64, parseSha256 } from './checksums';
+import { getRelease } from './release-index';
+import { parseReleaseMetadata } from './releases';
+import { checkSignedUrl, consumeSignedUrl, isSignedRequest } from './signing';
+import type { AppEnv } from './types';
+
+const download = new Hono<AppEnv>();
+
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Requests asking for more ranges than this get the whole file instead
+const MAX_RANGES = 16;
+
+// `<key>.sha256` is generated from checksum metadata unless such an object exists
+const SIDECAR_EXTENSION = '.sha256';
+
+const encoder = new TextEncoder();
+
+/**
+ * GET|HEAD /download/* - Proxies download from R2
+ *
+ * Hono answers HEAD with the GET handler and drops the body, so HEAD is
+ * handled here too and only reads the object's metadata.
+ */
+download.get('/download/*', async (c) => {
+  try {
+    const key = c.req.path.substring('/download/'.length);
+    const decodedKey = decodeURIComponent(key);
+    const object = await c.env.RELEASES.head(decodedKey);
+
+    if (!object) {
+      if (decodedKey.endsWith(SIDECAR_EXTENSION)) {
+        return serveChecksumSidecar(c, decodedKey.slice(0, -SIDECAR_EXTENSION.length));
+      }
+      return c.json({ success: false, error: 'File not found' }, 404);
+    }
+
+    // A valid signed URL grants access on its own, even to private products
+    const signed = isSignedRequest(c);
+    if (signed) {
+      const rejected = await checkSignedUrl(c, decodedKey);
+      if (rejected) return rejected;
+    }
+
+    const product = parseReleaseMetadata(object)?.product;
+    const isPrivate = product !== undefined && await isPrivateProduct(c.env, product);
+    if (isPrivate && !signed) {
+      const denied = await checkProductAccess(c, product);
+      if (denied) return denied;
+    }
+
+    const filename = decodedKey.split('/').pop() || 'download';
+    const headers = new Headers();
+    headers.set('Content-Type', object.httpMetadata?.contentType || 'application/octet-stream');
+    headers.set('Content-Disposition', contentDisposition(filename));
+    // Private artifacts and signed links must not be stored by shared caches
+    headers.set('Cache-Control', cacheControl(c, 'max-age=31536000', isPrivate || signed));
+    headers.set('ETag', object.httpEtag);
+    headers.set('Last-Modified', object.uploaded.toUTCString());
+    headers.set('Accept-Ranges', 'bytes');
+
+    if (isNotModified(c, object)) {
+      headers.delete('Content-Type');
+      headers.delete('Content-Disposition');
+      return new Response(null, { status: 304, headers });
+    }
+
+    const ranges = matchesIfRange(c, object)
+      ? parseRange(c.req.header('Range'), object.size)
+      : null;
+
+    if (ranges === 'unsatisfiable') {
+      return c.json({ success: false, error: 'Requested range not satisfiable' }, 416, {
+        'Content-Range': `bytes */${object.size}`,
+      });
+    }
+
+    const isHead = c.req.method === 'HEAD';
+
+    // Every request through a signed link spends a use, ranges included, so
+    // a use limit can't be side-stepped by never asking for the first byte
+    if (signed && !isHead) {
+      const exhausted = await consumeSignedUrl(c);
+      if (exhausted) return exhausted;
+    }
+
+    // Resumed and segmented downloads issue many range requests; only the
+    // one covering the first byte counts as a download
+    if (!isHead && (!ranges || ranges[0].start === 0)) {
+      c.executionCtx.waitUntil(recordDownload(c.env, object, c.req.raw));
+    }
+
+    if (ranges && ranges.length === 1) {
+      const [range] = ranges;
+      const length = range.end - range.start + 1;
+      headers.set('Content-Range', `bytes ${range.start}-${range.end}/${object.size}`);
+      headers.set('Content-Length', length.toString());
+      if (isHead) return new Response(null, { status: 206, headers });
+
+      const body = await c.env.RELEASES.get(decodedKey, { range: { offset: range.start, length } });
+      if (!body) return c.json({ success: false, error: 'File not found' }, 404);
+      return new Response(body.body, { status: 206, headers });
+    }
+
+    if (ranges) {
+      return serveMultipleRanges(c, object, ranges, headers);
+    }
+
+    headers.set('Content-Length', object.size.toString());
+    const sha256 = parseSha256((await getRelease(c.env, decodedKey))?.metadata.checksum);
+    if (sha256) {
+      const digest = hexToBase64(sha256);
+      headers.set('Digest', `sha-256=${digest}`);
+      headers.set('Content-Digest', `sha-256=:${digest}:`);
+    }
+    if (isHead) return new Response(null, { headers });
+
+    const body = await c.env.RELEASES.get(decodedKey);
+    if (!body) return c.json({ success: false, error: 'File not found' }, 404);
+    return new Response(body.body, { headers });
+  } catch (error) {
+    console.error('Error downloading file:', error);
+    return c.json({ success: false, error: 'Failed to download file' }, 500);
+  }
+});
+
+/**
+ * Generate `<key>.sha256` from the artifact's indexed checksum, in sha256sum format
+ */
+async function serveChecksumSidecar(c: Context<AppEnv>, key: string): Promise<Response> {
+  const release = await getRelease(c.env, key);
+  const sha256 = parseSha256(release?.metadata.checksum);
+  if (!release || !sha256) {
+    return c.json({ success: false, error: 'File not found' }, 404);
+  }
+
+  // A link signed for the artifact covers its checksum too, without spending a use
+  const signed = isSignedRequest(c);
+  if (signed) {
+    const rejected = await checkSignedUrl(c, key);
+    if (rejected) return rejected;
+  }
+
+  const isPrivate = await isPrivateProduct(c.env, release.metadata.product);
+  if (isPrivate && !signed) {
+    const denied = await checkProductAccess(c, release.metadata.product);
+    if (denied) return denied;
+  }
+
+  const filename = key.split('/').pop() || key;
+  return c.body(`${sha256}  ${filename}\n`, 200, {
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Cache-Control': cacheControl(c, 'max-age=31536000', isPrivate || signed),
+    'ETag': `"${sha256}"`,
+  });
+}
+
+/**
+ * Serve several ranges as a multipart/byteranges body, reading each one from R2 in turn
+ */
+function serveMultipleRanges(
+  c: Context<AppEnv>,
+  object: R2Object,
+  ranges: ByteRange[],
+  headers: Headers,
+): Response {
+  const contentType = headers.get('Content-Type') || 'application/octet-stream';
+  const boundary = crypto.randomUUID().replace(/-/g, '');
+  const partHeaders = ranges.map((range) => encoder.encode(
+    `\r\n--${boundary}\r\n` +
+    `Content-Type: ${contentType}\r\n` +
+    `Content-Range: bytes ${range.start}-${range.end}/${object.size}\r\n\r\n`,
+  ));
+  const closing = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  const length = ranges.reduce(
+    (total, range, i) => total + partHeaders[i].byteLength + (range.end - range.start + 1),
+    closing.byteLength,
+  );
+
+  headers.set('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+  headers.set('Content-Length', length.toString());
+  if (c.req.method === 'HEAD') return new Response(null, { status: 206, headers });
+
+  const { readable, writable } = new FixedLengthStream(length);
+  const writer = writable.getWriter();
+
+  const pump = async () => {
+    try {
+      for (let i = 0; i < ranges.length; i++) {
+        const range = ranges[i];
+        await writer.write(partHeaders[i]);
+
+        const part = await c.env.RELEASES.get(object.key, {
+          range: { offset: range.start, length: range.end - range.start + 1 },
+        });
+        if (!part) throw new Error(`Object disappeared while streaming: ${object.key}`);
+
+        const reader = part.body.getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await writer.write(value);
+        }
+      }
+      await writer.write(closing);
+      await writer.close();
+    } catch (error) {
+      console.error('Error streaming byte ranges:', error);
+      await writer.abort(error);
+    }
+  };
+
+  c.executionCtx.waitUntil(pump());
+  return new Response(readable, { status: 206, headers });
+}
+
+/**
+ * Parse a `Range: bytes=...` header against an object size. Returns null when
+ * the header is absent, malformed or should be ignored (the whole file is
+ * served), or 'unsatisfiable' when no requested range overlaps the file.
+ */
+function parseRange(header: string | undefined, size: number): ByteRange[] | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(.+)$/i);
+  if (!match) return null;
+
+  const specs = match[1].split(',').map((spec) => spec.trim());
+  if (specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = spec.match(/^(\d*)-(\d*)$/);
+    if (!parts || (parts[1] === '' && parts[2] === '')) return null;
+
+    if (parts[1] === '') {
+      // Suffix range: the last N bytes
+      const suffix = Number(parts[2]);
+      if (suffix > 0 && size > 0) {
+        ranges.push({ start: Math.max(0, size - suffix), end: size - 1 });
+      }
+      continue;
+    }
+
+    const start = Number(parts[1]);
+    const end = parts[2] === '' ? Infinity : Number(parts[2]);
+    if (end < start) return null;
+    if (start < size) {
+      ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+  }
+
+  return ranges.length > 0 ? ranges : 'unsatisfiable';
+}
+
+/**
+ * If-None-Match takes precedence; If-Modified-Since is only checked without it
+ */
+function isNotModified(c: Context<AppEnv>, object: R2Object): boolean {
+  const ifNoneMatch = c.req.header('If-None-Match');
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === '*') return true;
+    const etag = weakEtag(object.httpEtag);
+    return ifNoneMatch.split(',').some((candidate) => weakEtag(candidate.trim()) === etag);
+  }
+
+  const ifModifiedSince = c.req.header('If-Modified-Since');
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && Math.floor(object.uploaded.getTime() / 1000) <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
+
+/**
+ * A Range request is only honoured if If-Range (when present) still matches
+ * the object, either by strong ETag or by exact Last-Modified date
+ */
+function matchesIfRange(c: Context<AppEnv>, object: R2Object): boolean {
+  const ifRange = c.req.header('If-Range')?.trim();
+  if (!ifRange) return true;
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return ifRange === object.httpEtag;
+  }
+
+  const date = Date.parse(ifRange);
+  return !Number.isNaN(date) && Math.floor(date / 1000) === Math.floor(object.uploaded.getTime() / 1000);
+}
+
+function weakEtag(etag: string): string {
+  return etag.startsWith('W/') ? etag.slice(2) : etag;
+}
+
+/**
+ * An attachment Content-Disposition per RFC 6266. Quotes, backslashes and
+ * non-ASCII characters become `_` in the quoted filename; clients that read
+ * the RFC 5987 `filename*` parameter get the name exactly.
+ */
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  if (fallback === filename) return `attachment; filename="${filename}"`;
+
+  const encoded = encodeURIComponent(filename)
+    .replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+export default download;
@@ -0,0 +1,173 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { cacheControl, getHiddenProducts } from './access';
+import { escapeHtml } from './markdown';
+import { listReleaseNotes, toVersionRelease } from './notes';
+import type { ReleaseNotes, VersionRelease } from './notes';
+import { listReleases } from './release-index';
+import { formatFileSize, isReleaseChannel } from './releases';
+import type { AppEnv, ReleaseChannel, ReleaseFile } from './types';
+
+const feed = new Hono<AppEnv>();
+
+// Feed readers only look at recent entries; older versions stay on the changelog
+const MAX_ENTRIES = 50;
+
+interface FeedEntry {
+  release: VersionRelease;
+  updated: string;
+}
+
+/**
+ * GET /feed.xml - Atom feed of new versions across all products
+ */
+feed.get('/feed.xml', (c) => serveFeed(c));
+
+/**
+ * GET /feed/:product.xml - Atom feed of new versions of one product
+ */
+feed.get('/feed/:file', async (c) => {
+  const file = c.req.param('file');
+  if (!file.endsWith('.xml')) {
+    return c.json({ success: false, error: 'Not found' }, 404);
+  }
+  return serveFeed(c, file.slice(0, -'.xml'.length));
+});
+
+async function serveFeed(c: Context<AppEnv>, product?: string): Promise<Response> {
+  try {
+    const channelParam = c.req.query('channel');
+    const channel = isReleaseChannel(channelParam) ? channelParam : undefined;
+    if (channelParam && !channel) {
+      return c.json({ success: false, error: `Invalid channel: ${channelParam}` }, 400);
+    }
+
+    const excludeProducts = await getHiddenProducts(c);
+    if (product && excludeProducts.includes(product)) {
+      return c.json({ success: false, error: `No releases found for ${product}` }, 404);
+    }
+
+    const [artifacts, releaseNotes] = await Promise.all([
+      listReleases(c.env, { product, channel, excludeProducts }),
+      listReleaseNotes(c.env, product),
+    ]);
+    if (product && artifacts.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product}` }, 404);
+    }
+
+    const entries = groupEntries(artifacts, releaseNotes);
+    const updated = entries[0]?.updated ?? new Date(0).toISOString();
+
+    // Atom timestamps have millisecond precision, HTTP dates only seconds
+    const lastModified = new Date(updated);
+    const ifModifiedSince = Date.parse(c.req.header('If-Modified-Since') ?? '');
+    const headers = {
+      'Content-Type': 'application/atom+xml; charset=utf-8',
+      'Cache-Control': cacheControl(c, 'max-age=300'),
+      'Last-Modified': lastModified.toUTCString(),
+    };
+    if (!Number.isNaN(ifModifiedSince) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(ifModifiedSince / 1000)) {
+      return c.body(null, 304, { 'Cache-Control': headers['Cache-Control'], 'Last-Modified': headers['Last-Modified'] });
+    }
+
+    return c.body(renderFeed(c, { product, channel, updated, entries }), 200, headers);
+  } catch (error) {
+    console.error('Error generating feed:', error);
+    return c.json({ success: false, error: 'Failed to generate feed' }, 500);
+  }
+}
+
+/**
+ * One entry per product version, most recently updated first. A version is
+ * updated when an artifact is uploaded or its notes are edited.
+ */
+function groupEntries(
+  artifacts: ReleaseFile[],
+  releaseNotes: ReleaseNotes[],
+): FeedEntry[] {
+  const byVersion = new Map<string, ReleaseFile[]>();
+  for (const artifact of artifacts) {
+    const id = `${artifact.metadata.product}/${artifact.metadata.version}`;
+    const list = byVersion.get(id) ?? [];
+    list.push(artifact);
+    byVersion.set(id, list);
+  }
+  const notesByVersion = new Map(releaseNotes.map((entry) => [`${entry.product}/${entry.version}`, entry]));
+
+  return [...byVersion.entries()]
+    .map(([id, files]) => {
+      const notes = notesByVersion.get(id) ?? null;
+      const { product, version } = files[0].metadata;
+      const updated = [...files.map((file) => file.metadata.uploadDate), notes?.updatedAt ?? '']
+        .sort()
+        .pop() as string;
+      return { release: toVersionRelease(product, version, files, notes), updated };
+    })
+    .sort((a, b) => b.updated.localeCompare(a.updated))
+    .slice(0, MAX_ENTRIES);
+}
+
+function renderFeed(
+  c: Context<AppEnv>,
+  feedInfo: { product?: string; channel?: ReleaseChannel; updated: string; entries: FeedEntry[] },
+): string {
+  const { origin, host } = new URL(c.req.url);
+  const title = [
+    'Cogix',
+    feedInfo.product,
+    feedInfo.channel && feedInfo.channel !== 'stable' ? feedInfo.channel : undefined,
+    'releases',
+  ].filter(Boolean).join(' ');
+  const selfPath = feedInfo.product ? `/feed/${encodeURIComponent(feedInfo.product)}.xml` : '/feed.xml';
+  const query = feedInfo.channel ? `?channel=${feedInfo.channel}` : '';
+  const alternate = feedInfo.product ? `${origin}/changelog/${encodeURIComponent(feedInfo.product)}` : `${origin}/`;
+
+  const entries = feedInfo.entries.map(({ release, updated }) => {
+    const link = `${origin}/products/${encodeURIComponent(release.product)}/${encodeURIComponent(release.version)}`;
+    return `
+  <entry>
+    <id>${escapeHtml(`tag:${host},2025:${release.product}/${release.version}`)}</id>
+    <title>${escapeHtml(`${release.product} ${release.version}`)}</title>
+    <link rel="alternate" type="text/html" href="${escapeHtml(link)}"/>
+    <updated>${updated}</updated>
+    <published>${release.releaseDate ?? updated}</published>
+    ${release.channel ? `<category term="${release.channel}"/>` : ''}
+    <category term="${escapeHtml(release.product)}"/>
+    <content type="html">${escapeHtml(renderEntryContent(origin, release))}</content>
+  </entry>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeHtml(origin + selfPath)}</id>
+  <title>${escapeHtml(title)}</title>
+  <link rel="self" type="application/atom+xml" href="${escapeHtml(origin + selfPath + query)}"/>
+  <link rel="alternate" type="text/html" href="${escapeHtml(alternate)}"/>
+  <updated>${feedInfo.updated}</updated>
+  <author><name>Cogix</name></author>${entries}
+</feed>
+`;
+}
+
+/**
+ * The release notes, or each artifact's description when there are none,
+ * followed by the download links
+ */
+function renderEntryContent(origin: string, release: VersionRelease): string {
+  const descriptions = [...new Set(release.artifacts
+    .map((artifact) => artifact.metadata.description)
+    .filter((description): description is string => Boolean(description)))];
+
+  const summary = release.notesHtml
+    ?? descriptions.map((description) => `<p>${escapeHtml(description)}</p>`).join('');
+
+  const downloads = release.artifacts.map((artifact) => {
+    const { platform, arch, filename } = artifact.metadata;
+    const href = `${origin}/download/${encodeURIComponent(artifact.key)}`;
+    return `<li><a href="${escapeHtml(href)}">${escapeHtml(filename)}</a> (${escapeHtml(`${platform}-${arch}`)}, ${formatFileSize(artifact.size)})</li>`;
+  }).join('');
+
+  return `${summary}<ul>${downloads}</ul>`;
+}
+
+export default feed;
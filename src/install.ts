@@ -0,0 +1,441 @@
+import { Hono } from 'hono';
+import { cacheControl, checkProductAccess } from './access';
+import { recordAudit } from './audit';
+import { requireAuth } from './auth';
+import { parseSha256 } from './checksums';
+import { findRecommendedRelease, normalizeArch, normalizePlatform } from './platform';
+import { listReleases } from './release-index';
+import { isValidProduct, isValidVersion, splitPlatformArch } from './releases';
+import type { AppEnv, Env, InstallLayout, ReleaseFile } from './types';
+
+const install = new Hono<AppEnv>();
+
+const DEFAULT_PREFIX = '~/.local';
+
+// Layout values are written into the scripts, so they are limited to characters
+// that need no quoting in either shell
+const FILE_SUFFIX_PATTERN = /^[A-Za-z0-9._+-]+$/;
+const BIN_PATH_PATTERN = /^[A-Za-z0-9_+-][A-Za-z0-9._+-]*(\/[A-Za-z0-9_+-][A-Za-z0-9._+-]*)*$/;
+const PREFIX_PATTERN = /^(~|\/[A-Za-z0-9._+-]+)(\/[A-Za-z0-9._+-]+)*$/;
+
+/**
+ * PUT /api/admin/products/:product/install - Sets how the install scripts install a product
+ */
+install.put('/api/admin/products/:product/install', requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    if (!isValidProduct(product)) {
+      return c.json({ success: false, error: `Invalid product: ${product}` }, 400);
+    }
+
+    const body = await c.req.json<unknown>().catch(() => null);
+    const layout = parseInstallLayout(body);
+    if (typeof layout === 'string') {
+      return c.json({ success: false, error: layout }, 400);
+    }
+
+    const result = await c.env.DB
+      .prepare('UPDATE products SET install_layout = ? WHERE name = ?')
+      .bind(JSON.stringify(layout), product)
+      .run();
+    if (result.meta.changes === 0) {
+      return c.json({ success: false, error: `Product not found: ${product}` }, 404);
+    }
+
+    await recordAudit(c, 'product.install', { product }, { ...layout });
+    return c.json({ success: true, product, install: layout });
+  } catch (error) {
+    console.error('Error setting install layout:', error);
+    return c.json({ success: false, error: 'Failed to set install layout' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/products/:product/install - Removes a product's install scripts
+ */
+install.delete('/api/admin/products/:product/install', requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    const result = await c.env.DB
+      .prepare('UPDATE products SET install_layout = NULL WHERE name = ? AND install_layout IS NOT NULL')
+      .bind(product)
+      .run();
+    if (!result.meta.changes) {
+      return c.json({ success: false, error: `No install layout for ${product}` }, 404);
+    }
+
+    await recordAudit(c, 'product.install.delete', { product });
+    return c.json({ success: true, product });
+  } catch (error) {
+    console.error('Error removing install layout:', error);
+    return c.json({ success: false, error: 'Failed to remove install layout' }, 500);
+  }
+});
+
+/**
+ * GET /install/:product.sh, /install/:product.ps1 - Install scripts for
+ * macOS and Linux (`curl | sh`) and Windows (`irm | iex`)
+ */
+install.get('/install/:file', async (c) => {
+  const file = c.req.param('file');
+  const match = /^(.+)\.(sh|ps1)$/.exec(file);
+  if (!match) {
+    return c.json({ success: false, error: 'Not found' }, 404);
+  }
+  const [, product, shell] = match;
+
+  try {
+    const denied = await checkProductAccess(c, product);
+    if (denied) return denied;
+
+    const layout = await getInstallLayout(c.env, product);
+    if (!layout) {
+      return c.json({ success: false, error: `No install layout configured for ${product}` }, 404);
+    }
+
+    const origin = new URL(c.req.url).origin;
+    const script = shell === 'sh' ? renderShellScript(origin, product, layout) : renderPowerShellScript(origin, product, layout);
+    return c.body(script, 200, {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': cacheControl(c, 'max-age=300'),
+    });
+  } catch (error) {
+    console.error('Error rendering install script:', error);
+    return c.json({ success: false, error: 'Failed to render install script' }, 500);
+  }
+});
+
+/**
+ * GET /install/:product/:platformArch - The artifact the install scripts
+ * download, as `key=value` lines both shells can read. ?version= pins a
+ * version; the default, `latest`, is the newest stable one.
+ */
+install.get('/install/:product/:platformArch', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const { platform, arch } = splitPlatformArch(c.req.param('platformArch'));
+    const version = c.req.query('version') || 'latest';
+    if (!normalizePlatform(platform) || !normalizeArch(arch)) {
+      return c.json({ success: false, error: `Invalid platform-arch: ${c.req.param('platformArch')}` }, 400);
+    }
+    if (version !== 'latest' && !isValidVersion(version)) {
+      return c.json({ success: false, error: `Invalid version: ${version}` }, 400);
+    }
+
+    const denied = await checkProductAccess(c, product);
+    if (denied) return denied;
+
+    const layout = await getInstallLayout(c.env, product);
+    if (!layout) {
+      return c.json({ success: false, error: `No install layout configured for ${product}` }, 404);
+    }
+
+    const release = await findInstallRelease(c.env, product, layout, {
+      platform: normalizePlatform(platform),
+      arch: normalizeArch(arch),
+    }, version);
+    if (!release) {
+      const which = version === 'latest' ? 'stable release' : `release ${version}`;
+      return c.json({ success: false, error: `No ${which} of ${product} for ${platform}-${arch}` }, 404);
+    }
+
+    const lines = [
+      `version=${release.metadata.version}`,
+      `filename=${release.metadata.filename}`,
+      `url=${new URL(c.req.url).origin}/download/${encodeURIComponent(release.key)}`,
+      `sha256=${parseSha256(release.metadata.checksum)}`,
+    ];
+    return c.body(lines.join('\n') + '\n', 200, {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': cacheControl(c, 'max-age=60'),
+    });
+  } catch (error) {
+    console.error('Error resolving install artifact:', error);
+    return c.json({ success: false, error: 'Failed to resolve install artifact' }, 500);
+  }
+});
+
+export async function getInstallLayout(env: Env, product: string): Promise<InstallLayout | null> {
+  const row = await env.DB
+    .prepare('SELECT install_layout FROM products WHERE name = ?')
+    .bind(product)
+    .first<{ install_layout: string | null }>();
+  return row?.install_layout ? JSON.parse(row.install_layout) as InstallLayout : null;
+}
+
+/**
+ * The artifact to install: the newest version with a build that runs on the
+ * client (native first, like /get/:product), then the layout's preferred
+ * file. Artifacts without a SHA-256 checksum can't be verified and are skipped.
+ */
+async function findInstallRelease(
+  env: Env,
+  product: string,
+  layout: InstallLayout,
+  client: { platform?: string; arch?: string },
+  version: string,
+): Promise<ReleaseFile | null> {
+  const pinned = version !== 'latest';
+  const fileRank = (release: ReleaseFile) =>
+    layout.files.findIndex((suffix) => release.metadata.filename.endsWith(suffix));
+
+  const releases = (await listReleases(env, { product, version: pinned ? version : undefined }))
+    .filter((release) => fileRank(release) !== -1 && parseSha256(release.metadata.checksum) !== null);
+  const recommended = findRecommendedRelease(releases, client, { includePrerelease: pinned });
+  if (!recommended) return null;
+
+  const { platform, arch } = recommended.release.metadata;
+  const [release] = releases
+    .filter((candidate) =>
+      candidate.metadata.version === recommended.version &&
+      candidate.metadata.platform === platform &&
+      candidate.metadata.arch === arch)
+    .sort((a, b) => fileRank(a) - fileRank(b));
+  return release;
+}
+
+/**
+ * Validate a PUT body. Returns an error message on invalid input.
+ */
+function parseInstallLayout(body: unknown): InstallLayout | string {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return 'Body must be a JSON object';
+  const { files, bin, prefix, ...rest } = body as Record<string, unknown>;
+
+  const unknown = Object.keys(rest)[0];
+  if (unknown !== undefined) return `Unknown field: ${unknown}`;
+
+  if (!Array.isArray(files) || files.length === 0) return 'files must be a non-empty array of filename suffixes';
+  const invalidFile = files.find((file) => typeof file !== 'string' || !FILE_SUFFIX_PATTERN.test(file));
+  if (invalidFile !== undefined) return `Invalid filename suffix: ${invalidFile}`;
+
+  if (!Array.isArray(bin) || bin.length === 0) return 'bin must be a non-empty array of relative paths';
+  const invalidBin = bin.find((path) =>
+    typeof path !== 'string' || !BIN_PATH_PATTERN.test(path) || path.split('/').includes('..'));
+  if (invalidBin !== undefined) return `Invalid bin path: ${invalidBin}`;
+
+  if (prefix !== undefined && (typeof prefix !== 'string' || !PREFIX_PATTERN.test(prefix))) {
+    return 'prefix must be an absolute path or start with ~/';
+  }
+
+  return { files: [...new Set(files as string[])], bin: [...new Set(bin as string[])], ...(prefix ? { prefix } : {}) };
+}
+
+function renderShellScript(origin: string, product: string, layout: InstallLayout): string {
+  const prefix = layout.prefix ?? DEFAULT_PREFIX;
+  // Layout values only contain characters that need no quoting
+  const defaultPrefix = prefix.startsWith('~') ? `$HOME${prefix.slice(1)}` : prefix;
+
+  return `#!/bin/sh
+# Installs ${product} from ${origin}
+#
+#   curl -fsSL ${origin}/install/${product}.sh | sh
+#   curl -fsSL ${origin}/install/${product}.sh | sh -s -- --version 1.2.0 --prefix /usr/local
+#
+# COGIX_VERSION and COGIX_PREFIX work too. Private products need an access
+# token in COGIX_TOKEN (and in the Authorization header of the first curl).
+set -eu
+
+BASE_URL='${origin}'
+PRODUCT='${product}'
+BINARIES='${layout.bin.join(' ')}'
+
+version="\${COGIX_VERSION:-latest}"
+prefix="\${COGIX_PREFIX:-${defaultPrefix}}"
+
+fail() {
+  echo "error: $*" >&2
+  exit 1
+}
+
+while [ $# -gt 0 ]; do
+  case "$1" in
+    --version) [ $# -ge 2 ] || fail "--version needs a value"; version="$2"; shift 2 ;;
+    --version=*) version="\${1#*=}"; shift ;;
+    --prefix) [ $# -ge 2 ] || fail "--prefix needs a value"; prefix="$2"; shift 2 ;;
+    --prefix=*) prefix="\${1#*=}"; shift ;;
+    *) fail "Unknown option: $1" ;;
+  esac
+done
+
+case "$version" in
+  ''|*[!A-Za-z0-9.+-]*) fail "Invalid version: $version" ;;
+esac
+
+command -v curl >/dev/null 2>&1 || fail "curl is required"
+
+fetch() {
+  if [ -n "\${COGIX_TOKEN:-}" ]; then
+    curl -fsSL -H "Authorization: Bearer $COGIX_TOKEN" -o "$2" "$1"
+  else
+    curl -fsSL -o "$2" "$1"
+  fi
+}
+
+case "$(uname -s)" in
+  Linux) platform=linux ;;
+  Darwin) platform=macos ;;
+  *) fail "Unsupported operating system: $(uname -s)" ;;
+esac
+
+case "$(uname -m)" in
+  x86_64|amd64) arch=x64 ;;
+  arm64|aarch64) arch=arm64 ;;
+  i386|i686) arch=x86 ;;
+  armv7l|armv7) arch=armv7 ;;
+  *) fail "Unsupported architecture: $(uname -m)" ;;
+esac
+
+# A shell running under Rosetta 2 still gets native Apple Silicon builds
+if [ "$platform" = macos ] && [ "$arch" = x64 ] && [ "$(sysctl -n sysctl.proc_translated 2>/dev/null || true)" = 1 ]; then
+  arch=arm64
+fi
+
+tmp="$(mktemp -d)"
+trap 'rm -rf "$tmp"' EXIT
+
+fetch "$BASE_URL/install/$PRODUCT/$platform-$arch?version=$version" "$tmp/release" \\
+  || fail "No $version build of $PRODUCT for $platform-$arch"
+
+field() {
+  sed -n "s/^$1=//p" "$tmp/release"
+}
+
+resolved="$(field version)"
+filename="$(field filename)"
+sha256="$(field sha256)"
+
+echo "Downloading $PRODUCT $resolved ($filename)"
+fetch "$(field url)" "$tmp/download"
+
+if command -v sha256sum >/dev/null 2>&1; then
+  actual="$(sha256sum "$tmp/download" | cut -d ' ' -f 1)"
+elif command -v shasum >/dev/null 2>&1; then
+  actual="$(shasum -a 256 "$tmp/download" | cut -d ' ' -f 1)"
+else
+  fail "sha256sum or shasum is required to verify the download"
+fi
+[ "$actual" = "$sha256" ] || fail "Checksum mismatch for $filename: expected $sha256, got $actual"
+
+dest="$prefix/lib/$PRODUCT"
+rm -rf "$dest"
+mkdir -p "$dest" "$prefix/bin"
+
+case "$filename" in
+  *.tar.gz|*.tgz) tar -xzf "$tmp/download" -C "$dest" ;;
+  *.tar.xz) tar -xJf "$tmp/download" -C "$dest" ;;
+  *.zip) unzip -q "$tmp/download" -d "$dest" ;;
+  *)
+    # A bare binary is installed as the first entry of BINARIES
+    first="\${BINARIES%% *}"
+    mkdir -p "$(dirname "$dest/$first")"
+    cp "$tmp/download" "$dest/$first"
+    ;;
+esac
+
+for bin in $BINARIES; do
+  [ -f "$dest/$bin" ] || fail "$bin not found in $filename"
+  chmod +x "$dest/$bin"
+  ln -sf "$dest/$bin" "$prefix/bin/$(basename "$bin")"
+done
+
+echo "Installed $PRODUCT $resolved to $dest"
+case ":$PATH:" in
+  *":$prefix/bin:"*) ;;
+  *) echo "Add $prefix/bin to your PATH to use it" ;;
+esac
+`;
+}
+
+function renderPowerShellScript(origin: string, product: string, layout: InstallLayout): string {
+  return `# Installs ${product} from ${origin}
+#
+#   irm ${origin}/install/${product}.ps1 | iex
+#   & ([scriptblock]::Create((irm ${origin}/install/${product}.ps1))) -Version 1.2.0 -Prefix C:\\Tools
+#
+# $env:COGIX_VERSION and $env:COGIX_PREFIX work too. Private products need
+# an access token in $env:COGIX_TOKEN (and in the first request's headers).
+param(
+  [string]$Version = $(if ($env:COGIX_VERSION) { $env:COGIX_VERSION } else { 'latest' }),
+  [string]$Prefix = $(if ($env:COGIX_PREFIX) { $env:COGIX_PREFIX } else { Join-Path $env:LOCALAPPDATA 'Programs' })
+)
+
+$ErrorActionPreference = 'Stop'
+$ProgressPreference = 'SilentlyContinue'
+
+$BaseUrl = '${origin}'
+$Product = '${product}'
+$Binaries = @(${layout.bin.map((bin) => `'${bin}'`).join(', ')})
+
+if ($Version -notmatch '^[A-Za-z0-9.+-]+$') { throw "Invalid version: $Version" }
+
+$headers = @{}
+if ($env:COGIX_TOKEN) { $headers.Authorization = "Bearer $env:COGIX_TOKEN" }
+
+# 32-bit PowerShell on 64-bit Windows reports x86; the real architecture is in PROCESSOR_ARCHITEW6432
+$machine = if ($env:PROCESSOR_ARCHITEW6432) { $env:PROCESSOR_ARCHITEW6432 } else { $env:PROCESSOR_ARCHITECTURE }
+$arch = switch ($machine) {
+  'AMD64' { 'x64' }
+  'ARM64' { 'arm64' }
+  'x86' { 'x86' }
+  default { throw "Unsupported architecture: $machine" }
+}
+
+try {
+  $response = Invoke-WebRequest -UseBasicParsing -Headers $headers "$BaseUrl/install/$Product/windows-$($arch)?version=$Version"
+} catch {
+  throw "No $Version build of $Product for windows-$($arch)"
+}
+$release = $response.Content | ConvertFrom-StringData
+
+$tmp = Join-Path ([IO.Path]::GetTempPath()) ([IO.Path]::GetRandomFileName())
+New-Item -ItemType Directory -Path $tmp | Out-Null
+try {
+  Write-Host "Downloading $Product $($release.version) ($($release.filename))"
+  $download = Join-Path $tmp $release.filename
+  Invoke-WebRequest -UseBasicParsing -Headers $headers -OutFile $download $release.url
+
+  $actual = (Get-FileHash -Algorithm SHA256 $download).Hash.ToLower()
+  if ($actual -ne $release.sha256) {
+    throw "Checksum mismatch for $($release.filename): expected $($release.sha256), got $actual"
+  }
+
+  $dest = Join-Path $Prefix $Product
+  if (Test-Path $dest) { Remove-Item -Recurse -Force $dest }
+  New-Item -ItemType Directory -Path $dest | Out-Null
+
+  if ($release.filename -like '*.zip') {
+    Expand-Archive -Path $download -DestinationPath $dest
+  } elseif ($release.filename -like '*.tar.gz' -or $release.filename -like '*.tgz') {
+    tar -xzf $download -C $dest
+    if ($LASTEXITCODE -ne 0) { throw "Failed to extract $($release.filename)" }
+  } else {
+    # A bare binary is installed as the first entry of $Binaries
+    $target = Join-Path $dest $Binaries[0]
+    if ($release.filename -like '*.exe' -and $target -notlike '*.exe') { $target += '.exe' }
+    New-Item -ItemType Directory -Force -Path (Split-Path $target -Parent) | Out-Null
+    Copy-Item $download $target
+  }
+} finally {
+  Remove-Item -Recurse -Force $tmp
+}
+
+$dirs = foreach ($bin in $Binaries) {
+  $path = Join-Path $dest $bin
+  if (-not (Test-Path $path -PathType Leaf)) { $path += '.exe' }
+  if (-not (Test-Path $path -PathType Leaf)) { throw "$bin not found in $($release.filename)" }
+  Split-Path $path -Parent
+}
+
+$userPath = [Environment]::GetEnvironmentVariable('Path', 'User')
+$entries = @($userPath -split ';' | Where-Object { $_ })
+$added = @($dirs | Select-Object -Unique | Where-Object { $entries -notcontains $_ })
+if ($added.Count) {
+  [Environment]::SetEnvironmentVariable('Path', (($entries + $added) -join ';'), 'User')
+  Write-Host "Added $($added -join ', ') to your PATH; restart your terminal to use it"
+}
+
+Write-Host "Installed $Product $($release.version) to $dest"
+`;
+}
+
+export default install;
@@ -0,0 +1,188 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { cacheControl, checkProductAccess, getHiddenProducts } from './access';
+import { CLIENT_HINTS, detectClientPlatform, findRecommendedRelease } from './platform';
+import { listReleases } from './release-index';
+import { findLatestRelease, isReleaseChannel, splitPlatformArch } from './releases';
+import type { AppEnv } from './types';
+
+const latest = new Hono<AppEnv>();
+
+/**
+ * GET /api/releases/:product/latest - Returns the highest semver version of a product
+ */
+latest.get('/api/releases/:product/latest', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const includePrerelease = c.req.query('prerelease') === 'true';
+    const channelParam = c.req.query('channel');
+    const channel = isReleaseChannel(channelParam) ? channelParam : undefined;
+    if (channelParam && !channel) {
+      return c.json({ success: false, error: `Invalid channel: ${channelParam}` }, 400);
+    }
+    const platform = c.req.query('platform');
+    const arch = c.req.query('arch');
+
+    const releases = await listReleases(c.env, {
+      product,
+      platform,
+      arch,
+      excludeProducts: await getHiddenProducts(c),
+    });
+
+    const resolved = findLatestRelease(releases, { channel, includePrerelease });
+    if (!resolved) {
+      return c.json({ success: false, error: `No releases found for ${product}` }, 404);
+    }
+
+    return c.json({
+      success: true,
+      product,
+      version: resolved.version,
+      count: resolved.releases.length,
+      releases: resolved.releases,
+    });
+  } catch (error) {
+    console.error('Error resolving latest release:', error);
+    return c.json({ success: false, error: 'Failed to resolve latest release' }, 500);
+  }
+});
+
+/**
+ * GET /latest/:product/:platformArch - Redirects to the latest artifact for a platform
+ */
+latest.get('/latest/:product/:platformArch', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const denied = await checkProductAccess(c, product);
+    if (denied) return denied;
+
+    const { platform, arch } = splitPlatformArch(c.req.param('platformArch'));
+    const includePrerelease = c.req.query('prerelease') === 'true';
+    const channelParam = c.req.query('channel');
+    const channel = isReleaseChannel(channelParam) ? channelParam : undefined;
+    if (channelParam && !channel) {
+      return c.json({ success: false, error: `Invalid channel: ${channelParam}` }, 400);
+    }
+    const ext = c.req.query('ext');
+
+    const releases = (await listReleases(c.env, { product, platform, arch }))
+      .filter((release) => !ext || release.metadata.filename.endsWith(ext));
+
+    const resolved = findLatestRelease(releases, { channel, includePrerelease });
+    if (!resolved) {
+      return c.json({
+        success: false,
+        error: `No releases found for ${product} on ${platform}-${arch}`,
+      }, 404);
+    }
+
+    const [release] = resolved.releases;
+    c.header('Cache-Control', cacheControl(c, 'max-age=300'));
+    return c.redirect(`/download/${encodeURIComponent(release.key)}`, 302);
+  } catch (error) {
+    console.error('Error resolving latest download:', error);
+    return c.json({ success: false, error: 'Failed to resolve latest download' }, 500);
+  }
+});
+
+/**
+ * GET /api/releases/:product/recommended - The latest artifact for the caller's
+ * platform, detected from client hints and User-Agent or given as ?os=&arch=
+ */
+latest.get('/api/releases/:product/recommended', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const includePrerelease = c.req.query('prerelease') === 'true';
+    const channelParam = c.req.query('channel');
+    const channel = isReleaseChannel(channelParam) ? channelParam : undefined;
+    if (channelParam && !channel) {
+      return c.json({ success: false, error: `Invalid channel: ${channelParam}` }, 400);
+    }
+
+    const releases = await listReleases(c.env, { product, excludeProducts: await getHiddenProducts(c) });
+    if (releases.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product}` }, 404);
+    }
+
+    setClientHintHeaders(c);
+    const client = detectClientPlatform(c.req.raw.headers, { os: c.req.query('os'), arch: c.req.query('arch') });
+    const recommended = findRecommendedRelease(releases, client, { channel, includePrerelease });
+    if (!recommended) {
+      return c.json({
+        success: false,
+        error: `No releases of ${product} found for ${formatClient(client)}`,
+        client,
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      product,
+      client,
+      version: recommended.version,
+      target: recommended.target,
+      release: recommended.release,
+      url: `/download/${encodeURIComponent(recommended.release.key)}`,
+    });
+  } catch (error) {
+    console.error('Error resolving recommended release:', error);
+    return c.json({ success: false, error: 'Failed to resolve recommended release' }, 500);
+  }
+});
+
+/**
+ * GET /get/:product - Redirects to the latest artifact for the caller's platform,
+ * or to the product's changelog when no build matches
+ */
+latest.get('/get/:product', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const denied = await checkProductAccess(c, product);
+    if (denied) return denied;
+
+    const includePrerelease = c.req.query('prerelease') === 'true';
+    const channelParam = c.req.query('channel');
+    const channel = isReleaseChannel(channelParam) ? channelParam : undefined;
+    if (channelParam && !channel) {
+      return c.json({ success: false, error: `Invalid channel: ${channelParam}` }, 400);
+    }
+
+    const releases = await listReleases(c.env, { product });
+    if (releases.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product}` }, 404);
+    }
+
+    setClientHintHeaders(c);
+    // Chrome retries the request with the architecture hints when they weren't sent
+    c.header('Critical-CH', 'Sec-CH-UA-Arch, Sec-CH-UA-Bitness');
+    c.header('Cache-Control', 'private, max-age=300');
+
+    const client = detectClientPlatform(c.req.raw.headers, { os: c.req.query('os'), arch: c.req.query('arch') });
+    const recommended = findRecommendedRelease(releases, client, { channel, includePrerelease });
+    if (!recommended) {
+      return c.redirect(`/changelog/${encodeURIComponent(product)}`, 302);
+    }
+
+    return c.redirect(`/download/${encodeURIComponent(recommended.release.key)}`, 302);
+  } catch (error) {
+    console.error('Error resolving download for platform:', error);
+    return c.json({ success: false, error: 'Failed to resolve download' }, 500);
+  }
+});
+
+/**
+ * Ask browsers for the architecture client hints, and keep caches from
+ * serving one platform's answer to another
+ */
+export function setClientHintHeaders(c: Context<AppEnv>): void {
+  c.header('Accept-CH', CLIENT_HINTS.join(', '));
+  c.header('Vary', ['User-Agent', ...CLIENT_HINTS].join(', '));
+}
+
+function formatClient(client: { platform?: string; arch?: string }): string {
+  if (!client.platform) return 'an unknown platform';
+  return client.arch ? `${client.platform}-${client.arch}` : client.platform;
+}
+
+export default latest;
@@ -0,0 +1,271 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { cacheControl, checkProductAccess } from './access';
+import { parseSha256 } from './checksums';
+import { findRecommendedRelease } from './platform';
+import { listReleases } from './release-index';
+import { findLatestRelease, isValidVersion } from './releases';
+import type { AppEnv, ReleaseFile } from './types';
+
+const manifests = new Hono<AppEnv>();
+
+// Installer types each package manager can install, preferred first
+const CASK_EXTENSIONS = ['.dmg', '.pkg', '.zip'];
+const SCOOP_EXTENSIONS = ['.zip', '.exe', '.msi'];
+const WINGET_INSTALLER_TYPES: Record<string, string> = { '.msix': 'msix', '.msi': 'msi', '.exe': 'exe' };
+
+// Release key arch -> Scoop architecture
+const SCOOP_ARCH: Record<string, string> = { x64: '64bit', x86: '32bit', arm64: 'arm64' };
+
+// winget takes the release key's arch names as they are
+const WINGET_ARCHES = ['x64', 'x86', 'arm64'];
+
+const WINGET_MANIFEST_VERSION = '1.6.0';
+
+interface Artifact {
+  release: ReleaseFile;
+  sha256: string;
+}
+
+/**
+ * GET /brew/:product.rb - Homebrew cask for the latest stable macOS build
+ *
+ * Apple Silicon and Intel Macs each get the newest build that runs on them,
+ * as /get/:product would recommend. ?app= names the .app bundle inside a
+ * .dmg or .zip; it defaults to the product name in title case.
+ */
+manifests.get('/brew/:file', async (c) => {
+  const file = c.req.param('file');
+  if (!file.endsWith('.rb')) {
+    return c.json({ success: false, error: 'Not found' }, 404);
+  }
+  const product = file.slice(0, -'.rb'.length);
+
+  try {
+    const denied = await checkProductAccess(c, product);
+    if (denied) return denied;
+
+    const releases = await listInstallers(c, product, 'macos', CASK_EXTENSIONS);
+    const arm = findRecommendedRelease(releases, { platform: 'macos', arch: 'arm64' });
+    const intel = findRecommendedRelease(releases, { platform: 'macos', arch: 'x64' });
+    if (!arm && !intel) {
+      return c.json({ success: false, error: `No stable macOS releases with a checksum found for ${product}` }, 404);
+    }
+
+    const app = c.req.query('app') || `${titleCase(product)}.app`;
+    const builds = [
+      arm && { block: 'on_arm', version: arm.version, ...toArtifact(arm.release) },
+      intel && { block: 'on_intel', version: intel.version, ...toArtifact(intel.release) },
+    ].filter((build) => !!build);
+    const stanzas = builds.map((build) => caskArtifactStanza(build.release, app));
+    const sharedStanza = stanzas.every((stanza) => stanza === stanzas[0]) ? stanzas[0] : null;
+
+    const renderBuild = (build: typeof builds[number], indent: string) => [
+      `${indent}version ${rubyString(build.version)}`,
+      `${indent}sha256 ${rubyString(build.sha256)}`,
+      '',
+      `${indent}url ${rubyString(downloadUrl(c, build.release.key))}`,
+      ...(sharedStanza ? [] : ['', `${indent}${caskArtifactStanza(build.release, app)}`]),
+    ];
+
+    const lines = [`cask ${rubyString(product)} do`];
+    if (builds.length === 1 || builds[0].release.key === builds[1].release.key) {
+      lines.push(...renderBuild(builds[0], '  '));
+    } else {
+      for (const build of builds) {
+        lines.push(`  ${build.block} do`, ...renderBuild(build, '    '), '  end');
+      }
+    }
+
+    const description = builds[0].release.metadata.description?.split('\n')[0].trim();
+    lines.push(
+      '',
+      `  name ${rubyString(product)}`,
+      ...(description ? [`  desc ${rubyString(description)}`] : []),
+      `  homepage ${rubyString(productUrl(c, product))}`,
+    );
+    // An arm64-only build can't run on Intel Macs
+    if (!intel) lines.push('', '  depends_on arch: :arm64');
+    if (sharedStanza) lines.push('', `  ${sharedStanza}`);
+    lines.push('end');
+
+    return c.body(lines.join('\n') + '\n', 200, {
+      'Content-Type': 'text/x-ruby; charset=utf-8',
+      'Cache-Control': cacheControl(c, 'max-age=60'),
+    });
+  } catch (error) {
+    console.error('Error generating Homebrew cask:', error);
+    return c.json({ success: false, error: 'Failed to generate Homebrew cask' }, 500);
+  }
+});
+
+/**
+ * GET /scoop/:product.json - Scoop manifest for the latest stable Windows version
+ *
+ * A Scoop manifest has one version, so it lists that version's build for
+ * each architecture.
+ */
+manifests.get('/scoop/:file', async (c) => {
+  const file = c.req.param('file');
+  if (!file.endsWith('.json')) {
+    return c.json({ success: false, error: 'Not found' }, 404);
+  }
+  const product = file.slice(0, -'.json'.length);
+
+  try {
+    const denied = await checkProductAccess(c, product);
+    if (denied) return denied;
+
+    const releases = (await listInstallers(c, product, 'windows', SCOOP_EXTENSIONS))
+      .filter((release) => SCOOP_ARCH[release.metadata.arch]);
+    const latest = findLatestRelease(releases);
+    if (!latest) {
+      return c.json({ success: false, error: `No stable Windows releases with a checksum found for ${product}` }, 404);
+    }
+
+    const architecture: Record<string, { url: string; hash: string; bin?: string }> = {};
+    for (const release of preferExtensions(latest.releases, SCOOP_EXTENSIONS)) {
+      const arch = SCOOP_ARCH[release.metadata.arch];
+      if (architecture[arch]) continue;
+
+      const { filename } = release.metadata;
+      architecture[arch] = {
+        url: downloadUrl(c, release.key),
+        hash: toArtifact(release).sha256,
+        // A bare .exe is the program itself; archives and .msi are extracted as they are
+        ...(filename.endsWith('.exe') ? { bin: filename } : {}),
+      };
+    }
+
+    c.header('Cache-Control', cacheControl(c, 'max-age=60'));
+    return c.json({
+      version: latest.version,
+      description: latest.releases[0].metadata.description ?? product,
+      homepage: productUrl(c, product),
+      license: 'Proprietary',
+      architecture,
+    });
+  } catch (error) {
+    console.error('Error generating Scoop manifest:', error);
+    return c.json({ success: false, error: 'Failed to generate Scoop manifest' }, 500);
+  }
+});
+
+/**
+ * GET /winget/:product/:version.yaml - Singleton winget manifest of one version
+ */
+manifests.get('/winget/:product/:file', async (c) => {
+  const product = c.req.param('product');
+  const file = c.req.param('file');
+  const version = file.endsWith('.yaml') ? file.slice(0, -'.yaml'.length) : '';
+  if (!isValidVersion(version)) {
+    return c.json({ success: false, error: 'Not found' }, 404);
+  }
+
+  try {
+    const denied = await checkProductAccess(c, product);
+    if (denied) return denied;
+
+    const extensions = Object.keys(WINGET_INSTALLER_TYPES);
+    const releases = (await listReleases(c.env, { product, version, platform: 'windows' }))
+      .filter((release) => WINGET_ARCHES.includes(release.metadata.arch) && isInstaller(release, extensions));
+    const installers = new Map<string, Artifact>();
+    for (const release of preferExtensions(releases, extensions)) {
+      if (!installers.has(release.metadata.arch)) installers.set(release.metadata.arch, toArtifact(release));
+    }
+    if (!installers.size) {
+      return c.json({ success: false, error: `No Windows installers with a checksum found for ${product} ${version}` }, 404);
+    }
+
+    const [first] = installers.values();
+    const description = first.release.metadata.description?.split('\n')[0].trim();
+    const lines = [
+      `PackageIdentifier: ${yamlString(`Cogix.${product}`)}`,
+      `PackageVersion: ${yamlString(version)}`,
+      'PackageLocale: en-US',
+      'Publisher: Cogix',
+      `PackageName: ${yamlString(product)}`,
+      `PackageUrl: ${yamlString(productUrl(c, product))}`,
+      'License: Proprietary',
+      `ShortDescription: ${yamlString(description || `${product} ${version}`)}`,
+      `ReleaseDate: ${first.release.metadata.uploadDate.slice(0, 10)}`,
+      'Installers:',
+    ];
+    for (const [arch, { release, sha256 }] of installers) {
+      const extension = extensions.find((ext) => release.metadata.filename.endsWith(ext)) as string;
+      lines.push(
+        `- Architecture: ${arch}`,
+        `  InstallerType: ${WINGET_INSTALLER_TYPES[extension]}`,
+        `  InstallerUrl: ${yamlString(downloadUrl(c, release.key))}`,
+        `  InstallerSha256: ${sha256.toUpperCase()}`,
+      );
+    }
+    lines.push('ManifestType: singleton', `ManifestVersion: ${WINGET_MANIFEST_VERSION}`);
+
+    return c.body(lines.join('\n') + '\n', 200, {
+      'Content-Type': 'text/yaml; charset=utf-8',
+      'Cache-Control': cacheControl(c, 'max-age=60'),
+    });
+  } catch (error) {
+    console.error('Error generating winget manifest:', error);
+    return c.json({ success: false, error: 'Failed to generate winget manifest' }, 500);
+  }
+});
+
+/**
+ * A product's artifacts for the platform that a package manager can install
+ * and verify: the right file type and a SHA-256 checksum
+ */
+async function listInstallers(
+  c: Context<AppEnv>,
+  product: string,
+  platform: string,
+  extensions: string[],
+): Promise<ReleaseFile[]> {
+  const releases = await listReleases(c.env, { product, platform });
+  return releases.filter((release) => isInstaller(release, extensions));
+}
+
+function isInstaller(release: ReleaseFile, extensions: string[]): boolean {
+  return extensions.some((ext) => release.metadata.filename.endsWith(ext)) &&
+    parseSha256(release.metadata.checksum) !== null;
+}
+
+function preferExtensions(releases: ReleaseFile[], extensions: string[]): ReleaseFile[] {
+  const rank = (release: ReleaseFile) => extensions.findIndex((ext) => release.metadata.filename.endsWith(ext));
+  return [...releases].sort((a, b) => rank(a) - rank(b));
+}
+
+function toArtifact(release: ReleaseFile): Artifact {
+  return { release, sha256: parseSha256(release.metadata.checksum) as string };
+}
+
+function caskArtifactStanza(release: ReleaseFile, app: string): string {
+  const { filename } = release.metadata;
+  return filename.endsWith('.pkg') ? `pkg ${rubyString(filename)}` : `app ${rubyString(app)}`;
+}
+
+function titleCase(product: string): string {
+  return product.split(/[-_]+/).map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * A double-quoted Ruby string; `#` is escaped so `#{...}` isn't interpolated
+ */
+function rubyString(value: string): string {
+  return `"${value.replace(/[\\"#]/g, '\\$&')}"`;
+}
+
+function yamlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function downloadUrl(c: Context<AppEnv>, key: string): string {
+  return `${new URL(c.req.url).origin}/download/${encodeURIComponent(key)}`;
+}
+
+function productUrl(c: Context<AppEnv>, product: string): string {
+  return `${new URL(c.req.url).origin}/products/${encodeURIComponent(product)}`;
+}
+
+export default manifests;
@@ -0,0 +1,155 @@
+/**
+ * Minimal markdown renderer for release notes: headings, paragraphs,
+ * bullet and numbered lists, fenced code blocks, blockquotes, inline code,
+ * bold, italics and links. Everything is HTML-escaped before formatting is
+ * applied, and links are limited to http(s), mailto and relative URLs, so
+ * the output is safe to embed.
+ */
+export function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length) html.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (list) html.push(`<${list.tag}>${list.items.map((item) => `<li>${renderInline(item)}</li>`).join('')}</${list.tag}>`);
+    list = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      flushParagraph();
+      flushList();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trimStart().startsWith(fence[1])) code.push(lines[i]);
+      html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      // Notes sit under the page's own headings, so # renders as h3
+      const level = Math.min(heading[1].length + 2, 6);
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    const item = line.match(/^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+    if (item) {
+      flushParagraph();
+      const tag = item[1] ? 'ul' : 'ol';
+      if (list && list.tag !== tag) flushList();
+      if (!list) list = { tag, items: [] };
+      list.items.push(item[3]);
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      flushParagraph();
+      flushList();
+      const quote: string[] = [];
+      for (; i < lines.length && /^\s*>/.test(lines[i]); i++) quote.push(lines[i].replace(/^\s*>\s?/, ''));
+      i--;
+      html.push(`<blockquote>${renderMarkdown(quote.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      flushList();
+      html.push('<hr>');
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    // Indented text continues the previous list item
+    if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += ' ' + line.trim();
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  flushList();
+  return html.join('\n');
+}
+
+/**
+ * Plain text of the first paragraph, for page descriptions. Headings, code
+ * and formatting are dropped, and the text is cut at a word boundary.
+ */
+export function summarizeMarkdown(markdown: string, maxLength: number): string {
+  const lines: string[] = [];
+  let inFence = false;
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence || /^\s*#/.test(line) || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) continue;
+    if (line.trim() === '') {
+      if (lines.length) break;
+      continue;
+    }
+    // List items are run together, separated by semicolons
+    const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/);
+    lines.push(item ? `${item[1].trim().replace(/[.;:]$/, '')};` : line.replace(/^\s*>\s?/, '').trim());
+  }
+
+  const text = lines.join(' ').replace(/;$/, '.')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderInline(text: string): string {
+  // Code spans are cut out first so their contents aren't formatted
+  const codeSpans: string[] = [];
+  const withoutCode = text.replace(/`([^`]+)`/g, (_, code: string) => {
+    codeSpans.push(`<code>${escapeHtml(code)}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+
+  return escapeHtml(withoutCode)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, href: string) =>
+      isSafeHref(href) ? `<a href="${href}" rel="noopener noreferrer">${label}</a>` : match)
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^*\w])\*(?!\s)(.+?)\*(?!\w)|(^|\W)_(?!\s)(.+?)_(?!\w)/g,
+      (_, pa?: string, a?: string, pb?: string, b?: string) => `${pa ?? pb}<em>${a ?? b}</em>`)
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => codeSpans[Number(index)]);
+}
+
+function isSafeHref(href: string): boolean {
+  // href is already HTML-escaped; decode the one entity a URL commonly carries
+  return /^(https?:\/\/|mailto:|\/|#)/i.test(href.replace(/&amp;/g, '&'));
+}
@@ -0,0 +1,425 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { cacheControl, getHiddenProducts } from './access';
+import { recordAudit } from './audit';
+import { requireAuth } from './auth';
+import { escapeHtml, renderMarkdown } from './markdown';
+import { listReleases } from './release-index';
+import { isValidProduct, isValidVersion } from './releases';
+import { compareVersions } from './semver';
+import type { AppEnv, Env, ReleaseChannel, ReleaseFile } from './types';
+
+const notes = new Hono<AppEnv>();
+
+const NOTES_PATH = '/api/releases/:product/:version/notes';
+
+export interface ReleaseNotes {
+  product: string;
+  version: string;
+  notes: string;
+  releaseDate?: string;
+  updatedAt: string;
+}
+
+/**
+ * A product version: its notes and the artifacts that make it up
+ */
+export interface VersionRelease {
+  product: string;
+  version: string;
+  channel?: ReleaseChannel;
+  releaseDate?: string;
+  notes?: string;
+  notesHtml?: string;
+  artifacts: ReleaseFile[];
+}
+
+interface ReleaseNotesRow {
+  product: string;
+  version: string;
+  notes: string;
+  release_date: string | null;
+  updated_at: string;
+}
+
+/**
+ * GET /api/releases/:product/:version - Returns a version with its release notes and artifacts
+ */
+notes.get('/api/releases/:product/:version', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+
+    const release = await getVersionRelease(c, product, version);
+    if (!release) {
+      return c.json({ success: false, error: `No releases found for ${product} ${version}` }, 404);
+    }
+
+    return c.json({ success: true, release });
+  } catch (error) {
+    console.error('Error getting release:', error);
+    return c.json({ success: false, error: 'Failed to get release' }, 500);
+  }
+});
+
+/**
+ * PUT /api/releases/:product/:version/notes - Creates or replaces a version's release notes
+ *
+ * Accepts `{ "notes": "...", "releaseDate": "..." }` as JSON, or the markdown
+ * itself with any other Content-Type.
+ */
+notes.put(NOTES_PATH, requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+    const invalid = validateProductVersion(product, version);
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400);
+    }
+
+    const body = await readNotesBody(c);
+    if (typeof body === 'string') {
+      return c.json({ success: false, error: body }, 400);
+    }
+    if (body.notes === undefined) {
+      return c.json({ success: false, error: 'Request body must include notes' }, 400);
+    }
+
+    const saved = await saveReleaseNotes(c.env, {
+      product,
+      version,
+      notes: body.notes,
+      releaseDate: body.releaseDate ?? undefined,
+    });
+    await recordAudit(c, 'release.notes', { product, version }, { releaseDate: saved.releaseDate });
+
+    return c.json({ success: true, notes: saved });
+  } catch (error) {
+    console.error('Error saving release notes:', error);
+    return c.json({ success: false, error: 'Failed to save release notes' }, 500);
+  }
+});
+
+/**
+ * PATCH /api/releases/:product/:version/notes - Edits a version's notes or release date
+ */
+notes.patch(NOTES_PATH, requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+
+    const existing = await getReleaseNotes(c.env, product, version);
+    if (!existing) {
+      return c.json({ success: false, error: `No release notes found for ${product} ${version}` }, 404);
+    }
+
+    const body = await readNotesBody(c);
+    if (typeof body === 'string') {
+      return c.json({ success: false, error: body }, 400);
+    }
+
+    const saved = await saveReleaseNotes(c.env, {
+      product,
+      version,
+      notes: body.notes ?? existing.notes,
+      releaseDate: body.releaseDate === undefined ? existing.releaseDate : body.releaseDate ?? undefined,
+    });
+    await recordAudit(c, 'release.notes', { product, version }, { releaseDate: saved.releaseDate });
+
+    return c.json({ success: true, notes: saved });
+  } catch (error) {
+    console.error('Error updating release notes:', error);
+    return c.json({ success: false, error: 'Failed to update release notes' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/releases/:product/:version/notes - Removes a version's release notes
+ */
+notes.delete(NOTES_PATH, requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+
+    if (!(await deleteReleaseNotes(c.env, product, version))) {
+      return c.json({ success: false, error: `No release notes found for ${product} ${version}` }, 404);
+    }
+    await recordAudit(c, 'release.notes.delete', { product, version });
+
+    return c.json({ success: true, product, version });
+  } catch (error) {
+    console.error('Error deleting release notes:', error);
+    return c.json({ success: false, error: 'Failed to delete release notes' }, 500);
+  }
+});
+
+/**
+ * GET /changelog/:product - Every version of a product with its release notes, newest first
+ */
+notes.get('/changelog/:product', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const hidden = await getHiddenProducts(c);
+    if (hidden.includes(product)) {
+      return c.json({ success: false, error: `No releases found for ${product}` }, 404);
+    }
+
+    const releases = await listVersionReleases(c.env, product);
+    if (releases.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product}` }, 404);
+    }
+
+    c.header('Cache-Control', cacheControl(c, 'max-age=300'));
+    return c.html(renderChangelog(product, releases, c.get('secureHeadersNonce') ?? ''));
+  } catch (error) {
+    console.error('Error rendering changelog:', error);
+    return c.json({ success: false, error: 'Failed to render changelog' }, 500);
+  }
+});
+
+export async function getReleaseNotes(env: Env, product: string, version: string): Promise<ReleaseNotes | null> {
+  const row = await env.DB
+    .prepare('SELECT * FROM release_notes WHERE product = ? AND version = ?')
+    .bind(product, version)
+    .first<ReleaseNotesRow>();
+  return row ? fromRow(row) : null;
+}
+
+/**
+ * Every version's notes, for one product or for all of them
+ */
+export async function listReleaseNotes(env: Env, product?: string): Promise<ReleaseNotes[]> {
+  const statement = product
+    ? env.DB.prepare('SELECT * FROM release_notes WHERE product = ?').bind(product)
+    : env.DB.prepare('SELECT * FROM release_notes');
+  const { results } = await statement.all<ReleaseNotesRow>();
+  return results.map(fromRow);
+}
+
+export async function deleteReleaseNotes(env: Env, product: string, version: string): Promise<boolean> {
+  const result = await env.DB
+    .prepare('DELETE FROM release_notes WHERE product = ? AND version = ?')
+    .bind(product, version)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/**
+ * A single version as shown by the API, or null if it has neither notes
+ * nor visible artifacts (or the product is hidden from the caller)
+ */
+export async function getVersionRelease(
+  c: Context<AppEnv>,
+  product: string,
+  version: string,
+): Promise<VersionRelease | null> {
+  const excludeProducts = await getHiddenProducts(c);
+  if (excludeProducts.includes(product)) return null;
+
+  const [artifacts, releaseNotes] = await Promise.all([
+    listReleases(c.env, { product, version }),
+    getReleaseNotes(c.env, product, version),
+  ]);
+  if (artifacts.length === 0 && !releaseNotes) return null;
+
+  return toVersionRelease(product, version, artifacts, releaseNotes);
+}
+
+/**
+ * Every version of a product that has notes or visible artifacts, newest version first
+ */
+export async function listVersionReleases(env: Env, product: string): Promise<VersionRelease[]> {
+  const [artifacts, releaseNotes] = await Promise.all([
+    listReleases(env, { product }),
+    listReleaseNotes(env, product),
+  ]);
+
+  const byVersion = new Map<string, ReleaseFile[]>();
+  for (const artifact of artifacts) {
+    const list = byVersion.get(artifact.metadata.version) ?? [];
+    list.push(artifact);
+    byVersion.set(artifact.metadata.version, list);
+  }
+  const notesByVersion = new Map(releaseNotes.map((entry) => [entry.version, entry]));
+
+  return [...new Set([...byVersion.keys(), ...notesByVersion.keys()])]
+    .sort((a, b) => compareVersions(b, a))
+    .map((version) => toVersionRelease(product, version, byVersion.get(version) ?? [], notesByVersion.get(version) ?? null));
+}
+
+async function saveReleaseNotes(env: Env, notes: Omit<ReleaseNotes, 'updatedAt'>): Promise<ReleaseNotes> {
+  const saved: ReleaseNotes = { ...notes, updatedAt: new Date().toISOString() };
+  await env.DB.prepare(
+    `INSERT INTO release_notes (product, version, notes, release_date, updated_at) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (product, version) DO UPDATE SET
+       notes = excluded.notes, release_date = excluded.release_date, updated_at = excluded.updated_at`,
+  ).bind(saved.product, saved.version, saved.notes, saved.releaseDate ?? null, saved.updatedAt).run();
+  return saved;
+}
+
+/**
+ * Read notes from a JSON body (`notes`, `releaseDate`) or take the whole
+ * body as markdown. Returns an error message on invalid input.
+ */
+async function readNotesBody(c: Context<AppEnv>): Promise<{ notes?: string; releaseDate?: string | null } | string> {
+  if (!c.req.header('Content-Type')?.includes('application/json')) {
+    return { notes: await c.req.text() };
+  }
+
+  const body = await c.req.json<{ notes?: unknown; releaseDate?: unknown }>().catch(() => null);
+  if (!body || typeof body !== 'object') return 'Request body must be a JSON object';
+  if (body.notes !== undefined && typeof body.notes !== 'string') return 'notes must be a markdown string';
+
+  let releaseDate: string | null | undefined;
+  if (body.releaseDate === null) {
+    releaseDate = null;
+  } else if (body.releaseDate !== undefined) {
+    const date = new Date(typeof body.releaseDate === 'string' ? body.releaseDate : NaN);
+    if (Number.isNaN(date.getTime())) return 'releaseDate must be an ISO 8601 date';
+    releaseDate = date.toISOString();
+  }
+
+  return { notes: body.notes, releaseDate };
+}
+
+function validateProductVersion(product: string, version: string): string | null {
+  if (!isValidProduct(product)) return `Invalid product: ${product}`;
+  if (!isValidVersion(version)) return `Invalid version: ${version}`;
+  return null;
+}
+
+/**
+ * The release date is the one set with the notes, or else the first upload
+ */
+export function toVersionRelease(
+  product: string,
+  version: string,
+  artifacts: ReleaseFile[],
+  releaseNotes: ReleaseNotes | null,
+): VersionRelease {
+  const firstUpload = artifacts
+    .map((artifact) => artifact.metadata.uploadDate)
+    .sort()[0];
+
+  return {
+    product,
+    version,
+    channel: artifacts[0]?.metadata.channel,
+    releaseDate: releaseNotes?.releaseDate ?? firstUpload,
+    notes: releaseNotes?.notes,
+    notesHtml: releaseNotes ? renderMarkdown(releaseNotes.notes) : undefined,
+    artifacts,
+  };
+}
+
+function fromRow(row: ReleaseNotesRow): ReleaseNotes {
+  return {
+    product: row.product,
+    version: row.version,
+    notes: row.notes,
+    releaseDate: row.release_date ?? undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+function renderChangelog(product: string, releases: VersionRelease[], nonce: string): string {
+  const name = escapeHtml(product);
+  const entries = releases.map((release) => {
+    const date = release.releaseDate
+      ? new Date(release.releaseDate).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+      : '';
+    const artifacts = release.artifacts
+      .map((artifact) => `<a href="/download/${encodeURIComponent(artifact.key)}">${escapeHtml(artifact.metadata.filename)}</a>`)
+      .join('');
+
+    return `
+      <article class="entry" id="v${escapeHtml(release.version)}">
+        <div class="entry-header">
+          <h2><a href="#v${escapeHtml(release.version)}">v${escapeHtml(release.version)}</a></h2>
+          ${release.channel && release.channel !== 'stable' ? `<span class="channel-tag">${release.channel}</span>` : ''}
+          <time>${date}</time>
+        </div>
+        <div class="notes">${release.notesHtml ?? '<p class="muted">No release notes for this version.</p>'}</div>
+        ${artifacts ? `<div class="artifacts">${artifacts}</div>` : ''}
+      </article>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${name} changelog - Cogix Downloads</title>
+  <link rel="alternate" type="application/json" href="/api/releases/${encodeURIComponent(product)}">
+  <link rel="alternate" type="application/atom+xml" title="${name} releases" href="/feed/${encodeURIComponent(product)}.xml">
+  <style nonce="${nonce}">
+    *, *::before, *::after { margin: 0; padding: 0; box-sizing: border-box; }
+    :root {
+      --primary-600: #2563EB;
+      --background: #FFFFFF;
+      --foreground: #0F172A;
+      --border: #E2E8F0;
+      --muted: #F1F5F9;
+      --muted-foreground: #64748B;
+      --radius: 0.5rem;
+    }
+    .dark {
+      --background: #020617;
+      --foreground: #F8FAFC;
+      --border: #1E293B;
+      --muted: #1E293B;
+      --muted-foreground: #94A3B8;
+    }
+    body {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: var(--background);
+      color: var(--foreground);
+      line-height: 1.6;
+      -webkit-font-smoothing: antialiased;
+    }
+    .container { max-width: 760px; margin: 0 auto; padding: 2rem 1.5rem 4rem; }
+    .back { color: var(--muted-foreground); text-decoration: none; font-size: 0.875rem; }
+    h1 { font-size: 1.75rem; margin: 0.75rem 0 2rem; }
+    .entry { padding: 1.5rem 0; border-top: 1px solid var(--border); }
+    .entry-header { display: flex; align-items: baseline; gap: 0.75rem; margin-bottom: 0.75rem; }
+    .entry-header h2 { font-size: 1.25rem; }
+    .entry-header h2 a { color: inherit; text-decoration: none; }
+    .entry-header time { color: var(--muted-foreground); font-size: 0.875rem; margin-left: auto; }
+    .channel-tag {
+      font-size: 0.6875rem;
+      font-weight: 600;
+      text-transform: uppercase;
+      padding: 0.125rem 0.5rem;
+      border-radius: 9999px;
+      background: var(--muted);
+      color: var(--muted-foreground);
+    }
+    .notes > * + * { margin-top: 0.75rem; }
+    .notes h3, .notes h4, .notes h5, .notes h6 { font-size: 1rem; }
+    .notes ul, .notes ol { padding-left: 1.5rem; }
+    .notes a, .artifacts a { color: var(--primary-600); }
+    .notes code { background: var(--muted); padding: 0.125rem 0.375rem; border-radius: 0.25rem; font-size: 0.875em; }
+    .notes pre { background: var(--muted); padding: 0.75rem 1rem; border-radius: var(--radius); overflow-x: auto; }
+    .notes pre code { background: none; padding: 0; }
+    .notes blockquote { border-left: 3px solid var(--border); padding-left: 1rem; color: var(--muted-foreground); }
+    .muted { color: var(--muted-foreground); }
+    .artifacts { display: flex; flex-wrap: wrap; gap: 0.5rem 1rem; margin-top: 1rem; font-size: 0.875rem; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <a href="/" class="back">&larr; All downloads</a>
+    <h1>${name} changelog</h1>
+    ${entries}
+  </div>
+  <script nonce="${nonce}">
+    if (localStorage.getItem('theme') === 'dark' ||
+        (!localStorage.getItem('theme') && window.matchMedia('(prefers-color-scheme: dark)').matches)) {
+      document.body.classList.add('dark');
+    }
+  </script>
+</body>
+</html>`;
+}
+
+export default notes;
@@ -0,0 +1,489 @@
+import { Decompress as ZstdDecompress } from 'fzstd';
+import type { Env, ReleaseFile } from './types';
+import { decompressXz } from './xz';
+
+export type PackageFormat = 'deb' | 'rpm';
+
+/**
+ * The control paragraph of a .deb, as it goes into APT's Packages index
+ */
+export interface DebMetadata {
+  control: string;
+}
+
+/**
+ * A dependency as YUM metadata spells it; flags is EQ, LT, LE, GT or GE
+ * when the dependency names a version
+ */
+export interface RpmDependency {
+  name: string;
+  flags?: string;
+  epoch?: string;
+  version?: string;
+  release?: string;
+}
+
+export interface RpmFile {
+  path: string;
+  dir?: boolean;
+}
+
+/**
+ * The RPM header fields YUM's primary, filelists and other metadata need.
+ * The header range is the byte range of the main header in the file.
+ */
+export interface RpmMetadata {
+  epoch: string;
+  release: string;
+  summary: string;
+  description: string;
+  packager: string;
+  url: string;
+  license: string;
+  vendor: string;
+  group: string;
+  buildHost: string;
+  sourceRpm: string;
+  buildTime: number;
+  installedSize: number;
+  archiveSize: number;
+  headerStart: number;
+  headerEnd: number;
+  provides: RpmDependency[];
+  requires: RpmDependency[];
+  conflicts: RpmDependency[];
+  obsoletes: RpmDependency[];
+  files: RpmFile[];
+}
+
+interface PackageInfo {
+  name: string;
+  version: string;
+  arch: string;
+}
+
+/**
+ * Package metadata of one artifact. name, version and arch come from the
+ * package itself, not from the release key.
+ */
+export type PackageRecord = PackageInfo & { key: string } & (
+  | { format: 'deb'; metadata: DebMetadata }
+  | { format: 'rpm'; metadata: RpmMetadata }
+);
+
+type ParsedPackage = PackageInfo & ({ format: 'deb'; metadata: DebMetadata } | { format: 'rpm'; metadata: RpmMetadata });
+
+interface PackageRow {
+  key: string;
+  format: PackageFormat;
+  name: string;
+  version: string;
+  arch: string;
+  metadata: string;
+}
+
+class PackageError extends Error {}
+
+// The first read covers the headers of almost every package; larger ones are read as needed
+const HEAD_SIZE = 64 * 1024;
+const MAX_CONTROL_SIZE = 4 * 1024 * 1024;
+const MAX_UNPACKED_CONTROL_SIZE = 4 * MAX_CONTROL_SIZE;
+const MAX_RPM_HEADER_SIZE = 32 * 1024 * 1024;
+// D1 rows are limited in size; packages with huge file lists keep only the primary files
+const MAX_METADATA_LENGTH = 1_000_000;
+
+const RPM_LEAD_SIZE = 96;
+const RPM_MAGIC = [0xed, 0xab, 0xee, 0xdb];
+const RPM_HEADER_MAGIC = [0x8e, 0xad, 0xe8, 0x01];
+
+const RPMTAG = {
+  NAME: 1000,
+  VERSION: 1001,
+  RELEASE: 1002,
+  EPOCH: 1003,
+  SUMMARY: 1004,
+  DESCRIPTION: 1005,
+  BUILDTIME: 1006,
+  BUILDHOST: 1007,
+  SIZE: 1009,
+  VENDOR: 1011,
+  LICENSE: 1014,
+  PACKAGER: 1015,
+  GROUP: 1016,
+  URL: 1020,
+  ARCH: 1022,
+  FILEMODES: 1030,
+  SOURCERPM: 1044,
+  ARCHIVESIZE: 1046,
+  PROVIDENAME: 1047,
+  REQUIREFLAGS: 1048,
+  REQUIRENAME: 1049,
+  REQUIREVERSION: 1050,
+  CONFLICTFLAGS: 1053,
+  CONFLICTNAME: 1054,
+  CONFLICTVERSION: 1055,
+  OBSOLETENAME: 1090,
+  PROVIDEFLAGS: 1112,
+  PROVIDEVERSION: 1113,
+  OBSOLETEFLAGS: 1114,
+  OBSOLETEVERSION: 1115,
+  DIRINDEXES: 1116,
+  BASENAMES: 1117,
+  DIRNAMES: 1118,
+  LONGSIZE: 5009,
+} as const;
+
+// RPMSENSE_LESS, _GREATER and _EQUAL combinations
+const RPM_SENSE_FLAGS: Record<number, string> = { 2: 'LT', 4: 'GT', 8: 'EQ', 10: 'LE', 12: 'GE' };
+
+/**
+ * The package format of a Linux artifact, or null when it isn't a .deb or binary .rpm
+ */
+export function getPackageFormat(release: ReleaseFile): PackageFormat | null {
+  const { platform, filename } = release.metadata;
+  if (platform !== 'linux') return null;
+  if (filename.endsWith('.deb')) return 'deb';
+  if (filename.endsWith('.rpm') && !filename.endsWith('.src.rpm')) return 'rpm';
+  return null;
+}
+
+/**
+ * Read the control metadata of a .deb or .rpm artifact and store it for the
+ * package repositories. The artifact is already stored, so a failure is
+ * logged rather than failing the upload. Returns whether metadata was stored.
+ */
+export async function indexPackage(env: Env, release: ReleaseFile): Promise<boolean> {
+  const format = getPackageFormat(release);
+  if (!format) return false;
+
+  try {
+    const parsed = format === 'deb' ? await readDeb(env, release) : await readRpm(env, release);
+    await env.DB.prepare(
+      `INSERT OR REPLACE INTO packages (key, format, name, version, arch, metadata, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    ).bind(
+      release.key,
+      parsed.format,
+      parsed.name,
+      parsed.version,
+      parsed.arch,
+      JSON.stringify(parsed.metadata),
+      new Date().toISOString(),
+    ).run();
+    return true;
+  } catch (error) {
+    console.error(`Error reading package metadata of ${release.key}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Read the metadata of every package among the releases that has none yet,
+ * e.g. ones uploaded before the repositories existed. Returns how many were read.
+ */
+export async function indexMissingPackages(env: Env, releases: ReleaseFile[]): Promise<number> {
+  const { results } = await env.DB.prepare('SELECT key FROM packages').all<{ key: string }>();
+  const known = new Set(results.map((row) => row.key));
+
+  let indexed = 0;
+  for (const release of releases) {
+    if (!known.has(release.key) && getPackageFormat(release) && await indexPackage(env, release)) {
+      indexed++;
+    }
+  }
+  return indexed;
+}
+
+/**
+ * Stored package metadata by release key
+ */
+export async function listPackages(env: Env): Promise<Map<string, PackageRecord>> {
+  const { results } = await env.DB.prepare('SELECT * FROM packages').all<PackageRow>();
+  return new Map(results.map((row) => [row.key, {
+    key: row.key,
+    format: row.format,
+    name: row.name,
+    version: row.version,
+    arch: row.arch,
+    metadata: JSON.parse(row.metadata),
+  } as PackageRecord]));
+}
+
+/**
+ * Files YUM lists in primary.xml rather than only in filelists.xml, as createrepo does
+ */
+export function isPrimaryFile(path: string): boolean {
+  return path.startsWith('/etc/') || path.includes('bin/') || path === '/usr/lib/sendmail';
+}
+
+async function readRange(env: Env, release: ReleaseFile, offset: number, length: number): Promise<Uint8Array> {
+  if (offset + length > release.size) throw new PackageError('Package is truncated');
+  const object = await env.RELEASES.get(release.key, { range: { offset, length } });
+  if (!object) throw new PackageError('Package not found in the bucket');
+  return new Uint8Array(await object.arrayBuffer());
+}
+
+/**
+ * A .deb is an ar archive of debian-binary, control.tar[.gz|.xz|.zst] and
+ * data.tar.*. Only the control archive is read.
+ */
+async function readDeb(env: Env, release: ReleaseFile): Promise<ParsedPackage> {
+  const head = await readRange(env, release, 0, Math.min(HEAD_SIZE, release.size));
+  if (ascii(head, 0, 8) !== '!<arch>\n') throw new PackageError('Not a Debian package');
+
+  let offset = 8;
+  while (offset + 60 <= release.size) {
+    const header = offset + 60 <= head.length ? head.subarray(offset, offset + 60) : await readRange(env, release, offset, 60);
+    // GNU ar ends member names with a slash
+    const name = ascii(header, 0, 16).trim().replace(/\/$/, '');
+    const size = Number(ascii(header, 48, 10).trim());
+    if (!Number.isInteger(size) || size < 0) throw new PackageError('Invalid ar member header');
+
+    if (name.startsWith('control.tar')) {
+      if (size > MAX_CONTROL_SIZE) throw new PackageError('control.tar is too large');
+      const start = offset + 60;
+      const data = start + size <= head.length ? head.subarray(start, start + size) : await readRange(env, release, start, size);
+      const control = findTarEntry(await decompressControl(name, data), 'control');
+      if (!control) throw new PackageError('control.tar has no control file');
+      return parseControl(new TextDecoder().decode(control));
+    }
+
+    // Members are padded to an even offset
+    offset += 60 + size + (size % 2);
+  }
+
+  throw new PackageError('Debian package has no control.tar');
+}
+
+async function decompressControl(name: string, data: Uint8Array): Promise<Uint8Array> {
+  switch (name) {
+    case 'control.tar':
+      return data;
+    case 'control.tar.gz': {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    case 'control.tar.xz':
+      return decompressXz(data, MAX_UNPACKED_CONTROL_SIZE);
+    // dpkg-deb's default on Ubuntu since 21.10
+    case 'control.tar.zst':
+      return decompressZstd(data, MAX_UNPACKED_CONTROL_SIZE);
+    default:
+      throw new PackageError(`Unsupported control archive: ${name}`);
+  }
+}
+
+/**
+ * Decompress a zstd stream chunk by chunk, so a frame that unpacks to more
+ * than maxSize fails instead of being allocated in full
+ */
+async function decompressZstd(data: Uint8Array, maxSize: number): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const decompressor = new ZstdDecompress((chunk) => {
+    size += chunk.length;
+    if (size > maxSize) throw new PackageError('control.tar is too large');
+    chunks.push(chunk);
+  });
+  decompressor.push(data, true);
+  return new Uint8Array(await new Blob(chunks).arrayBuffer());
+}
+
+function findTarEntry(tar: Uint8Array, name: string): Uint8Array | null {
+  let offset = 0;
+  while (offset + 512 <= tar.length && tar[offset] !== 0) {
+    const header = tar.subarray(offset, offset + 512);
+    const size = parseInt(cString(header, 124, 12).trim() || '0', 8);
+    // POSIX ustar headers may carry a path prefix; GNU headers use those bytes for other fields
+    const prefix = ascii(header, 257, 6) === 'ustar\0' ? cString(header, 345, 155) : '';
+    const path = (prefix ? `${prefix}/` : '') + cString(header, 0, 100);
+    const type = header[156];
+
+    // Regular files have type '0', or NUL in old archives
+    if ((type === 0x30 || type === 0) && path.replace(/^\.\//, '') === name) {
+      return tar.subarray(offset + 512, offset + 512 + size);
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return null;
+}
+
+function parseControl(text: string): ParsedPackage {
+  const control = text.replace(/\r\n/g, '\n').trim().split(/\n[ \t]*\n/)[0];
+  const fields = new Map<string, string>();
+  for (const line of control.split('\n')) {
+    const match = /^([^\s:#][^:]*):[ \t]*(.*)$/.exec(line);
+    if (match) fields.set(match[1].toLowerCase(), match[2].trim());
+  }
+
+  const name = fields.get('package');
+  const version = fields.get('version');
+  const arch = fields.get('architecture');
+  if (!name || !version || !arch) {
+    throw new PackageError('control file lacks Package, Version or Architecture');
+  }
+  return { format: 'deb', name, version, arch, metadata: { control } };
+}
+
+/**
+ * An RPM is a 96-byte lead, a signature header padded to 8 bytes, the main
+ * header and the compressed payload. Only the headers are read.
+ */
+async function readRpm(env: Env, release: ReleaseFile): Promise<ParsedPackage> {
+  const head = await readRange(env, release, 0, Math.min(HEAD_SIZE, release.size));
+  if (RPM_MAGIC.some((byte, i) => head[i] !== byte)) throw new PackageError('Not an RPM package');
+
+  const readHeader = async (offset: number): Promise<Uint8Array> => {
+    const intro = offset + 16 <= head.length ? head.subarray(offset, offset + 16) : await readRange(env, release, offset, 16);
+    if (RPM_HEADER_MAGIC.some((byte, i) => intro[i] !== byte)) throw new PackageError('Invalid RPM header');
+    const view = new DataView(intro.buffer, intro.byteOffset, 16);
+    const length = 16 + view.getUint32(8) * 16 + view.getUint32(12);
+    if (length > MAX_RPM_HEADER_SIZE) throw new PackageError('RPM header is too large');
+    return offset + length <= head.length ? head.subarray(offset, offset + length) : readRange(env, release, offset, length);
+  };
+
+  const signature = await readHeader(RPM_LEAD_SIZE);
+  const headerStart = RPM_LEAD_SIZE + Math.ceil(signature.length / 8) * 8;
+  const bytes = await readHeader(headerStart);
+  const header = new RpmHeader(bytes);
+
+  const name = header.string(RPMTAG.NAME);
+  const version = header.string(RPMTAG.VERSION);
+  const arch = header.string(RPMTAG.ARCH);
+  if (!name || !version || !arch) throw new PackageError('RPM header lacks a name, version or arch');
+
+  const dirNames = header.strings(RPMTAG.DIRNAMES);
+  const dirIndexes = header.numbers(RPMTAG.DIRINDEXES);
+  const modes = header.numbers(RPMTAG.FILEMODES);
+  const files: RpmFile[] = header.strings(RPMTAG.BASENAMES).map((baseName, i) => {
+    const file: RpmFile = { path: `${dirNames[dirIndexes[i]] ?? ''}${baseName}` };
+    if (((modes[i] ?? 0) & 0xf000) === 0x4000) file.dir = true;
+    return file;
+  });
+
+  const metadata: RpmMetadata = {
+    epoch: String(header.number(RPMTAG.EPOCH) ?? 0),
+    release: header.string(RPMTAG.RELEASE) ?? '',
+    summary: header.string(RPMTAG.SUMMARY) ?? '',
+    description: header.string(RPMTAG.DESCRIPTION) ?? '',
+    packager: header.string(RPMTAG.PACKAGER) ?? '',
+    url: header.string(RPMTAG.URL) ?? '',
+    license: header.string(RPMTAG.LICENSE) ?? '',
+    vendor: header.string(RPMTAG.VENDOR) ?? '',
+    group: header.string(RPMTAG.GROUP) ?? '',
+    buildHost: header.string(RPMTAG.BUILDHOST) ?? '',
+    sourceRpm: header.string(RPMTAG.SOURCERPM) ?? '',
+    buildTime: header.number(RPMTAG.BUILDTIME) ?? 0,
+    installedSize: header.number(RPMTAG.LONGSIZE) ?? header.number(RPMTAG.SIZE) ?? 0,
+    archiveSize: header.number(RPMTAG.ARCHIVESIZE) ?? 0,
+    headerStart,
+    headerEnd: headerStart + bytes.length,
+    provides: header.dependencies(RPMTAG.PROVIDENAME, RPMTAG.PROVIDEFLAGS, RPMTAG.PROVIDEVERSION),
+    requires: header.dependencies(RPMTAG.REQUIRENAME, RPMTAG.REQUIREFLAGS, RPMTAG.REQUIREVERSION)
+      .filter((dependency) => !dependency.name.startsWith('rpmlib(')),
+    conflicts: header.dependencies(RPMTAG.CONFLICTNAME, RPMTAG.CONFLICTFLAGS, RPMTAG.CONFLICTVERSION),
+    obsoletes: header.dependencies(RPMTAG.OBSOLETENAME, RPMTAG.OBSOLETEFLAGS, RPMTAG.OBSOLETEVERSION),
+    files,
+  };
+  if (JSON.stringify(metadata).length > MAX_METADATA_LENGTH) {
+    metadata.files = files.filter((file) => isPrimaryFile(file.path));
+  }
+
+  return { format: 'rpm', name, version, arch, metadata };
+}
+
+/**
+ * Typed access to the index entries of an RPM header
+ */
+class RpmHeader {
+  private readonly view: DataView;
+  private readonly entries = new Map<number, { type: number; offset: number; count: number }>();
+  private readonly store: number;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const count = this.view.getUint32(8);
+    this.store = 16 + count * 16;
+    for (let i = 0; i < count; i++) {
+      const entry = 16 + i * 16;
+      this.entries.set(this.view.getUint32(entry), {
+        type: this.view.getUint32(entry + 4),
+        offset: this.view.getUint32(entry + 8),
+        count: this.view.getUint32(entry + 12),
+      });
+    }
+  }
+
+  string(tag: number): string | undefined {
+    return this.strings(tag)[0];
+  }
+
+  /**
+   * STRING, STRING_ARRAY and I18NSTRING values (the first translation is the untranslated one)
+   */
+  strings(tag: number): string[] {
+    const entry = this.entries.get(tag);
+    if (!entry || ![6, 8, 9].includes(entry.type)) return [];
+
+    const values: string[] = [];
+    let offset = this.store + entry.offset;
+    for (let i = 0; i < (entry.type === 6 ? 1 : entry.count); i++) {
+      const end = this.bytes.indexOf(0, offset);
+      if (end === -1) break;
+      values.push(new TextDecoder().decode(this.bytes.subarray(offset, end)));
+      offset = end + 1;
+    }
+    return values;
+  }
+
+  number(tag: number): number | undefined {
+    return this.numbers(tag)[0];
+  }
+
+  /**
+   * INT8, INT16, INT32 and INT64 values, read unsigned
+   */
+  numbers(tag: number): number[] {
+    const entry = this.entries.get(tag);
+    const width = entry && ({ 2: 1, 3: 2, 4: 4, 5: 8 } as Record<number, number>)[entry.type];
+    if (!entry || !width) return [];
+
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const offset = this.store + entry.offset + i * width;
+      values.push(width === 1 ? this.view.getUint8(offset)
+        : width === 2 ? this.view.getUint16(offset)
+        : width === 4 ? this.view.getUint32(offset)
+        : Number(this.view.getBigUint64(offset)));
+    }
+    return values;
+  }
+
+  dependencies(nameTag: number, flagsTag: number, versionTag: number): RpmDependency[] {
+    const flags = this.numbers(flagsTag);
+    const versions = this.strings(versionTag);
+    return this.strings(nameTag).map((name, i) => {
+      const dependency: RpmDependency = { name };
+      const sense = RPM_SENSE_FLAGS[(flags[i] ?? 0) & 0x0e];
+      // epoch:version-release
+      const match = versions[i] ? /^(?:(\d+):)?([^-]*)(?:-(.*))?$/.exec(versions[i]) : null;
+      if (sense && match) {
+        dependency.flags = sense;
+        dependency.epoch = match[1] ?? '0';
+        dependency.version = match[2];
+        if (match[3]) dependency.release = match[3];
+      }
+      return dependency;
+    });
+  }
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function cString(bytes: Uint8Array, offset: number, length: number): string {
+  const field = bytes.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
@@ -0,0 +1,1355 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { getHiddenProducts } from './access';
+import { getDownloadTotals } from './analytics';
+import type { DownloadTotals } from './analytics';
+import { setClientHintHeaders } from './latest';
+import { escapeHtml, renderMarkdown, summarizeMarkdown } from './markdown';
+import { getReleaseNotes } from './notes';
+import { detectClientPlatform, findRecommendedRelease } from './platform';
+import type { RecommendedRelease } from './platform';
+import { listProducts } from './products';
+import type { Product } from './products';
+import { listReleases } from './release-index';
+import { formatFileSize, groupByVersion } from './releases';
+import { RELEASE_CHANNELS } from './types';
+import type { AppEnv, ReleaseFile, VersionGroup } from './types';
+
+const page = new Hono<AppEnv>();
+
+/**
+ * Filter state of the page. It round-trips through the query string, so a
+ * filtered view can be shared as a link.
+ */
+interface PageFilters {
+  product: string;
+  platform: string;
+  channel: string;
+  search: string;
+}
+
+interface PageView {
+  title: string;
+  description: string;
+  heading: string;
+  subheading: string;
+  /** Product and version of /products/... pages */
+  product?: string;
+  version?: string;
+  /** Rendered notes, shown expanded on a version page */
+  notesHtml?: string;
+  releases: ReleaseFile[];
+  /** Every visible product with releases, in catalog order */
+  products: Product[];
+  filters: PageFilters;
+  downloads: number;
+  downloadCounts: Record<string, number>;
+  recommended: RecommendedRelease | null;
+  feed: string;
+  api: string;
+}
+
+const PLATFORM_NAMES: Record<string, string> = {
+  windows: 'Windows',
+  macos: 'macOS',
+  linux: 'Linux',
+  android: 'Android',
+  ios: 'iOS',
+};
+
+const ARCH_NAMES: Record<string, string> = {
+  x64: '64-bit',
+  x86: '32-bit',
+  arm64: 'ARM64',
+  armv7: 'ARMv7',
+  universal: 'Universal',
+};
+
+// Page descriptions are cut to what search results and link previews show
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const ICONS = {
+  download: '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg>',
+  windows: '<svg viewBox="0 0 24 24" fill="currentColor"><path d="M0 3.449L9.75 2.1v9.451H0m10.949-9.602L24 0v11.4H10.949M0 12.6h9.75v9.451L0 20.699M10.949 12.6H24V24l-12.9-1.801"/></svg>',
+  apple: '<svg viewBox="0 0 24 24" fill="currentColor"><path d="M18.71 19.5c-.83 1.24-1.71 2.45-3.05 2.47-1.34.03-1.77-.79-3.29-.79-1.53 0-2 .77-3.27.82-1.31.05-2.3-1.32-3.14-2.53C4.25 17 2.94 12.45 4.7 9.39c.87-1.52 2.43-2.48 4.12-2.51 1.28-.02 2.5.87 3.29.87.78 0 2.26-1.07 3.81-.91.65.03 2.47.26 3.64 1.98-.09.06-2.17 1.28-2.15 3.81.03 3.02 2.65 4.03 2.68 4.04-.03.07-.42 1.44-1.38 2.83M13 3.5c.73-.83 1.94-1.46 2.94-1.5.13 1.17-.34 2.35-1.04 3.19-.69.85-1.83 1.51-2.95 1.42-.15-1.15.41-2.35 1.05-3.11z"/></svg>',
+  linux: '<svg viewBox="0 0 24 24" fill="currentColor"><path d="M12.504 0c-.155 0-.311.002-.465.006-.154.003-.308.01-.463.02a7.738 7.738 0 00-.473.04 6.81 6.81 0 00-.487.07c-.166.026-.33.06-.497.102a5.85 5.85 0 00-.519.147c-.176.054-.35.119-.524.194a4.93 4.93 0 00-.538.257c-.18.094-.355.2-.527.318-.172.119-.34.25-.502.396-.162.145-.318.304-.466.478a5.498 5.498 0 00-.422.56c-.137.195-.266.404-.385.626a6.344 6.344 0 00-.341.72c-.11.253-.211.517-.302.793-.09.276-.17.562-.24.858-.07.296-.128.6-.176.912-.048.312-.084.63-.108.954-.024.324-.036.652-.036.984 0 .333.012.662.036.986.024.324.06.642.108.954.048.312.107.616.176.912.07.296.15.582.24.858.091.276.192.54.302.793.11.252.222.493.341.72.12.222.248.43.385.626.137.195.277.381.422.56.148.174.304.333.466.478.162.146.33.277.502.396.172.118.347.224.527.318.18.093.356.177.538.257.174.075.348.14.524.194.167.052.331.086.497.102.166.034.327.06.487.07.16.01.314.017.463.02.154.004.31.006.465.006.155 0 .311-.002.465-.006.155-.003.309-.01.463-.02.16-.01.321-.036.487-.07.166-.016.33-.05.497-.102.176-.054.35-.119.524-.194.182-.08.358-.164.538-.257.18-.094.355-.2.527-.318.172-.119.34-.25.502-.396.162-.145.318-.304.466-.478.145-.179.285-.365.422-.56.137-.196.265-.404.385-.626.119-.227.231-.468.341-.72.11-.253.211-.517.302-.793.09-.276.17-.562.24-.858.07-.296.128-.6.176-.912.048-.312.084-.63.108-.954.024-.324.036-.653.036-.986 0-.332-.012-.66-.036-.984-.024-.324-.06-.642-.108-.954a7.755 7.755 0 00-.176-.912 6.344 6.344 0 00-.24-.858 5.85 5.85 0 00-.302-.793 5.498 5.498 0 00-.341-.72 4.93 4.93 0 00-.385-.626 4.458 4.458 0 00-.422-.56 3.976 3.976 0 00-.466-.478 3.616 3.616 0 00-.502-.396 3.38 3.38 0 00-.527-.318 3.2 3.2 0 00-.538-.257 3.126 3.126 0 00-.524-.194 3.202 3.202 0 00-.497-.102 3.62 3.62 0 00-.487-.07 4.468 4.468 0 00-.463-.02 7.738 7.738 0 00-.465-.006zM8.072 15.933c.153.043.31.078.467.106.158.028.316.049.474.063.158.014.315.02.473.02.157 0 .315-.006.473-.02.158-.014.316-.035.474-.063.157-.028.314-.063.467-.106.153-.043.302-.095.447-.154.145-.059.285-.127.42-.202.135-.075.264-.16.387-.251.123-.091.24-.192.35-.3.11-.11.212-.226.305-.35.094-.123.178-.253.254-.388.075-.135.142-.275.2-.42.06-.145.11-.294.153-.447.043-.153.078-.31.106-.467.028-.158.049-.316.063-.474.014-.158.02-.315.02-.473 0-.157-.006-.315-.02-.473a3.976 3.976 0 00-.063-.474 3.2 3.2 0 00-.106-.467 2.894 2.894 0 00-.154-.447 2.613 2.613 0 00-.2-.42 2.358 2.358 0 00-.253-.387 2.134 2.134 0 00-.306-.35 1.935 1.935 0 00-.35-.306 1.763 1.763 0 00-.386-.252 1.618 1.618 0 00-.42-.2 1.5 1.5 0 00-.448-.154 1.405 1.405 0 00-.467-.106 1.332 1.332 0 00-.474-.063c-.157 0-.315.02-.473.063-.158.028-.31.063-.467.106-.153.043-.302.095-.447.154-.145.059-.285.127-.42.2-.135.076-.264.161-.387.253-.123.091-.24.192-.35.305-.11.11-.212.227-.305.35-.094.124-.178.253-.254.388-.075.135-.142.275-.2.42-.06.145-.11.294-.153.447-.043.153-.078.31-.106.467-.028.158-.049.316-.063.474-.014.158-.02.316-.02.473 0 .158.006.315.02.473.014.158.035.316.063.474.028.157.063.314.106.467.043.153.094.302.154.447.058.145.125.285.2.42.075.135.159.265.253.388.093.123.195.24.305.35.11.108.227.209.35.3.123.091.252.176.387.25.135.076.275.144.42.203.145.059.294.111.447.154z"/></svg>',
+  package: '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M16.5 9.4l-9-5.19M21 16V8a2 2 0 00-1-1.73l-7-4a2 2 0 00-2 0l-7 4A2 2 0 003 8v8a2 2 0 001 1.73l7 4a2 2 0 002 0l7-4A2 2 0 0021 16z"/><polyline points="3.27 6.96 12 12.01 20.73 6.96"/><line x1="12" y1="22.08" x2="12" y2="12"/></svg>',
+  box: '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21 16V8a2 2 0 00-1-1.73l-7-4a2 2 0 00-2 0l-7 4A2 2 0 003 8v8a2 2 0 001 1.73l7 4a2 2 0 002 0l7-4A2 2 0 0021 16z"/></svg>'
+};
+
+/**
+ * GET / - Download page listing every release the caller can see
+ */
+page.get('/', async (c) => {
+  try {
+    const filters = getFilters(c);
+    const excludeProducts = await getHiddenProducts(c);
+    const [releases, downloads, catalog] = await Promise.all([
+      listReleases(c.env, { excludeProducts }),
+      getDownloadTotals(c.env, excludeProducts),
+      listProducts(c.env, excludeProducts),
+    ]);
+    const products = presentProducts(catalog, releases);
+    const featured = filters.product || mostDownloaded(products, downloads);
+
+    return renderPage(c, {
+      title: 'Cogix Downloads',
+      description: `Download the latest Cogix releases for ${describePlatforms(releases)}.`,
+      heading: 'Downloads',
+      subheading: 'Get the latest Cogix releases for your platform',
+      releases,
+      products,
+      filters,
+      downloads: downloads.total,
+      downloadCounts: downloads.artifacts,
+      recommended: recommend(c, releases.filter((release) => release.metadata.product === featured)),
+      feed: '/feed.xml',
+      api: '/api/releases',
+    });
+  } catch (error) {
+    console.error('Error rendering download page:', error);
+    return c.json({ success: false, error: 'Failed to render download page' }, 500);
+  }
+});
+
+/**
+ * GET /products/:product - Download page of one product
+ */
+page.get('/products/:product', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const excludeProducts = await getHiddenProducts(c);
+    const [releases, downloads, all, catalog] = await Promise.all([
+      listReleases(c.env, { product, excludeProducts }),
+      getDownloadTotals(c.env, excludeProducts),
+      listReleases(c.env, { excludeProducts }),
+      listProducts(c.env, excludeProducts),
+    ]);
+    if (releases.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product}` }, 404);
+    }
+
+    const recommended = recommend(c, releases);
+    const latest = recommended?.version ?? releases[0].metadata.version;
+    const products = presentProducts(catalog, all);
+    const { displayName, description } = findProduct(products, product);
+
+    return renderPage(c, {
+      title: `${displayName} - Cogix Downloads`,
+      description: description ?? `Download ${displayName} ${latest} for ${describePlatforms(releases)}.`,
+      heading: displayName,
+      subheading: `Latest version ${latest}`,
+      product,
+      releases,
+      products,
+      filters: { ...getFilters(c), product },
+      downloads: downloads.products[product] ?? 0,
+      downloadCounts: downloads.artifacts,
+      recommended,
+      feed: `/feed/${encodeURIComponent(product)}.xml`,
+      api: `/api/releases/${encodeURIComponent(product)}`,
+    });
+  } catch (error) {
+    console.error('Error rendering product page:', error);
+    return c.json({ success: false, error: 'Failed to render product page' }, 500);
+  }
+});
+
+/**
+ * GET /products/:product/:version - Download page of one version, with its release notes
+ */
+page.get('/products/:product/:version', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+    const excludeProducts = await getHiddenProducts(c);
+    if (excludeProducts.includes(product)) {
+      return c.json({ success: false, error: `No releases found for ${product} ${version}` }, 404);
+    }
+
+    const [releases, releaseNotes, downloads, all, catalog] = await Promise.all([
+      listReleases(c.env, { product, version }),
+      getReleaseNotes(c.env, product, version),
+      getDownloadTotals(c.env, excludeProducts),
+      listReleases(c.env, { excludeProducts }),
+      listProducts(c.env, excludeProducts),
+    ]);
+    if (releases.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product} ${version}` }, 404);
+    }
+
+    const products = presentProducts(catalog, all);
+    const { displayName } = findProduct(products, product);
+
+    const channel = releases[0].metadata.channel;
+    const releaseDate = releaseNotes?.releaseDate ?? releases.map((release) => release.metadata.uploadDate).sort()[0];
+    const summary = releaseNotes ? summarizeMarkdown(releaseNotes.notes, MAX_DESCRIPTION_LENGTH) : '';
+
+    return renderPage(c, {
+      title: `${displayName} ${version} - Cogix Downloads`,
+      description: summary || releases.find((release) => release.metadata.description)?.metadata.description
+        || `Download ${displayName} ${version} for ${describePlatforms(releases)}.`,
+      heading: `${displayName} v${version}`,
+      subheading: [
+        `Released ${formatDate(releaseDate)}`,
+        channel !== 'stable' ? `${channel} channel` : undefined,
+      ].filter(Boolean).join(' · '),
+      product,
+      version,
+      notesHtml: releaseNotes ? renderMarkdown(releaseNotes.notes) : undefined,
+      releases,
+      products,
+      filters: { ...getFilters(c), product },
+      downloads: releases.reduce((sum, release) => sum + (downloads.artifacts[release.key] ?? 0), 0),
+      downloadCounts: downloads.artifacts,
+      // Any channel: the visitor asked for this version
+      recommended: recommend(c, releases, true),
+      feed: `/feed/${encodeURIComponent(product)}.xml`,
+      api: `/api/releases/${encodeURIComponent(product)}/${encodeURIComponent(version)}`,
+    });
+  } catch (error) {
+    console.error('Error rendering version page:', error);
+    return c.json({ success: false, error: 'Failed to render version page' }, 500);
+  }
+});
+
+function getFilters(c: Context<AppEnv>): PageFilters {
+  return {
+    product: c.req.query('product') ?? '',
+    platform: c.req.query('platform') ?? '',
+    channel: c.req.query('channel') ?? '',
+    search: c.req.query('search') ?? '',
+  };
+}
+
+function matchesFilters(view: PageView, release: ReleaseFile): boolean {
+  const { product, platform, channel } = release.metadata;
+  const { filters } = view;
+  const search = filters.search.toLowerCase();
+  return (!filters.product || product === filters.product)
+    && (!filters.platform || platform === filters.platform)
+    && (!filters.channel || channel === filters.channel)
+    && (!search || searchText(view, release).includes(search));
+}
+
+/**
+ * What the search box matches against; the page script reads it from data-search
+ */
+function searchText(view: PageView, release: ReleaseFile): string {
+  const { product, version, filename } = release.metadata;
+  return `${filename} ${version} ${product} ${findProduct(view.products, product).displayName}`.toLowerCase();
+}
+
+/**
+ * The latest build of these releases for the visitor's platform. The page
+ * varies with the client hints, as /get does.
+ */
+function recommend(c: Context<AppEnv>, releases: ReleaseFile[], includePrerelease = false): RecommendedRelease | null {
+  setClientHintHeaders(c);
+  const client = detectClientPlatform(c.req.raw.headers, { os: c.req.query('os'), arch: c.req.query('arch') });
+  return findRecommendedRelease(releases, client, { includePrerelease });
+}
+
+/**
+ * The catalog products that have releases, in catalog order. Releases of a
+ * product missing from the catalog (uploaded straight to R2) are still shown,
+ * under the product's name, after the catalog's products.
+ */
+function presentProducts(catalog: Product[], releases: ReleaseFile[]): Product[] {
+  const names = new Set(releases.map((release) => release.metadata.product));
+  const registered = catalog.filter((product) => names.has(product.name));
+  const unregistered = [...names]
+    .filter((name) => !catalog.some((product) => product.name === name))
+    .sort()
+    .map(unlistedProduct);
+  return [...registered, ...unregistered];
+}
+
+function findProduct(products: Product[], name: string): Product {
+  return products.find((product) => product.name === name) ?? unlistedProduct(name);
+}
+
+function unlistedProduct(name: string): Product {
+  return { name, displayName: name, visibility: 'public', sortOrder: 0, platforms: [] };
+}
+
+function mostDownloaded(products: Product[], downloads: DownloadTotals): string | undefined {
+  return products.reduce<string | undefined>((best, { name }) =>
+    best === undefined || (downloads.products[name] ?? 0) > (downloads.products[best] ?? 0) ? name : best, undefined);
+}
+
+/**
+ * "Windows, macOS and Linux" for the platforms these releases are built for
+ */
+function describePlatforms(releases: ReleaseFile[]): string {
+  const names = [...new Set(releases.map((release) => PLATFORM_NAMES[release.metadata.platform] ?? release.metadata.platform))];
+  if (names.length === 0) return 'every platform';
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function renderPage(c: Context<AppEnv>, view: PageView): Response {
+  const url = new URL(c.req.url);
+  const canonical = url.origin + url.pathname;
+  const visible = view.releases.filter((release) => matchesFilters(view, release));
+  const platforms = [...new Set(view.releases.map((release) => release.metadata.platform))].sort();
+  const channels = RELEASE_CHANNELS.filter((channel) => view.releases.some((release) => release.metadata.channel === channel));
+  const title = escapeHtml(view.title);
+  const description = escapeHtml(view.description);
+  const nonce = c.get('secureHeadersNonce') ?? '';
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <meta name="description" content="${description}">
+  <link rel="canonical" href="${escapeHtml(canonical)}">
+  <meta property="og:type" content="website">
+  <meta property="og:site_name" content="Cogix Downloads">
+  <meta property="og:title" content="${title}">
+  <meta property="og:description" content="${description}">
+  <meta property="og:url" content="${escapeHtml(url.href)}">
+  <meta name="twitter:card" content="summary">
+  <meta name="twitter:title" content="${title}">
+  <meta name="twitter:description" content="${description}">
+  <link rel="alternate" type="application/atom+xml" title="${title}" href="${escapeHtml(view.feed)}">
+  <link rel="alternate" type="application/json" href="${escapeHtml(view.api)}">
+  <link rel="preconnect" href="https://fonts.googleapis.com">
+  <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
+  <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap" rel="stylesheet">
+  <style nonce="${nonce}">
+    *, *::before, *::after {
+      margin: 0;
+      padding: 0;
+      box-sizing: border-box;
+    }
+
+    :root {
+      --primary-500: #3B82F6;
+      --primary-600: #2563EB;
+      --primary-700: #1D4ED8;
+
+      --accent-400: #FB923C;
+      --accent-500: #F97316;
+      --accent-600: #EA580C;
+      --accent-700: #C2410C;
+
+      --neutral-50: #F8FAFC;
+      --neutral-100: #F1F5F9;
+      --neutral-200: #E2E8F0;
+      --neutral-300: #CBD5E1;
+      --neutral-400: #94A3B8;
+      --neutral-500: #64748B;
+      --neutral-600: #475569;
+      --neutral-700: #334155;
+      --neutral-800: #1E293B;
+      --neutral-900: #0F172A;
+      --neutral-950: #020617;
+
+      --background: #FFFFFF;
+      --foreground: var(--neutral-900);
+      --card: #FFFFFF;
+      --border: var(--neutral-200);
+      --muted: var(--neutral-100);
+      --muted-foreground: var(--neutral-500);
+
+      --radius: 0.5rem;
+      --radius-lg: 0.75rem;
+    }
+
+    .dark {
+      --background: var(--neutral-950);
+      --foreground: var(--neutral-50);
+      --card: var(--neutral-900);
+      --border: var(--neutral-800);
+      --muted: var(--neutral-800);
+      --muted-foreground: var(--neutral-400);
+    }
+
+    body {
+      font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: var(--background);
+      color: var(--foreground);
+      line-height: 1.5;
+      min-height: 100vh;
+      -webkit-font-smoothing: antialiased;
+    }
+
+    .page {
+      min-height: 100vh;
+      display: flex;
+      flex-direction: column;
+    }
+
+    .container {
+      width: 100%;
+      max-width: 1120px;
+      margin: 0 auto;
+      padding: 0 1.5rem;
+    }
+
+    /* Header */
+    .header {
+      border-bottom: 1px solid var(--border);
+      padding: 1rem 0;
+    }
+
+    .header-inner {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+    }
+
+    .logo {
+      display: flex;
+      align-items: center;
+      gap: 0.625rem;
+      text-decoration: none;
+      color: var(--foreground);
+    }
+
+    .logo-mark {
+      width: 32px;
+      height: 32px;
+      background: linear-gradient(135deg, var(--primary-600), var(--accent-500));
+      border-radius: 8px;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+    }
+
+    .logo-mark svg {
+      width: 18px;
+      height: 18px;
+      color: white;
+    }
+
+    .logo-text {
+      font-size: 1.125rem;
+      font-weight: 600;
+      letter-spacing: -0.01em;
+    }
+
+    .theme-btn {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      width: 36px;
+      height: 36px;
+      background: transparent;
+      border: 1px solid var(--border);
+      border-radius: var(--radius);
+      cursor: pointer;
+      color: var(--muted-foreground);
+      transition: all 0.15s ease;
+    }
+
+    .theme-btn:hover {
+      background: var(--muted);
+      color: var(--foreground);
+    }
+
+    .theme-btn svg {
+      width: 18px;
+      height: 18px;
+    }
+
+    /* Hero */
+    .hero {
+      padding: 3rem 0 2rem;
+      text-align: center;
+    }
+
+    .hero h1 {
+      font-size: 2rem;
+      font-weight: 700;
+      letter-spacing: -0.025em;
+      margin-bottom: 0.5rem;
+    }
+
+    .hero p {
+      color: var(--muted-foreground);
+      font-size: 1rem;
+    }
+
+    .breadcrumb {
+      display: flex;
+      justify-content: center;
+      gap: 0.5rem;
+      margin-bottom: 0.75rem;
+      font-size: 0.8125rem;
+      color: var(--muted-foreground);
+    }
+
+    .breadcrumb a {
+      color: inherit;
+      text-decoration: none;
+    }
+
+    .breadcrumb a:hover {
+      color: var(--foreground);
+    }
+
+    /* Recommended download */
+    .recommended {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.5rem;
+      margin-top: 1.5rem;
+    }
+
+    .recommended-btn {
+      display: inline-flex;
+      align-items: center;
+      gap: 0.625rem;
+      padding: 0.875rem 1.75rem;
+      background: var(--accent-500);
+      color: white;
+      font-size: 1rem;
+      font-weight: 600;
+      text-decoration: none;
+      border-radius: var(--radius-lg);
+      transition: all 0.15s ease;
+    }
+
+    .recommended-btn:hover {
+      background: var(--accent-600);
+    }
+
+    .recommended-btn svg {
+      width: 20px;
+      height: 20px;
+    }
+
+    .hero .recommended-meta {
+      font-size: 0.8125rem;
+    }
+
+    .recommended-meta a {
+      color: inherit;
+    }
+
+    /* Stats */
+    .stats {
+      display: flex;
+      justify-content: center;
+      gap: 2rem;
+      padding: 1.5rem 0;
+      margin-bottom: 1.5rem;
+      border-bottom: 1px solid var(--border);
+    }
+
+    .stat {
+      text-align: center;
+    }
+
+    .stat-value {
+      font-size: 1.5rem;
+      font-weight: 700;
+      color: var(--primary-600);
+    }
+
+    .dark .stat-value {
+      color: var(--primary-500);
+    }
+
+    .stat-label {
+      font-size: 0.75rem;
+      color: var(--muted-foreground);
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      margin-top: 0.125rem;
+    }
+
+    /* Filters */
+    .filters {
+      display: grid;
+      grid-template-columns: repeat(4, 1fr);
+      gap: 1rem;
+      margin-bottom: 2rem;
+    }
+
+    @media (max-width: 640px) {
+      .filters {
+        grid-template-columns: 1fr;
+      }
+    }
+
+    .filter-label {
+      display: block;
+      font-size: 0.75rem;
+      font-weight: 500;
+      color: var(--muted-foreground);
+      margin-bottom: 0.375rem;
+      text-transform: uppercase;
+      letter-spacing: 0.025em;
+    }
+
+    .filter-input {
+      width: 100%;
+      padding: 0.5rem 0.75rem;
+      font-size: 0.875rem;
+      font-family: inherit;
+      background: var(--card);
+      border: 1px solid var(--border);
+      border-radius: var(--radius);
+      color: var(--foreground);
+      transition: border-color 0.15s ease;
+    }
+
+    .filter-input:focus {
+      outline: none;
+      border-color: var(--primary-500);
+    }
+
+    /* Main content */
+    .main {
+      flex: 1;
+      padding-bottom: 3rem;
+    }
+
+    /* Product section */
+    .product-section {
+      margin-bottom: 2.5rem;
+    }
+
+    .product-header {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      margin-bottom: 1rem;
+      padding-bottom: 0.75rem;
+      border-bottom: 1px solid var(--border);
+    }
+
+    .product-icon {
+      width: 32px;
+      height: 32px;
+      background: var(--muted);
+      border-radius: var(--radius);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      color: var(--muted-foreground);
+    }
+
+    .product-icon svg {
+      width: 18px;
+      height: 18px;
+    }
+
+    .product-icon img {
+      width: 100%;
+      height: 100%;
+      object-fit: contain;
+      border-radius: var(--radius);
+    }
+
+    .product-name {
+      font-size: 1.125rem;
+      font-weight: 600;
+    }
+
+    .product-name a {
+      color: inherit;
+      text-decoration: none;
+    }
+
+    .product-description {
+      margin: -0.25rem 0 1rem;
+      font-size: 0.875rem;
+      color: var(--muted-foreground);
+    }
+
+    .product-count {
+      margin-left: auto;
+      font-size: 0.75rem;
+      color: var(--muted-foreground);
+      background: var(--muted);
+      padding: 0.25rem 0.5rem;
+      border-radius: 9999px;
+    }
+
+    /* Release grid */
+    .releases-grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(320px, 1fr));
+      gap: 1rem;
+    }
+
+    .changelog-link {
+      font-size: 0.75rem;
+      color: var(--muted-foreground);
+      text-decoration: none;
+    }
+
+    .changelog-link:hover {
+      color: var(--foreground);
+    }
+
+    a.version-tag {
+      text-decoration: none;
+    }
+
+    /* Version group */
+    .version-group + .version-group {
+      margin-top: 1rem;
+    }
+
+    .version-summary {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.5rem 0;
+      cursor: pointer;
+      list-style: none;
+    }
+
+    .version-summary::-webkit-details-marker {
+      display: none;
+    }
+
+    .version-summary::before {
+      content: '';
+      width: 0.5rem;
+      height: 0.5rem;
+      border-right: 2px solid var(--muted-foreground);
+      border-bottom: 2px solid var(--muted-foreground);
+      transform: rotate(-45deg);
+      transition: transform 0.15s ease;
+    }
+
+    .version-group[open] > .version-summary::before {
+      transform: rotate(45deg);
+    }
+
+    .version-name {
+      font-weight: 600;
+    }
+
+    .version-meta {
+      margin-left: auto;
+      font-size: 0.75rem;
+      color: var(--muted-foreground);
+    }
+
+    .version-group[open] > .version-summary {
+      margin-bottom: 0.5rem;
+    }
+
+    .release-notes {
+      margin-bottom: 0.75rem;
+      font-size: 0.875rem;
+    }
+
+    .release-notes summary {
+      cursor: pointer;
+      color: var(--muted-foreground);
+      font-weight: 500;
+    }
+
+    .notes-body {
+      margin-top: 0.5rem;
+      padding: 0.75rem 1rem;
+      background: var(--muted);
+      border-radius: var(--radius);
+    }
+
+    .notes-body > * + * {
+      margin-top: 0.5rem;
+    }
+
+    .notes-body ul, .notes-body ol {
+      padding-left: 1.25rem;
+    }
+
+    .notes-body a {
+      color: var(--primary-600);
+    }
+
+    .notes-body code {
+      font-size: 0.8125rem;
+    }
+
+    .notes-body pre {
+      overflow-x: auto;
+    }
+
+    /* Release card */
+    .release-card {
+      background: var(--card);
+      border: 1px solid var(--border);
+      border-radius: var(--radius-lg);
+      padding: 1.25rem;
+      transition: all 0.15s ease;
+    }
+
+    .release-card:hover {
+      border-color: var(--neutral-300);
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.05);
+    }
+
+    .dark .release-card:hover {
+      border-color: var(--neutral-700);
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.2);
+    }
+
+    .release-top {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      margin-bottom: 0.75rem;
+    }
+
+    .version-tag {
+      display: inline-flex;
+      align-items: center;
+      background: var(--primary-600);
+      color: white;
+      font-size: 0.75rem;
+      font-weight: 600;
+      padding: 0.25rem 0.5rem;
+      border-radius: 4px;
+    }
+
+    .channel-tag {
+      display: inline-flex;
+      align-items: center;
+      margin-left: 0.375rem;
+      font-size: 0.6875rem;
+      font-weight: 600;
+      text-transform: uppercase;
+      padding: 0.125rem 0.375rem;
+      border-radius: 4px;
+      background: rgba(249, 115, 22, 0.12);
+      color: var(--accent-600);
+    }
+
+    .channel-tag.nightly {
+      background: var(--muted);
+      color: var(--muted-foreground);
+    }
+
+    .platform-tag {
+      display: inline-flex;
+      align-items: center;
+      gap: 0.375rem;
+      font-size: 0.8125rem;
+      color: var(--muted-foreground);
+    }
+
+    .platform-tag svg {
+      width: 16px;
+      height: 16px;
+    }
+
+    .arch-badge {
+      font-size: 0.6875rem;
+      font-weight: 500;
+      text-transform: uppercase;
+      background: var(--muted);
+      padding: 0.125rem 0.375rem;
+      border-radius: 4px;
+      margin-left: 0.25rem;
+    }
+
+    .filename {
+      font-family: 'SF Mono', 'Fira Code', 'Consolas', monospace;
+      font-size: 0.8125rem;
+      color: var(--foreground);
+      background: var(--muted);
+      padding: 0.5rem 0.75rem;
+      border-radius: var(--radius);
+      margin-bottom: 0.75rem;
+      word-break: break-all;
+    }
+
+    .release-meta {
+      display: flex;
+      gap: 1.5rem;
+      margin-bottom: 1rem;
+    }
+
+    .meta-item {
+      display: flex;
+      flex-direction: column;
+    }
+
+    .meta-label {
+      font-size: 0.6875rem;
+      color: var(--muted-foreground);
+      text-transform: uppercase;
+      letter-spacing: 0.025em;
+    }
+
+    .meta-value {
+      font-size: 0.875rem;
+      font-weight: 600;
+      color: var(--foreground);
+    }
+
+    /* Download button - Orange */
+    .download-btn {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      gap: 0.5rem;
+      width: 100%;
+      padding: 0.625rem 1rem;
+      background: var(--accent-500);
+      color: white;
+      font-size: 0.875rem;
+      font-weight: 600;
+      font-family: inherit;
+      text-decoration: none;
+      border: none;
+      border-radius: var(--radius);
+      cursor: pointer;
+      transition: all 0.15s ease;
+    }
+
+    .download-btn:hover {
+      background: var(--accent-600);
+    }
+
+    .download-btn:active {
+      background: var(--accent-700);
+    }
+
+    .download-btn svg {
+      width: 16px;
+      height: 16px;
+    }
+
+    /* Empty state */
+    .empty-state {
+      text-align: center;
+      padding: 4rem 2rem;
+    }
+
+    .empty-icon {
+      width: 48px;
+      height: 48px;
+      margin: 0 auto 1rem;
+      color: var(--muted-foreground);
+      opacity: 0.5;
+    }
+
+    .empty-state h2 {
+      font-size: 1rem;
+      font-weight: 600;
+      margin-bottom: 0.25rem;
+    }
+
+    .empty-state p {
+      font-size: 0.875rem;
+      color: var(--muted-foreground);
+    }
+
+    /* Footer */
+    .footer {
+      border-top: 1px solid var(--border);
+      padding: 1.5rem 0;
+      text-align: center;
+      color: var(--muted-foreground);
+      font-size: 0.8125rem;
+    }
+
+    .footer a {
+      color: var(--primary-600);
+      text-decoration: none;
+    }
+
+    .footer a:hover {
+      text-decoration: underline;
+    }
+
+    .footer-divider {
+      margin: 0 0.5rem;
+      opacity: 0.5;
+    }
+
+    [hidden] {
+      display: none !important;
+    }
+  </style>
+</head>
+<body>
+  <div class="page">
+    <header class="header">
+      <div class="container header-inner">
+        <a href="/" class="logo">
+          <div class="logo-mark">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+              <circle cx="12" cy="12" r="10"/>
+              <circle cx="12" cy="12" r="4"/>
+              <line x1="12" y1="2" x2="12" y2="4"/>
+              <line x1="12" y1="20" x2="12" y2="22"/>
+              <line x1="2" y1="12" x2="4" y2="12"/>
+              <line x1="20" y1="12" x2="22" y2="12"/>
+            </svg>
+          </div>
+          <span class="logo-text">Cogix</span>
+        </a>
+        <button class="theme-btn" title="Toggle theme" id="theme-btn">
+          <svg class="icon-moon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+            <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z"/>
+          </svg>
+          <svg class="icon-sun" hidden viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+            <circle cx="12" cy="12" r="5"/><line x1="12" y1="1" x2="12" y2="3"/><line x1="12" y1="21" x2="12" y2="23"/><line x1="4.22" y1="4.22" x2="5.64" y2="5.64"/><line x1="18.36" y1="18.36" x2="19.78" y2="19.78"/><line x1="1" y1="12" x2="3" y2="12"/><line x1="21" y1="12" x2="23" y2="12"/><line x1="4.22" y1="19.78" x2="5.64" y2="18.36"/><line x1="18.36" y1="5.64" x2="19.78" y2="4.22"/>
+          </svg>
+        </button>
+      </div>
+    </header>
+
+    <section class="hero">
+      <div class="container">
+        ${renderBreadcrumb(view)}
+        <h1>${escapeHtml(view.heading)}</h1>
+        <p>${escapeHtml(view.subheading)}</p>
+        ${view.recommended ? renderRecommended(view, view.recommended) : ''}
+      </div>
+    </section>
+
+    <div class="container">
+      ${renderStats(view)}
+
+      <form class="filters" id="filters" method="get" action="/">
+        <div>
+          <label class="filter-label" for="product-filter">Product</label>
+          <select class="filter-input" id="product-filter" name="product">
+            <option value="">All Products</option>
+            ${view.products.map((product) => renderOption(product.name, product.displayName, view.filters.product)).join('')}
+          </select>
+        </div>
+        <div>
+          <label class="filter-label" for="platform-filter">Platform</label>
+          <select class="filter-input" id="platform-filter" name="platform">
+            <option value="">All Platforms</option>
+            ${platforms.map((platform) => renderOption(platform, PLATFORM_NAMES[platform] ?? capitalize(platform), view.filters.platform)).join('')}
+          </select>
+        </div>
+        <div>
+          <label class="filter-label" for="channel-filter">Channel</label>
+          <select class="filter-input" id="channel-filter" name="channel">
+            <option value="">All Channels</option>
+            ${channels.map((channel) => renderOption(channel, capitalize(channel), view.filters.channel)).join('')}
+          </select>
+        </div>
+        <div>
+          <label class="filter-label" for="search-filter">Search</label>
+          <input class="filter-input" type="search" id="search-filter" name="search" placeholder="Search releases..." value="${escapeHtml(view.filters.search)}">
+        </div>
+      </form>
+    </div>
+
+    <main class="main">
+      <div class="container">
+        <div id="releases-container">
+          ${renderReleases(view)}
+          <div class="empty-state" id="empty-state"${visible.length ? ' hidden' : ''}>
+            <div class="empty-icon">${ICONS.box}</div>
+            <h2>No releases found</h2>
+            <p>Try adjusting your filters or check back later.</p>
+          </div>
+        </div>
+      </div>
+    </main>
+
+    <footer class="footer">
+      <div class="container">
+        <span>&copy; 2026 <a href="https://cogix.app">Cogix</a></span>
+        <span class="footer-divider">|</span>
+        <span>Powered by Cloudflare</span>
+      </div>
+    </footer>
+  </div>
+
+  <script nonce="${nonce}">
+    const filterForm = document.getElementById('filters');
+    const productFilter = document.getElementById('product-filter');
+    const filterNames = ['platform', 'channel', 'search'];
+
+    function toggleTheme() {
+      document.body.classList.toggle('dark');
+      const isDark = document.body.classList.contains('dark');
+      localStorage.setItem('theme', isDark ? 'dark' : 'light');
+      updateThemeIcon(isDark);
+    }
+
+    function updateThemeIcon(isDark) {
+      document.querySelector('.icon-moon').toggleAttribute('hidden', isDark);
+      document.querySelector('.icon-sun').toggleAttribute('hidden', !isDark);
+    }
+
+    function initTheme() {
+      const saved = localStorage.getItem('theme');
+      const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+      const isDark = saved === 'dark' || (!saved && prefersDark);
+      if (isDark) document.body.classList.add('dark');
+      updateThemeIcon(isDark);
+    }
+
+    // The server renders every card and hides the ones the filters exclude;
+    // this applies the same rules as the filters change
+    function applyFilters() {
+      const product = productFilter.value;
+      const { platform, channel, search } = Object.fromEntries(new FormData(filterForm));
+      const query = search.toLowerCase();
+
+      let visible = 0;
+      document.querySelectorAll('.release-card').forEach(card => {
+        const data = card.dataset;
+        card.hidden = !((!product || data.product === product) &&
+          (!platform || data.platform === platform) &&
+          (!channel || data.channel === channel) &&
+          (!query || data.search.includes(query)));
+        if (!card.hidden) visible++;
+      });
+      document.querySelectorAll('.version-group, .product-section').forEach(group => {
+        group.hidden = !group.querySelector('.release-card:not([hidden])');
+      });
+      // Matches inside collapsed versions would otherwise go unseen
+      if (query) {
+        document.querySelectorAll('.version-group:not([hidden])').forEach(group => { group.open = true; });
+      }
+      document.getElementById('empty-state').hidden = visible > 0;
+
+      // Keep the filters in the URL so the view can be shared
+      const params = new URLSearchParams(location.search);
+      filterNames.forEach(name => {
+        const value = filterForm.elements[name].value;
+        if (value) params.set(name, value);
+        else params.delete(name);
+      });
+      const queryString = params.toString();
+      history.replaceState(null, '', location.pathname + (queryString ? '?' + queryString : '') + location.hash);
+    }
+
+    // Each product has its own page; the other filters carry over
+    function selectProduct() {
+      const params = new URLSearchParams(location.search);
+      params.delete('product');
+      const path = productFilter.value ? '/products/' + encodeURIComponent(productFilter.value) : '/';
+      const queryString = params.toString();
+      location.assign(path + (queryString ? '?' + queryString : ''));
+    }
+
+    async function loadReleaseNotes(details) {
+      const body = details.querySelector('.notes-body');
+      try {
+        const { product, version } = details.dataset;
+        const res = await fetch('/api/releases/' + encodeURIComponent(product) + '/' + encodeURIComponent(version));
+        if (!res.ok) throw new Error('Failed to load release notes');
+        const { release } = await res.json();
+        // notesHtml is rendered and escaped by the server
+        body.innerHTML = release.notesHtml || '<p>No release notes for this version.</p>';
+      } catch (err) {
+        body.textContent = 'Failed to load release notes.';
+      }
+    }
+
+    document.querySelectorAll('.release-notes[data-product]').forEach(details => {
+      details.addEventListener('toggle', () => loadReleaseNotes(details), { once: true });
+    });
+
+    // Old links point at #{product}-v{version}
+    const target = location.hash && document.getElementById(decodeURIComponent(location.hash.slice(1)));
+    if (target && target.classList.contains('version-group')) {
+      target.open = true;
+      target.querySelector('.release-notes').open = true;
+      target.scrollIntoView();
+    }
+
+    document.getElementById('theme-btn').addEventListener('click', toggleTheme);
+    filterForm.addEventListener('submit', event => event.preventDefault());
+    productFilter.addEventListener('change', selectProduct);
+    document.getElementById('platform-filter').addEventListener('change', applyFilters);
+    document.getElementById('channel-filter').addEventListener('change', applyFilters);
+    document.getElementById('search-filter').addEventListener('input', applyFilters);
+
+    initTheme();
+  </script>
+</body>
+</html>`;
+
+  return c.html(html);
+}
+
+function renderBreadcrumb(view: PageView): string {
+  if (!view.product) return '';
+  const productLink = `<a href="/products/${encodeURIComponent(view.product)}">${escapeHtml(findProduct(view.products, view.product).displayName)}</a>`;
+  return `<nav class="breadcrumb">
+          <a href="/">All downloads</a>
+          ${view.version ? `<span>/</span> ${productLink}` : ''}
+          <span>/</span> <a href="/changelog/${encodeURIComponent(view.product)}">Changelog</a>
+        </nav>`;
+}
+
+function renderRecommended(view: PageView, recommended: RecommendedRelease): string {
+  const { release, target, version } = recommended;
+  const { product, filename } = release.metadata;
+  const arch = target.platform === 'macos' && target.arch === 'arm64' ? 'Apple Silicon'
+    : target.platform === 'macos' && target.arch === 'x64' ? 'Intel'
+    : ARCH_NAMES[target.arch] ?? target.arch;
+  const fallback = target.fallback === 'rosetta' ? ' · runs under Rosetta 2'
+    : target.fallback === 'emulation' ? ' · runs under emulation' : '';
+
+  return `<div class="recommended">
+          <a href="/download/${encodeURIComponent(release.key)}" class="recommended-btn">
+            ${ICONS.download}
+            <span>Download ${escapeHtml(findProduct(view.products, product).displayName)} v${escapeHtml(version)}</span>
+          </a>
+          <p class="recommended-meta">
+            For ${escapeHtml(PLATFORM_NAMES[target.platform] ?? target.platform)} (${escapeHtml(arch)}) · ${escapeHtml(filename)} · ${formatFileSize(release.size)}${fallback}
+          </p>
+          <p class="recommended-meta"><a href="#product-${escapeHtml(product)}">Other platforms and versions</a></p>
+        </div>`;
+}
+
+function renderStats(view: PageView): string {
+  if (view.releases.length === 0) return '';
+  const totalSize = view.releases.reduce((sum, release) => sum + release.size, 0);
+
+  return `<div class="stats">
+        <div class="stat">
+          <div class="stat-value">${view.releases.length}</div>
+          <div class="stat-label">Releases</div>
+        </div>
+        <div class="stat">
+          <div class="stat-value">${new Set(view.releases.map((release) => release.metadata.product)).size}</div>
+          <div class="stat-label">Products</div>
+        </div>
+        <div class="stat">
+          <div class="stat-value">${formatFileSize(totalSize)}</div>
+          <div class="stat-label">Total Size</div>
+        </div>
+        <div class="stat">
+          <div class="stat-value">${view.downloads.toLocaleString('en-US')}</div>
+          <div class="stat-label">Downloads</div>
+        </div>
+      </div>`;
+}
+
+/**
+ * Releases grouped by product in catalog order, then by version, newest
+ * version first. The newest version of each product starts expanded; a
+ * version page expands its own.
+ */
+function renderReleases(view: PageView): string {
+  const groups = new Map(groupByVersion(view.releases, 'semver').map((group) => [group.product, group.versions]));
+  return view.products.filter((product) => groups.has(product.name)).map((product) => {
+    const versions = groups.get(product.name) as VersionGroup[];
+    const count = versions.reduce((sum, group) => sum + group.artifacts.length, 0);
+    const productHidden = !versions.some((group) => group.artifacts.some((release) => matchesFilters(view, release)));
+    const name = escapeHtml(product.name);
+    const path = encodeURIComponent(product.name);
+    const icon = product.icon ? `<img src="${escapeHtml(product.icon)}" alt="">` : ICONS.package;
+    return `
+          <div class="product-section" id="product-${name}"${productHidden ? ' hidden' : ''}>
+            <div class="product-header">
+              <div class="product-icon">${icon}</div>
+              <h2 class="product-name"><a href="/products/${path}">${escapeHtml(product.displayName)}</a></h2>
+              ${product.homepage ? `<a class="changelog-link" href="${escapeHtml(product.homepage)}">Website</a>` : ''}
+              ${product.docsUrl ? `<a class="changelog-link" href="${escapeHtml(product.docsUrl)}">Docs</a>` : ''}
+              <a class="changelog-link" href="/changelog/${path}">Changelog</a>
+              <span class="product-count">${count} release${count !== 1 ? 's' : ''}</span>
+            </div>
+            ${product.description ? `<p class="product-description">${escapeHtml(product.description)}</p>` : ''}
+            ${versions.map((group, index) => renderVersionGroup(view, product.name, group, view.version ? view.version === group.version : index === 0)).join('')}
+          </div>`;
+  }).join('');
+}
+
+function renderVersionGroup(view: PageView, product: string, group: VersionGroup, open: boolean): string {
+  const { version, channel, artifacts } = group;
+  const hidden = !artifacts.some((release) => matchesFilters(view, release));
+  const versionName = escapeHtml(version);
+  // A version page shows its own notes expanded; elsewhere they load when opened
+  const notes = view.version === version
+    ? `<details class="release-notes" open>
+                <summary>Release notes for v${versionName}</summary>
+                <div class="notes-body">${view.notesHtml ?? '<p>No release notes for this version.</p>'}</div>
+              </details>`
+    : `<details class="release-notes" data-product="${escapeHtml(product)}" data-version="${versionName}">
+                <summary>Release notes for v${versionName}</summary>
+                <div class="notes-body">Loading…</div>
+              </details>`;
+
+  return `
+            <details class="version-group" id="${escapeHtml(product)}-v${versionName}"${open ? ' open' : ''}${hidden ? ' hidden' : ''}>
+              <summary class="version-summary">
+                <span class="version-name">v${versionName}</span>
+                ${channel !== 'stable' ? `<span class="channel-tag ${channel}">${channel}</span>` : ''}
+                <span class="version-meta">${formatDate(group.uploaded.toISOString())} · ${artifacts.length} file${artifacts.length !== 1 ? 's' : ''}</span>
+              </summary>
+              ${notes}
+              <div class="releases-grid">
+                ${artifacts.map((release) => renderReleaseCard(view, release)).join('')}
+              </div>
+            </details>`;
+}
+
+function renderReleaseCard(view: PageView, release: ReleaseFile): string {
+  const { metadata, size } = release;
+  const versionPath = `/products/${encodeURIComponent(metadata.product)}/${encodeURIComponent(metadata.version)}`;
+  const platformIcon = getPlatformIcon(metadata.platform);
+
+  return `
+                <div class="release-card" data-product="${escapeHtml(metadata.product)}" data-platform="${escapeHtml(metadata.platform)}" data-channel="${metadata.channel}" data-search="${escapeHtml(searchText(view, release))}"${matchesFilters(view, release) ? '' : ' hidden'}>
+                  <div class="release-top">
+                    <div>
+                      <a href="${versionPath}" class="version-tag">v${escapeHtml(metadata.version)}</a>
+                      ${metadata.channel !== 'stable' ? `<span class="channel-tag ${metadata.channel}">${metadata.channel}</span>` : ''}
+                    </div>
+                    <div class="platform-tag">
+                      ${platformIcon}
+                      <span>${escapeHtml(metadata.platform)}</span>
+                      <span class="arch-badge">${escapeHtml(metadata.arch)}</span>
+                    </div>
+                  </div>
+                  <div class="filename">${escapeHtml(metadata.filename)}</div>
+                  <div class="release-meta">
+                    <div class="meta-item">
+                      <span class="meta-label">Size</span>
+                      <span class="meta-value">${formatFileSize(size)}</span>
+                    </div>
+                    <div class="meta-item">
+                      <span class="meta-label">Released</span>
+                      <span class="meta-value">${formatDate(metadata.uploadDate)}</span>
+                    </div>
+                    <div class="meta-item">
+                      <span class="meta-label">Downloads</span>
+                      <span class="meta-value">${(view.downloadCounts[release.key] ?? 0).toLocaleString('en-US')}</span>
+                    </div>
+                  </div>
+                  <a href="/download/${encodeURIComponent(release.key)}" class="download-btn">
+                    ${ICONS.download}
+                    <span>Download</span>
+                  </a>
+                </div>`;
+}
+
+function renderOption(value: string, label: string, selected: string): string {
+  return `<option value="${escapeHtml(value)}"${value === selected ? ' selected' : ''}>${escapeHtml(label)}</option>`;
+}
+
+function getPlatformIcon(platform: string): string {
+  const p = platform.toLowerCase();
+  if (p.includes('windows')) return ICONS.windows;
+  if (p.includes('mac') || p.includes('darwin') || p.includes('apple')) return ICONS.apple;
+  if (p.includes('linux')) return ICONS.linux;
+  return ICONS.package;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export default page;
@@ -0,0 +1,230 @@
+import type { Env } from './types';
+
+/**
+ * OpenPGP (RFC 4880) signatures for the APT and YUM repositories, made with
+ * the RSA key in PACKAGE_SIGNING_KEY (PKCS#8 PEM). The OpenPGP public key is
+ * derived from the same key, with a fixed creation time and user ID so its
+ * fingerprint never changes.
+ */
+
+const KEY_CREATED = Date.UTC(2025, 0, 1) / 1000;
+const USER_ID = 'Cogix Releases <releases@cogix.app>';
+
+const PACKET_SIGNATURE = 2;
+const PACKET_PUBLIC_KEY = 6;
+const PACKET_USER_ID = 13;
+
+const SIGNATURE_BINARY = 0x00;
+const SIGNATURE_TEXT = 0x01;
+const SIGNATURE_POSITIVE_CERTIFICATION = 0x13;
+
+const SUBPACKET_CREATION_TIME = 2;
+const SUBPACKET_ISSUER = 16;
+const SUBPACKET_PREFERRED_HASH = 21;
+const SUBPACKET_KEY_FLAGS = 27;
+const SUBPACKET_ISSUER_FINGERPRINT = 33;
+
+const ALGORITHM_RSA = 1;
+const HASH_SHA256 = 8;
+// Key flags: certify other keys, sign data
+const KEY_FLAGS = 0x01 | 0x02;
+
+interface SigningKey {
+  privateKey: CryptoKey;
+  publicKey: Uint8Array;
+  fingerprint: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+// Importing the key and hashing it is the same work on every request
+let cached: { pem: string; key: Promise<SigningKey> } | null = null;
+
+export function isPackageSigningConfigured(env: Env): boolean {
+  return Boolean(env.PACKAGE_SIGNING_KEY);
+}
+
+/**
+ * The public key with its user ID and self-signature, as a binary keyring
+ * or ASCII-armored. Null when no signing key is configured.
+ */
+export async function exportPublicKey(env: Env, armored: true): Promise<string | null>;
+export async function exportPublicKey(env: Env, armored: false): Promise<Uint8Array<ArrayBuffer> | null>;
+export async function exportPublicKey(env: Env, armored: boolean): Promise<Uint8Array<ArrayBuffer> | string | null> {
+  const key = await getSigningKey(env);
+  if (!key) return null;
+
+  const userId = encoder.encode(USER_ID);
+  const certification = await sign(
+    key,
+    SIGNATURE_POSITIVE_CERTIFICATION,
+    concat(frameKey(key.publicKey), [0xb4], uint32(userId.length), userId),
+    concat(subpacket(SUBPACKET_KEY_FLAGS, [KEY_FLAGS]), subpacket(SUBPACKET_PREFERRED_HASH, [HASH_SHA256])),
+  );
+  const keyring = concat(packet(PACKET_PUBLIC_KEY, key.publicKey), packet(PACKET_USER_ID, userId), certification);
+  return armored ? armor('PUBLIC KEY BLOCK', keyring) : keyring;
+}
+
+/**
+ * An ASCII-armored detached signature of the data (APT's Release.gpg, YUM's repomd.xml.asc)
+ */
+export async function signDetached(env: Env, data: string): Promise<string | null> {
+  const key = await getSigningKey(env);
+  if (!key) return null;
+  return armor('SIGNATURE', await sign(key, SIGNATURE_BINARY, encoder.encode(data)));
+}
+
+/**
+ * The text wrapped in a cleartext signature (APT's InRelease). Trailing
+ * whitespace isn't signed and lines starting with a dash are escaped.
+ */
+export async function signCleartext(env: Env, text: string): Promise<string | null> {
+  const key = await getSigningKey(env);
+  if (!key) return null;
+
+  const lines = text.replace(/\r?\n$/, '').split(/\r?\n/).map((line) => line.replace(/[ \t]+$/, ''));
+  const signature = await sign(key, SIGNATURE_TEXT, encoder.encode(lines.join('\r\n')));
+  const escaped = lines.map((line) => (line.startsWith('-') ? `- ${line}` : line));
+
+  return [
+    '-----BEGIN PGP SIGNED MESSAGE-----',
+    'Hash: SHA256',
+    '',
+    ...escaped,
+    armor('SIGNATURE', signature),
+  ].join('\n');
+}
+
+async function getSigningKey(env: Env): Promise<SigningKey | null> {
+  const pem = env.PACKAGE_SIGNING_KEY;
+  if (!pem) return null;
+  if (cached?.pem !== pem) {
+    cached = { pem, key: importSigningKey(pem) };
+  }
+  return cached.key;
+}
+
+async function importSigningKey(pem: string): Promise<SigningKey> {
+  const der = Uint8Array.from(atob(pem.replace(/-----[A-Z ]+-----|\s/g, '')), (char) => char.charCodeAt(0));
+  const privateKey = await crypto.subtle.importKey(
+    'pkcs8',
+    der,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    true,
+    ['sign'],
+  );
+
+  const jwk = await crypto.subtle.exportKey('jwk', privateKey) as JsonWebKey;
+  const publicKey = concat(
+    [4],
+    uint32(KEY_CREATED),
+    [ALGORITHM_RSA],
+    mpi(fromBase64Url(jwk.n ?? '')),
+    mpi(fromBase64Url(jwk.e ?? '')),
+  );
+  const fingerprint = new Uint8Array(await crypto.subtle.digest('SHA-1', frameKey(publicKey)));
+
+  return { privateKey, publicKey, fingerprint };
+}
+
+/**
+ * A version 4 signature packet over the data
+ */
+async function sign(key: SigningKey, type: number, data: Uint8Array, hashedSubpackets?: Uint8Array): Promise<Uint8Array> {
+  const hashed = concat(
+    subpacket(SUBPACKET_CREATION_TIME, uint32(Math.floor(Date.now() / 1000))),
+    subpacket(SUBPACKET_ISSUER_FINGERPRINT, concat([4], key.fingerprint)),
+    hashedSubpackets ?? [],
+  );
+  const head = concat([4, type, ALGORITHM_RSA, HASH_SHA256], uint16(hashed.length), hashed);
+  const signed = concat(data, head, [4, 0xff], uint32(head.length));
+
+  const [digest, signature] = await Promise.all([
+    crypto.subtle.digest('SHA-256', signed),
+    crypto.subtle.sign('RSASSA-PKCS1-v1_5', key.privateKey, signed),
+  ]);
+  const unhashed = subpacket(SUBPACKET_ISSUER, key.fingerprint.slice(-8));
+
+  return packet(PACKET_SIGNATURE, concat(
+    head,
+    uint16(unhashed.length),
+    unhashed,
+    new Uint8Array(digest).slice(0, 2),
+    mpi(new Uint8Array(signature)),
+  ));
+}
+
+/**
+ * A public key packet body as it is hashed for fingerprints and certifications
+ */
+function frameKey(publicKey: Uint8Array): Uint8Array {
+  return concat([0x99], uint16(publicKey.length), publicKey);
+}
+
+function packet(tag: number, body: Uint8Array): Uint8Array {
+  const length = body.length < 192 ? [body.length]
+    : body.length < 8384 ? [((body.length - 192) >> 8) + 192, (body.length - 192) & 0xff]
+    : [0xff, ...uint32(body.length)];
+  return concat([0xc0 | tag], length, body);
+}
+
+function subpacket(type: number, data: ArrayLike<number>): Uint8Array {
+  return concat([data.length + 1, type], data);
+}
+
+function mpi(bytes: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  const value = bytes.slice(start);
+  const bits = (value.length - 1) * 8 + (32 - Math.clz32(value[0]));
+  return concat(uint16(bits), value);
+}
+
+function armor(type: string, data: Uint8Array): string {
+  const base64 = toBase64(data).replace(/.{1,64}/g, '$&\n');
+  return `-----BEGIN PGP ${type}-----\n\n${base64}=${toBase64(uint24(crc24(data)))}\n-----END PGP ${type}-----\n`;
+}
+
+function crc24(data: Uint8Array): number {
+  let crc = 0xb704ce;
+  for (const byte of data) {
+    crc ^= byte << 16;
+    for (let i = 0; i < 8; i++) {
+      crc <<= 1;
+      if (crc & 0x1000000) crc ^= 0x1864cfb;
+    }
+  }
+  return crc & 0xffffff;
+}
+
+function uint16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function uint24(value: number): Uint8Array {
+  return new Uint8Array([(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function concat(...parts: ArrayLike<number>[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  return Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,212 @@
+import { findLatestRelease } from './releases';
+import type { ReleaseChannel, ReleaseFile } from './types';
+
+/**
+ * A client's operating system and CPU architecture in the release key
+ * vocabulary (`windows`, `macos`, `linux`, `android`, `ios`; `x64`, `arm64`,
+ * `x86`, `armv7`). Either is undefined when it couldn't be detected.
+ */
+export interface ClientPlatform {
+  platform?: string;
+  arch?: string;
+}
+
+/**
+ * A platform-arch an artifact can be built for. `fallback` says how a build
+ * for another architecture runs on the client.
+ */
+export interface PlatformTarget {
+  platform: string;
+  arch: string;
+  fallback?: 'rosetta' | 'emulation';
+}
+
+export interface RecommendedRelease {
+  version: string;
+  release: ReleaseFile;
+  target: PlatformTarget;
+}
+
+// Client hints asked for with Accept-CH; responses that use them must Vary on them
+export const CLIENT_HINTS = ['Sec-CH-UA-Platform', 'Sec-CH-UA-Arch', 'Sec-CH-UA-Bitness'];
+
+const PLATFORM_ALIASES: Record<string, string> = {
+  windows: 'windows',
+  win: 'windows',
+  win32: 'windows',
+  win64: 'windows',
+  macos: 'macos',
+  mac: 'macos',
+  darwin: 'macos',
+  osx: 'macos',
+  linux: 'linux',
+  android: 'android',
+  ios: 'ios',
+};
+
+const ARCH_ALIASES: Record<string, string> = {
+  x64: 'x64',
+  x86_64: 'x64',
+  amd64: 'x64',
+  arm64: 'arm64',
+  aarch64: 'arm64',
+  x86: 'x86',
+  i386: 'x86',
+  i686: 'x86',
+  ia32: 'x86',
+  armv7: 'armv7',
+  armv7l: 'armv7',
+  armhf: 'armv7',
+  universal: 'universal',
+};
+
+// Installers first, archives last, when a target has several artifacts
+const PREFERRED_EXTENSIONS: Record<string, string[]> = {
+  windows: ['.exe', '.msi', '.msix', '.zip'],
+  macos: ['.dmg', '.pkg', '.zip'],
+  linux: ['.AppImage', '.deb', '.rpm', '.tar.gz'],
+  android: ['.apk', '.aab'],
+};
+
+/**
+ * Map a platform name as written by users, browsers or build tools
+ * (`Win32`, `darwin`, `macOS`) to the release key vocabulary
+ */
+export function normalizePlatform(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return PLATFORM_ALIASES[value.toLowerCase().replace(/[\s"]/g, '')];
+}
+
+/**
+ * Map an architecture name (`x86_64`, `aarch64`, `amd64`) to the release key vocabulary
+ */
+export function normalizeArch(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return ARCH_ALIASES[value.toLowerCase().replace(/[\s"]/g, '')];
+}
+
+/**
+ * Detect the client's platform. `?os=` and `?arch=` win, then User-Agent
+ * client hints, then the User-Agent string. Browsers only send
+ * Sec-CH-UA-Arch after a response asked for it with Accept-CH.
+ */
+export function detectClientPlatform(
+  headers: Headers,
+  overrides: { os?: string; arch?: string } = {},
+): ClientPlatform {
+  const fromHints = parseClientHints(headers);
+  const fromUserAgent = parseUserAgent(headers.get('User-Agent') ?? '');
+
+  const platform = normalizePlatform(overrides.os) ?? fromHints.platform ?? fromUserAgent.platform;
+  // An architecture only carries over from a source that agrees on the platform
+  const arch = normalizeArch(overrides.arch)
+    ?? (fromHints.platform === platform ? fromHints.arch : undefined)
+    ?? (fromUserAgent.platform === platform ? fromUserAgent.arch : undefined);
+
+  return { platform, arch };
+}
+
+/**
+ * Targets whose builds run on the client, best first. arm64 Macs fall back
+ * to x64 builds under Rosetta 2 and arm64 Windows to x64/x86 emulation.
+ * Safari reports every Mac as Intel, so a Mac of unknown architecture
+ * prefers builds that run on both.
+ */
+export function getCompatibleTargets(client: ClientPlatform): PlatformTarget[] {
+  const { platform, arch } = client;
+  if (!platform) return [];
+
+  switch (platform) {
+    case 'macos':
+      if (arch === 'arm64') {
+        return [
+          { platform, arch: 'arm64' },
+          { platform, arch: 'universal' },
+          { platform, arch: 'x64', fallback: 'rosetta' },
+        ];
+      }
+      if (arch === 'x64') return [{ platform, arch: 'x64' }, { platform, arch: 'universal' }];
+      return [
+        { platform, arch: 'universal' },
+        { platform, arch: 'x64' },
+        { platform, arch: 'arm64' },
+      ];
+    case 'windows':
+      if (arch === 'arm64') {
+        return [
+          { platform, arch: 'arm64' },
+          { platform, arch: 'x64', fallback: 'emulation' },
+          { platform, arch: 'x86', fallback: 'emulation' },
+        ];
+      }
+      if (arch === 'x86') return [{ platform, arch: 'x86' }];
+      return [{ platform, arch: 'x64' }, { platform, arch: 'x86' }];
+    default:
+      return [{ platform, arch: arch ?? (platform === 'linux' ? 'x64' : 'arm64') }];
+  }
+}
+
+/**
+ * The artifact of the newest version that runs on the client, preferring
+ * native builds and installers within that version
+ */
+export function findRecommendedRelease(
+  releases: ReleaseFile[],
+  client: ClientPlatform,
+  options: { channel?: ReleaseChannel; includePrerelease?: boolean } = {},
+): RecommendedRelease | null {
+  const targets = getCompatibleTargets(client);
+  const rank = (release: ReleaseFile) => targets.findIndex((target) =>
+    normalizePlatform(release.metadata.platform) === target.platform &&
+    normalizeArch(release.metadata.arch) === target.arch);
+
+  const compatible = releases.filter((release) => rank(release) !== -1);
+  const latest = findLatestRelease(compatible, options);
+  if (!latest) return null;
+
+  const [release] = [...latest.releases].sort((a, b) =>
+    rank(a) - rank(b) || extensionRank(a) - extensionRank(b));
+  return { version: latest.version, release, target: targets[rank(release)] };
+}
+
+function extensionRank(release: ReleaseFile): number {
+  const extensions = PREFERRED_EXTENSIONS[normalizePlatform(release.metadata.platform) ?? ''] ?? [];
+  const index = extensions.findIndex((ext) => release.metadata.filename.endsWith(ext));
+  return index === -1 ? extensions.length : index;
+}
+
+function parseClientHints(headers: Headers): ClientPlatform {
+  const platform = normalizePlatform(headers.get('Sec-CH-UA-Platform') ?? undefined);
+  const hintArch = headers.get('Sec-CH-UA-Arch')?.replace(/"/g, '').toLowerCase();
+  const bitness = headers.get('Sec-CH-UA-Bitness')?.replace(/"/g, '');
+
+  let arch: string | undefined;
+  if (hintArch === 'arm') arch = bitness === '32' ? 'armv7' : 'arm64';
+  else if (hintArch === 'x86') arch = bitness === '32' ? 'x86' : 'x64';
+
+  return { platform, arch };
+}
+
+function parseUserAgent(userAgent: string): ClientPlatform {
+  // iPhone and iPad user agents say "like Mac OS X", so check mobile platforms first
+  if (/iPhone|iPad|iPod/.test(userAgent)) return { platform: 'ios', arch: 'arm64' };
+  if (/Android/.test(userAgent)) {
+    return { platform: 'android', arch: /armv7|armeabi/i.test(userAgent) ? 'armv7' : undefined };
+  }
+
+  if (/Windows/.test(userAgent)) {
+    if (/ARM64|aarch64/i.test(userAgent)) return { platform: 'windows', arch: 'arm64' };
+    if (/Win64|x64|WOW64|amd64/i.test(userAgent)) return { platform: 'windows', arch: 'x64' };
+    return { platform: 'windows' };
+  }
+
+  // Browsers on Apple Silicon still say "Intel Mac OS X", so the arch is left to client hints
+  if (/Mac OS X|Macintosh|Darwin/.test(userAgent)) return { platform: 'macos' };
+
+  if (/Linux/.test(userAgent)) {
+    const arch = userAgent.match(/x86_64|amd64|aarch64|arm64|armv7l?|i[36]86/i)?.[0];
+    return { platform: 'linux', arch: normalizeArch(arch) };
+  }
+
+  return {};
+}
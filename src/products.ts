@@ -0,0 +1,318 @@
+import { Hono } from 'hono';
+import { getHiddenProducts, isProductVisibility } from './access';
+import { recordAudit } from './audit';
+import { requireAuth } from './auth';
+import { normalizePlatform } from './platform';
+import { isValidProduct } from './releases';
+import { PRODUCT_VISIBILITIES } from './types';
+import type { AppEnv, Env, ProductVisibility } from './types';
+
+const products = new Hono<AppEnv>();
+
+const MAX_DISPLAY_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * A registered product. Uploads are only accepted for registered products,
+ * and the download page presents them in sortOrder.
+ */
+export interface Product {
+  name: string;
+  /** Shown instead of the name on the download page; defaults to the name */
+  displayName: string;
+  description?: string;
+  /** HTTPS URL of the product's icon */
+  icon?: string;
+  homepage?: string;
+  docsUrl?: string;
+  visibility: ProductVisibility;
+  sortOrder: number;
+  /** Platforms uploads may target; empty for every platform */
+  platforms: string[];
+}
+
+/**
+ * The editable fields of a product. null clears an optional field.
+ */
+interface ProductFields {
+  displayName?: string | null;
+  description?: string | null;
+  icon?: string | null;
+  homepage?: string | null;
+  docsUrl?: string | null;
+  visibility?: ProductVisibility;
+  sortOrder?: number;
+  platforms?: string[] | null;
+}
+
+interface ProductRow {
+  name: string;
+  display_name: string | null;
+  description: string | null;
+  icon: string | null;
+  homepage: string | null;
+  docs_url: string | null;
+  visibility: ProductVisibility;
+  sort_order: number;
+  platforms: string | null;
+}
+
+const FIELD_COLUMNS: Record<keyof ProductFields, string> = {
+  displayName: 'display_name',
+  description: 'description',
+  icon: 'icon',
+  homepage: 'homepage',
+  docsUrl: 'docs_url',
+  visibility: 'visibility',
+  sortOrder: 'sort_order',
+  platforms: 'platforms',
+};
+
+// Only the catalog columns; install layouts are read by install.ts
+const PRODUCT_COLUMNS = `name, ${Object.values(FIELD_COLUMNS).join(', ')}`;
+
+/**
+ * GET /api/products - Lists the products the caller can see, in catalog order
+ */
+products.get('/api/products', async (c) => {
+  try {
+    const list = await listProducts(c.env, await getHiddenProducts(c));
+    return c.json({ success: true, count: list.length, products: list });
+  } catch (error) {
+    console.error('Error listing products:', error);
+    return c.json({ success: false, error: 'Failed to list products' }, 500);
+  }
+});
+
+/**
+ * GET /api/products/:product - One product of the catalog
+ */
+products.get('/api/products/:product', async (c) => {
+  try {
+    const name = c.req.param('product');
+    const product = await getProduct(c.env, name);
+    // Private products the caller can't see are reported as missing, as on the download page
+    if (!product || (await getHiddenProducts(c)).includes(name)) {
+      return c.json({ success: false, error: `Product not found: ${name}` }, 404);
+    }
+
+    return c.json({ success: true, product });
+  } catch (error) {
+    console.error('Error getting product:', error);
+    return c.json({ success: false, error: 'Failed to get product' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/products - Registers a product
+ */
+products.post('/api/admin/products', requireAuth, async (c) => {
+  try {
+    const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+    if (!body || typeof body.name !== 'string') {
+      return c.json({ success: false, error: 'Request body must include a name' }, 400);
+    }
+    const { name, ...rest } = body;
+    if (!isValidProduct(name)) {
+      return c.json({ success: false, error: `Invalid product: ${name}` }, 400);
+    }
+
+    const fields = parseProductFields(rest);
+    if (typeof fields === 'string') {
+      return c.json({ success: false, error: fields }, 400);
+    }
+
+    const columns = Object.keys(fields).map((field) => FIELD_COLUMNS[field as keyof ProductFields]);
+    const row = await c.env.DB.prepare(
+      `INSERT INTO products (name${columns.map((column) => `, ${column}`).join('')})
+       VALUES (?${', ?'.repeat(columns.length)})
+       ON CONFLICT (name) DO NOTHING RETURNING ${PRODUCT_COLUMNS}`,
+    ).bind(name, ...toParams(fields)).first<ProductRow>();
+    if (!row) {
+      return c.json({ success: false, error: `Product already exists: ${name}` }, 409);
+    }
+
+    const product = fromRow(row);
+    await recordAudit(c, 'product.create', { product: name }, { ...rest });
+    return c.json({ success: true, product }, 201);
+  } catch (error) {
+    console.error('Error creating product:', error);
+    return c.json({ success: false, error: 'Failed to create product' }, 500);
+  }
+});
+
+/**
+ * PATCH /api/admin/products/:product - Changes a product's catalog fields
+ */
+products.patch('/api/admin/products/:product', requireAuth, async (c) => {
+  try {
+    const name = c.req.param('product');
+    const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+    if (!body) {
+      return c.json({ success: false, error: 'Request body must be a JSON object' }, 400);
+    }
+
+    const fields = parseProductFields(body);
+    if (typeof fields === 'string') {
+      return c.json({ success: false, error: fields }, 400);
+    }
+    if (Object.keys(fields).length === 0) {
+      return c.json({
+        success: false,
+        error: `Nothing to update (editable fields: ${Object.keys(FIELD_COLUMNS).join(', ')})`,
+      }, 400);
+    }
+
+    const updates = Object.keys(fields).map((field) => `${FIELD_COLUMNS[field as keyof ProductFields]} = ?`);
+    const row = await c.env.DB
+      .prepare(`UPDATE products SET ${updates.join(', ')} WHERE name = ? RETURNING ${PRODUCT_COLUMNS}`)
+      .bind(...toParams(fields), name)
+      .first<ProductRow>();
+    if (!row) {
+      return c.json({ success: false, error: `Product not found: ${name}` }, 404);
+    }
+
+    await recordAudit(c, 'product.update', { product: name }, { ...body });
+    return c.json({ success: true, product: fromRow(row) });
+  } catch (error) {
+    console.error('Error updating product:', error);
+    return c.json({ success: false, error: 'Failed to update product' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/products/:product - Unregisters a product that has no releases
+ */
+products.delete('/api/admin/products/:product', requireAuth, async (c) => {
+  try {
+    const name = c.req.param('product');
+    const release = await c.env.DB
+      .prepare('SELECT key FROM releases WHERE product = ? LIMIT 1')
+      .bind(name)
+      .first<{ key: string }>();
+    if (release) {
+      return c.json({ success: false, error: `${name} still has releases; delete them first` }, 409);
+    }
+
+    const result = await c.env.DB.prepare('DELETE FROM products WHERE name = ?').bind(name).run();
+    if (result.meta.changes === 0) {
+      return c.json({ success: false, error: `Product not found: ${name}` }, 404);
+    }
+
+    await recordAudit(c, 'product.delete', { product: name });
+    return c.json({ success: true, product: name });
+  } catch (error) {
+    console.error('Error deleting product:', error);
+    return c.json({ success: false, error: 'Failed to delete product' }, 500);
+  }
+});
+
+/**
+ * Registered products in catalog order: sortOrder, then name
+ */
+export async function listProducts(env: Env, excludeProducts: string[] = []): Promise<Product[]> {
+  const { results } = await env.DB
+    .prepare(`SELECT ${PRODUCT_COLUMNS} FROM products ORDER BY sort_order, name`)
+    .all<ProductRow>();
+  return results.filter((row) => !excludeProducts.includes(row.name)).map(fromRow);
+}
+
+export async function getProduct(env: Env, name: string): Promise<Product | null> {
+  const row = await env.DB
+    .prepare(`SELECT ${PRODUCT_COLUMNS} FROM products WHERE name = ?`)
+    .bind(name)
+    .first<ProductRow>();
+  return row ? fromRow(row) : null;
+}
+
+/**
+ * Validate the fields of a create or update body. Only the fields present
+ * are returned. Returns an error message on invalid input.
+ */
+function parseProductFields(body: Record<string, unknown>): ProductFields | string {
+  const fields: ProductFields = {};
+
+  for (const [field, value] of Object.entries(body)) {
+    switch (field) {
+      case 'displayName':
+      case 'description': {
+        const maxLength = field === 'displayName' ? MAX_DISPLAY_NAME_LENGTH : MAX_DESCRIPTION_LENGTH;
+        if (value !== null && (typeof value !== 'string' || value.trim() === '' || value.length > maxLength)) {
+          return `${field} must be a non-empty string of at most ${maxLength} characters, or null`;
+        }
+        fields[field] = value === null ? null : value.trim();
+        break;
+      }
+      case 'icon':
+      case 'homepage':
+      case 'docsUrl': {
+        const error = value === null ? null : typeof value === 'string' ? validateHttpsUrl(field, value) : `${field} must be a string`;
+        if (error) return error;
+        fields[field] = value as string | null;
+        break;
+      }
+      case 'visibility':
+        if (!isProductVisibility(value)) {
+          return `Invalid visibility: ${value} (expected one of ${PRODUCT_VISIBILITIES.join(', ')})`;
+        }
+        fields.visibility = value;
+        break;
+      case 'sortOrder':
+        if (!Number.isInteger(value)) return 'sortOrder must be an integer';
+        fields.sortOrder = value as number;
+        break;
+      case 'platforms': {
+        if (value === null) {
+          fields.platforms = null;
+          break;
+        }
+        if (!Array.isArray(value)) return 'platforms must be an array of platforms, or null for every platform';
+        const invalid = value.find((platform) => typeof platform !== 'string' || !normalizePlatform(platform));
+        if (invalid !== undefined) return `Invalid platform: ${invalid}`;
+        fields.platforms = [...new Set(value.map((platform: string) => normalizePlatform(platform) as string))];
+        break;
+      }
+      default:
+        return `Unknown field: ${field}`;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Catalog URLs are linked from the download page, and its Content-Security-Policy only loads HTTPS images
+ */
+function validateHttpsUrl(field: string, value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return `Invalid ${field}: ${value}`;
+  }
+  return url.protocol === 'https:' ? null : `${field} must use https`;
+}
+
+/**
+ * Column values of the fields, in the fields' order
+ */
+function toParams(fields: ProductFields): (string | number | null)[] {
+  return Object.entries(fields).map(([field, value]) =>
+    field === 'platforms' ? (value?.length ? JSON.stringify(value) : null) : value);
+}
+
+function fromRow(row: ProductRow): Product {
+  return {
+    name: row.name,
+    displayName: row.display_name ?? row.name,
+    description: row.description ?? undefined,
+    icon: row.icon ?? undefined,
+    homepage: row.homepage ?? undefined,
+    docsUrl: row.docs_url ?? undefined,
+    visibility: row.visibility,
+    sortOrder: row.sort_order,
+    platforms: row.platforms ? JSON.parse(row.platforms) as string[] : [],
+  };
+}
+
+export default products;
@@ -0,0 +1,347 @@
+import { toReleaseFile, updateCustomMetadata } from './releases';
+import type { Env, ReleaseChannel, ReleaseFile } from './types';
+
+/**
+ * Filters supported by the release index. Every field is optional and
+ * matched exactly; releases of `excludeProducts` are left out. Yanked
+ * releases are only included with `includeYanked`, and detached update
+ * signatures (`<key>.sig`) only with `includeSignatures`.
+ */
+export interface ReleaseFilter {
+  product?: string;
+  version?: string;
+  platform?: string;
+  arch?: string;
+  channel?: ReleaseChannel;
+  excludeProducts?: string[];
+  includeYanked?: boolean;
+  includeSignatures?: boolean;
+}
+
+/**
+ * The editable fields of a release. They live in the object's
+ * customMetadata, which the index caches. null clears an optional field.
+ */
+export interface ReleasePatch {
+  channel?: ReleaseChannel;
+  description?: string | null;
+  checksum?: string | null;
+  yanked?: boolean;
+}
+
+export interface ReleasePage {
+  releases: ReleaseFile[];
+  truncated: boolean;
+  cursor?: string;
+}
+
+interface ReleaseRow {
+  key: string;
+  product: string;
+  version: string;
+  platform: string;
+  arch: string;
+  filename: string;
+  channel: ReleaseChannel;
+  size: number;
+  uploaded: string;
+  checksum: string | null;
+  description: string | null;
+  yanked: number;
+}
+
+const FILTER_COLUMNS = ['product', 'version', 'platform', 'arch', 'channel'] as const;
+
+// D1 caps the number of statements per batch
+const BATCH_SIZE = 100;
+
+// Tauri update signatures live next to their artifact and go with it
+const SIGNATURE_EXTENSION = '.sig';
+
+/**
+ * List every indexed release matching the filter, newest upload first
+ */
+export async function listReleases(env: Env, filter: ReleaseFilter = {}): Promise<ReleaseFile[]> {
+  const { where, params } = buildWhere(filter);
+  const { results } = await env.DB
+    .prepare(`SELECT * FROM releases ${where} ORDER BY uploaded DESC, key`)
+    .bind(...params)
+    .all<ReleaseRow>();
+  return results.map(fromRow);
+}
+
+/**
+ * List one page of indexed releases in key order. The cursor is opaque to
+ * clients; internally it is the last key of the previous page.
+ */
+export async function listReleasePage(
+  env: Env,
+  filter: ReleaseFilter & { limit: number; cursor?: string },
+): Promise<ReleasePage> {
+  const { where, params } = buildWhere(filter, filter.cursor ? decodeCursor(filter.cursor) : undefined);
+  const { results } = await env.DB
+    .prepare(`SELECT * FROM releases ${where} ORDER BY key LIMIT ?`)
+    .bind(...params, filter.limit + 1)
+    .all<ReleaseRow>();
+
+  const truncated = results.length > filter.limit;
+  const rows = truncated ? results.slice(0, filter.limit) : results;
+  return {
+    releases: rows.map(fromRow),
+    truncated,
+    cursor: truncated ? encodeCursor(rows[rows.length - 1].key) : undefined,
+  };
+}
+
+export interface ReleaseStats {
+  totalReleases: number;
+  totalSize: number;
+  products: Record<string, { count: number; size: number }>;
+  platforms: Record<string, number>;
+}
+
+/**
+ * Aggregate counts and sizes over the index
+ */
+export async function getReleaseStats(env: Env, filter: ReleaseFilter = {}): Promise<ReleaseStats> {
+  const { where, params } = buildWhere(filter);
+  const [totals, products, platforms] = await env.DB.batch<Record<string, unknown>>([
+    env.DB.prepare(`SELECT COUNT(*) AS count, COALESCE(SUM(size), 0) AS size FROM releases ${where}`).bind(...params),
+    env.DB.prepare(`SELECT product, COUNT(*) AS count, SUM(size) AS size FROM releases ${where} GROUP BY product ORDER BY product`).bind(...params),
+    env.DB.prepare(`SELECT platform, COUNT(*) AS count FROM releases ${where} GROUP BY platform ORDER BY platform`).bind(...params),
+  ]);
+
+  const stats: ReleaseStats = {
+    totalReleases: Number(totals.results[0]?.count ?? 0),
+    totalSize: Number(totals.results[0]?.size ?? 0),
+    products: {},
+    platforms: {},
+  };
+  for (const row of products.results) {
+    stats.products[String(row.product)] = { count: Number(row.count), size: Number(row.size) };
+  }
+  for (const row of platforms.results) {
+    stats.platforms[String(row.platform)] = Number(row.count);
+  }
+  return stats;
+}
+
+/**
+ * One indexed release by key, yanked or not
+ */
+export async function getRelease(env: Env, key: string): Promise<ReleaseFile | null> {
+  const row = await env.DB.prepare('SELECT * FROM releases WHERE key = ?').bind(key).first<ReleaseRow>();
+  return row ? fromRow(row) : null;
+}
+
+/**
+ * Insert or update a release in the index
+ */
+export async function indexRelease(env: Env, release: ReleaseFile): Promise<void> {
+  await upsertStatement(env, release).run();
+}
+
+/**
+ * Index an object that was just written to the bucket, with the SHA-256
+ * computed while uploading it. The object is already
+ * stored, so an index failure is logged rather than failing the request;
+ * POST /api/admin/index/rebuild repairs any drift.
+ */
+export async function indexObject(env: Env, object: R2Object, checksum?: string): Promise<ReleaseFile | null> {
+  const release = toReleaseFile(object);
+  if (!release) return null;
+  if (checksum) release.metadata.checksum = checksum;
+
+  try {
+    await indexRelease(env, release);
+  } catch (error) {
+    console.error('Error indexing release:', error);
+  }
+  return release;
+}
+
+/**
+ * Apply a patch to releases and return the updated ones. Each object's
+ * customMetadata is rewritten first, so the bucket stays the source of truth
+ * and a rebuilt index keeps the edit; the index is then updated in batches.
+ * Keys missing from the bucket are skipped.
+ */
+export async function updateReleases(env: Env, keys: string[], patch: ReleasePatch): Promise<ReleaseFile[]> {
+  const releases: ReleaseFile[] = [];
+  for (const key of keys) {
+    const customMetadata = toCustomMetadata(patch);
+    // A checksum computed on upload is only in the index; carry it into the object
+    if (patch.checksum === undefined) {
+      const checksum = (await getRelease(env, key))?.metadata.checksum;
+      if (checksum) customMetadata.checksum = checksum;
+    }
+
+    const object = await updateCustomMetadata(env, key, customMetadata);
+    const release = object && toReleaseFile(object);
+    if (release) releases.push(release);
+  }
+
+  for (let i = 0; i < releases.length; i += BATCH_SIZE) {
+    await env.DB.batch(releases.slice(i, i + BATCH_SIZE).map((release) => upsertStatement(env, release)));
+  }
+  return releases;
+}
+
+/**
+ * Remove releases, and the package metadata read from them, from the index
+ */
+export async function removeFromIndex(env: Env, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+    await env.DB.batch(keys.slice(i, i + BATCH_SIZE).flatMap((key) => [
+      env.DB.prepare('DELETE FROM releases WHERE key = ?').bind(key),
+      env.DB.prepare('DELETE FROM packages WHERE key = ?').bind(key),
+    ]));
+  }
+}
+
+/**
+ * Delete artifacts and their update signatures from the bucket, then from
+ * the index; signatures uploaded through the API are indexed too. A key that
+ * is itself a signature has no signature of its own.
+ */
+export async function deleteReleases(env: Env, keys: string[]): Promise<void> {
+  const objects = keys.flatMap((key) => key.endsWith(SIGNATURE_EXTENSION) ? [key] : [key, key + SIGNATURE_EXTENSION]);
+  // R2 deletes at most 1000 keys per call
+  for (let i = 0; i < objects.length; i += 1000) {
+    await env.RELEASES.delete(objects.slice(i, i + 1000));
+  }
+  await removeFromIndex(env, objects);
+}
+
+/**
+ * Make the index match the given releases: upsert all of them and drop
+ * any indexed key that isn't among them. The upload API keeps the SHA-256
+ * it computes in the index only, so keys the bucket has no checksum for
+ * keep their indexed one.
+ */
+export async function replaceIndex(
+  env: Env,
+  releases: ReleaseFile[],
+): Promise<{ indexed: number; removed: number }> {
+  for (let i = 0; i < releases.length; i += BATCH_SIZE) {
+    await env.DB.batch(releases.slice(i, i + BATCH_SIZE).map((release) => upsertStatement(env, release, { keepChecksum: true })));
+  }
+
+  const current = new Set(releases.map((release) => release.key));
+  const { results } = await env.DB.prepare('SELECT key FROM releases').all<{ key: string }>();
+  const stale = results.map((row) => row.key).filter((key) => !current.has(key));
+  await removeFromIndex(env, stale);
+
+  return { indexed: releases.length, removed: stale.length };
+}
+
+function upsertStatement(env: Env, release: ReleaseFile, options = { keepChecksum: false }): D1PreparedStatement {
+  const { metadata } = release;
+  const columns = 'key, product, version, platform, arch, filename, channel, size, uploaded, checksum, description, yanked';
+  return env.DB.prepare(options.keepChecksum
+    ? `INSERT INTO releases (${columns}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (key) DO UPDATE SET
+         product = excluded.product, version = excluded.version, platform = excluded.platform,
+         arch = excluded.arch, filename = excluded.filename, channel = excluded.channel,
+         size = excluded.size, uploaded = excluded.uploaded,
+         checksum = COALESCE(excluded.checksum, releases.checksum),
+         description = excluded.description, yanked = excluded.yanked`
+    : `INSERT OR REPLACE INTO releases (${columns}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).bind(
+    release.key,
+    metadata.product,
+    metadata.version,
+    metadata.platform,
+    metadata.arch,
+    metadata.filename,
+    metadata.channel,
+    release.size,
+    release.uploaded.toISOString(),
+    metadata.checksum ?? null,
+    metadata.description ?? null,
+    metadata.yanked ? 1 : 0,
+  );
+}
+
+/**
+ * The customMetadata patch for a release patch; undefined removes a field
+ */
+function toCustomMetadata(patch: ReleasePatch): Record<string, string | undefined> {
+  const customMetadata: Record<string, string | undefined> = {};
+  if (patch.channel !== undefined) customMetadata.channel = patch.channel;
+  if (patch.description !== undefined) customMetadata.description = patch.description ?? undefined;
+  if (patch.checksum !== undefined) customMetadata.checksum = patch.checksum ?? undefined;
+  if (patch.yanked !== undefined) customMetadata.yanked = patch.yanked ? 'true' : undefined;
+  return customMetadata;
+}
+
+function buildWhere(filter: ReleaseFilter, afterKey?: string): { where: string; params: string[] } {
+  const clauses: string[] = [];
+  const params: string[] = [];
+
+  for (const column of FILTER_COLUMNS) {
+    const value = filter[column];
+    if (value !== undefined) {
+      clauses.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+  if (!filter.includeYanked) {
+    clauses.push('yanked = 0');
+  }
+  if (!filter.includeSignatures) {
+    clauses.push('key NOT LIKE ?');
+    params.push(`%${SIGNATURE_EXTENSION}`);
+  }
+  if (filter.excludeProducts?.length) {
+    clauses.push(`product NOT IN (${filter.excludeProducts.map(() => '?').join(', ')})`);
+    params.push(...filter.excludeProducts);
+  }
+  if (afterKey !== undefined) {
+    clauses.push('key > ?');
+    params.push(afterKey);
+  }
+
+  return { where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+function fromRow(row: ReleaseRow): ReleaseFile {
+  return {
+    key: row.key,
+    size: row.size,
+    uploaded: new Date(row.uploaded),
+    metadata: {
+      product: row.product,
+      version: row.version,
+      platform: row.platform,
+      arch: row.arch,
+      uploadDate: row.uploaded,
+      size: row.size,
+      filename: row.filename,
+      channel: row.channel,
+      checksum: row.checksum ?? undefined,
+      description: row.description ?? undefined,
+      yanked: row.yanked ? true : undefined,
+    },
+  };
+}
+
+function encodeCursor(key: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(key)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function isValidCursor(cursor: string): boolean {
+  try {
+    decodeCursor(cursor);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function decodeCursor(cursor: string): string {
+  const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
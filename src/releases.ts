@@ -0,0 +1,319 @@
+import { compareSemver, compareVersions, isPrerelease, parseSemver, satisfiesRange } from './semver';
+import type { SemVer, SemverRange } from './semver';
+import { RELEASE_CHANNELS, RELEASE_SORTS } from './types';
+import type {
+  Env,
+  ProductVersions,
+  ReleaseChannel,
+  ReleaseFile,
+  ReleaseMetadata,
+  ReleaseSort,
+  VersionGroup,
+} from './types';
+
+export interface ReleaseKeyParts {
+  product: string;
+  version: string;
+  platform: string;
+  arch: string;
+  filename: string;
+}
+
+const PRODUCT_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+const VERSION_PATTERN = /^[0-9A-Za-z][0-9A-Za-z.+_-]*$/;
+const PLATFORM_PATTERN = /^[a-z0-9]+$/;
+const ARCH_PATTERN = /^[a-z0-9_]+$/;
+const FILENAME_PATTERN = /^[^/\\\x00-\x1f]+$/;
+
+/**
+ * Parse R2 object metadata to extract release information
+ */
+export function parseReleaseMetadata(object: R2Object): ReleaseMetadata | null {
+  try {
+    const customMetadata = object.customMetadata || {};
+    const pathParts = object.key.split('/');
+
+    if (pathParts.length < 4) {
+      const filename = object.key.split('/').pop() || object.key;
+      return {
+        product: customMetadata.product || 'unknown',
+        version: customMetadata.version || 'unknown',
+        platform: customMetadata.platform || 'unknown',
+        arch: customMetadata.arch || 'unknown',
+        uploadDate: customMetadata.uploadDate || object.uploaded.toISOString(),
+        size: object.size,
+        filename: filename,
+        channel: resolveChannel(customMetadata.channel, customMetadata.version || 'unknown'),
+        checksum: customMetadata.checksum,
+        description: customMetadata.description,
+        yanked: customMetadata.yanked === 'true' || undefined,
+      };
+    }
+
+    const [product, version, platformArch, ...filenameParts] = pathParts;
+    const [platform, arch] = platformArch.split('-');
+    const filename = filenameParts.join('/');
+
+    return {
+      product: customMetadata.product || product,
+      version: customMetadata.version || version,
+      platform: customMetadata.platform || platform,
+      arch: customMetadata.arch || arch || 'unknown',
+      uploadDate: customMetadata.uploadDate || object.uploaded.toISOString(),
+      size: object.size,
+      filename: filename,
+      channel: resolveChannel(customMetadata.channel, customMetadata.version || version),
+      checksum: customMetadata.checksum,
+      description: customMetadata.description,
+      yanked: customMetadata.yanked === 'true' || undefined,
+    };
+  } catch (error) {
+    console.error('Error parsing metadata:', error);
+    return null;
+  }
+}
+
+export function isReleaseChannel(value: unknown): value is ReleaseChannel {
+  return typeof value === 'string' && (RELEASE_CHANNELS as readonly string[]).includes(value);
+}
+
+export function isReleaseSort(value: unknown): value is ReleaseSort {
+  return typeof value === 'string' && (RELEASE_SORTS as readonly string[]).includes(value);
+}
+
+/**
+ * Infer a channel from a version's pre-release tag: no tag is stable,
+ * nightly/dev/snapshot builds are nightly, anything else (alpha, beta, rc) is beta
+ */
+export function inferChannel(version: string): ReleaseChannel {
+  const semver = parseSemver(version);
+  if (!semver) return /nightly|dev|snapshot/i.test(version) ? 'nightly' : 'stable';
+  if (!isPrerelease(semver)) return 'stable';
+  const tag = String(semver.prerelease[0]).toLowerCase();
+  return ['nightly', 'dev', 'snapshot'].includes(tag) ? 'nightly' : 'beta';
+}
+
+/**
+ * Use the channel stored in customMetadata, falling back to the version's pre-release tag
+ */
+function resolveChannel(stored: string | undefined, version: string): ReleaseChannel {
+  return isReleaseChannel(stored) ? stored : inferChannel(version);
+}
+
+/**
+ * Build the API representation of an R2 object, or null if it isn't a release
+ */
+export function toReleaseFile(object: R2Object): ReleaseFile | null {
+  const metadata = parseReleaseMetadata(object);
+  if (!metadata) return null;
+  return {
+    key: object.key,
+    size: object.size,
+    uploaded: new Date(metadata.uploadDate),
+    metadata,
+  };
+}
+
+/**
+ * Rewrite an object's customMetadata in place. R2 can't update metadata on
+ * its own, so the body is streamed from the bucket back into the same key.
+ * That resets the object's upload time, so the original is kept in
+ * customMetadata.uploadDate.
+ */
+export async function updateCustomMetadata(
+  env: Env,
+  key: string,
+  patch: Record<string, string | undefined>,
+): Promise<R2Object | null> {
+  const object = await env.RELEASES.get(key);
+  if (!object) return null;
+
+  const customMetadata: Record<string, string> = {
+    uploadDate: object.uploaded.toISOString(),
+    ...object.customMetadata,
+  };
+  for (const [name, value] of Object.entries(patch)) {
+    if (value === undefined) delete customMetadata[name];
+    else customMetadata[name] = value;
+  }
+
+  return env.RELEASES.put(key, object.body, {
+    httpMetadata: object.httpMetadata,
+    customMetadata,
+  });
+}
+
+/**
+ * Walk the whole bucket and return every release file in it. R2 returns at
+ * most 1000 objects per call, so this follows the cursor to the end.
+ * Routes should query the release index instead; this is for rebuilding it.
+ */
+export async function listBucketReleases(env: Env): Promise<ReleaseFile[]> {
+  const releases: ReleaseFile[] = [];
+  let cursor: string | undefined;
+
+  do {
+    // customMetadata is only returned when asked for, and channel/checksum live there
+    const listed = await env.RELEASES.list({
+      cursor,
+      include: ['customMetadata', 'httpMetadata'],
+    });
+
+    for (const object of listed.objects) {
+      const release = toReleaseFile(object);
+      if (release) releases.push(release);
+    }
+
+    cursor = listed.truncated ? listed.cursor : undefined;
+  } while (cursor);
+
+  return releases;
+}
+
+export interface LatestRelease {
+  version: string;
+  releases: ReleaseFile[];
+}
+
+/**
+ * Pick the highest semver version among the given release files.
+ * Versions that aren't valid semver are never considered. By default only
+ * the stable channel is searched; pass a channel to search that one instead,
+ * or includePrerelease to search every channel.
+ */
+export function findLatestRelease(
+  releases: ReleaseFile[],
+  options: { channel?: ReleaseChannel; includePrerelease?: boolean } = {},
+): LatestRelease | null {
+  const channel = options.channel ?? (options.includePrerelease ? undefined : 'stable');
+  let latest: { version: string; semver: SemVer } | null = null;
+
+  for (const release of releases) {
+    if (channel && release.metadata.channel !== channel) continue;
+    const semver = parseSemver(release.metadata.version);
+    if (!semver) continue;
+    if (!latest || compareSemver(semver, latest.semver) > 0) {
+      latest = { version: release.metadata.version, semver };
+    }
+  }
+
+  if (!latest) return null;
+
+  const version = latest.version;
+  return {
+    version,
+    releases: releases
+      .filter((release) => release.metadata.version === version)
+      .sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
+
+/**
+ * Keep the releases whose version is in the range. Versions that aren't
+ * valid semver never match.
+ */
+export function filterByVersionRange(releases: ReleaseFile[], range: SemverRange): ReleaseFile[] {
+  return releases.filter((release) => {
+    const semver = parseSemver(release.metadata.version);
+    return semver !== null && satisfiesRange(semver, range);
+  });
+}
+
+/**
+ * Order releases newest first. `semver` orders by product, then by version
+ * precedence; `uploaded` by upload time alone.
+ */
+export function sortReleases(releases: ReleaseFile[], sort: ReleaseSort): ReleaseFile[] {
+  return [...releases].sort((a, b) =>
+    (sort === 'semver'
+      ? a.metadata.product.localeCompare(b.metadata.product) || compareVersions(b.metadata.version, a.metadata.version)
+      : 0) ||
+    b.uploaded.getTime() - a.uploaded.getTime() ||
+    a.key.localeCompare(b.key));
+}
+
+/**
+ * Group releases by product, then by version. Products are in name order and
+ * versions newest first: by precedence for `semver`, by their latest upload
+ * for `uploaded`. Artifacts of a version are in key order.
+ */
+export function groupByVersion(releases: ReleaseFile[], sort: ReleaseSort): ProductVersions[] {
+  const products = new Map<string, Map<string, VersionGroup>>();
+  for (const release of releases) {
+    const { product, version, channel } = release.metadata;
+    const versions = products.get(product) ?? new Map<string, VersionGroup>();
+    products.set(product, versions);
+
+    const group = versions.get(version) ?? { version, channel, uploaded: release.uploaded, artifacts: [] };
+    versions.set(version, group);
+    group.artifacts.push(release);
+    if (release.uploaded > group.uploaded) group.uploaded = release.uploaded;
+  }
+
+  return [...products.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([product, versions]) => ({
+      product,
+      versions: [...versions.values()]
+        .sort((a, b) => (sort === 'semver'
+          ? compareVersions(b.version, a.version)
+          : b.uploaded.getTime() - a.uploaded.getTime() || compareVersions(b.version, a.version)))
+        .map((group) => ({ ...group, artifacts: [...group.artifacts].sort((a, b) => a.key.localeCompare(b.key)) })),
+    }));
+}
+
+/**
+ * Validate release key segments against the
+ * {product}/{version}/{platform}-{arch}/{filename} convention.
+ * Returns an error message, or null if the parts are valid.
+ */
+export function validateReleaseKeyParts(parts: ReleaseKeyParts): string | null {
+  if (!PRODUCT_PATTERN.test(parts.product)) return `Invalid product: ${parts.product}`;
+  if (!VERSION_PATTERN.test(parts.version)) return `Invalid version: ${parts.version}`;
+  if (!PLATFORM_PATTERN.test(parts.platform)) return `Invalid platform: ${parts.platform}`;
+  if (!ARCH_PATTERN.test(parts.arch)) return `Invalid arch: ${parts.arch}`;
+  if (!FILENAME_PATTERN.test(parts.filename) || parts.filename === '.' || parts.filename === '..') {
+    return `Invalid filename: ${parts.filename}`;
+  }
+  return null;
+}
+
+export function isValidProduct(product: string): boolean {
+  return PRODUCT_PATTERN.test(product);
+}
+
+export function isValidVersion(version: string): boolean {
+  return VERSION_PATTERN.test(version);
+}
+
+/**
+ * Split a `{platform}-{arch}` path segment. Platforms never contain a dash,
+ * so everything after the first one is the architecture.
+ */
+export function splitPlatformArch(segment: string): { platform: string; arch: string } {
+  const index = segment.indexOf('-');
+  if (index === -1) return { platform: segment, arch: '' };
+  return { platform: segment.slice(0, index), arch: segment.slice(index + 1) };
+}
+
+export function buildReleaseKey(parts: ReleaseKeyParts): string {
+  return `${parts.product}/${parts.version}/${parts.platform}-${parts.arch}/${parts.filename}`;
+}
+
+/**
+ * Maximum accepted artifact size in bytes, from MAX_FILE_SIZE_GB
+ */
+export function maxFileSizeBytes(env: Env): number {
+  const gb = parseFloat(env.MAX_FILE_SIZE_GB);
+  return (Number.isFinite(gb) && gb > 0 ? gb : 2) * 1024 * 1024 * 1024;
+}
+
+/**
+ * Format file size in human-readable format
+ */
+export function formatFileSize(bytes: number): string {
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  if (bytes === 0) return '0 B';
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+}
@@ -0,0 +1,424 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { cacheControl, getHiddenProducts } from './access';
+import { parseSha256, toHex } from './checksums';
+import { escapeHtml } from './markdown';
+import { isPrimaryFile, listPackages } from './packages';
+import type { PackageRecord, RpmDependency, RpmMetadata } from './packages';
+import { exportPublicKey, isPackageSigningConfigured, signCleartext, signDetached } from './pgp';
+import { listReleases } from './release-index';
+import { isReleaseChannel } from './releases';
+import type { AppEnv, ReleaseChannel, ReleaseFile } from './types';
+
+const repositories = new Hono<AppEnv>();
+
+// Always listed so `apt update` finds an index on these machines even before
+// a package for them is uploaded; packages for other architectures add theirs
+const DEB_ARCHITECTURES = ['amd64', 'arm64', 'armhf', 'i386'];
+const APT_COMPONENT = 'main';
+const YUM_METADATA = ['primary', 'filelists', 'other'] as const;
+
+// Clients revalidate indexes so new uploads show up on the next update
+const INDEX_CACHE = 'no-cache';
+
+const NOT_CONFIGURED = 'Repository signing is not configured (PACKAGE_SIGNING_KEY is not set)';
+
+const encoder = new TextEncoder();
+
+/**
+ * A package artifact of the channel together with its stored metadata
+ */
+type RepositoryPackage<F extends PackageRecord['format']> = {
+  release: ReleaseFile;
+  sha256: string;
+  package: Extract<PackageRecord, { format: F }>;
+};
+
+interface IndexFile {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * A gzipped YUM metadata file; repomd.xml lists checksums of both the
+ * compressed and the open file
+ */
+interface YumMetadataFile extends IndexFile {
+  type: typeof YUM_METADATA[number];
+  data: Uint8Array<ArrayBuffer>;
+  open: IndexFile;
+}
+
+/**
+ * GET /apt/key.gpg - The repository signing key as a binary keyring, for
+ * /etc/apt/keyrings
+ */
+repositories.get('/apt/key.gpg', async (c) => {
+  const key = await exportPublicKey(c.env, false);
+  if (!key) {
+    return c.json({ success: false, error: NOT_CONFIGURED }, 404);
+  }
+  return c.body(key, 200, { 'Content-Type': 'application/pgp-keys', 'Cache-Control': 'public, max-age=3600' });
+});
+
+/**
+ * GET /apt/dists/:suite/:file - Release, InRelease and Release.gpg of a
+ * channel's APT repository
+ */
+repositories.get('/apt/dists/:suite/:file', async (c) => {
+  const suite = c.req.param('suite');
+  const file = c.req.param('file');
+  if (!isReleaseChannel(suite) || !['Release', 'InRelease', 'Release.gpg'].includes(file)) {
+    return c.json({ success: false, error: 'Not found' }, 404);
+  }
+  try {
+    const packages = await listDebPackages(c, suite);
+    const indexes = await buildAptIndexes(packages);
+    const release = renderAptRelease(suite, packages, indexes);
+
+    if (file === 'Release') {
+      return c.body(release, 200, textHeaders(c));
+    }
+    const signed = file === 'InRelease' ? await signCleartext(c.env, release) : await signDetached(c.env, release);
+    if (signed === null) {
+      return c.json({ success: false, error: NOT_CONFIGURED }, 404);
+    }
+    return c.body(signed, 200, textHeaders(c));
+  } catch (error) {
+    console.error('Error generating APT release file:', error);
+    return c.json({ success: false, error: 'Failed to generate APT release file' }, 500);
+  }
+});
+
+/**
+ * GET /apt/dists/:suite/main/:binary/:file - Packages and Packages.gz of one
+ * architecture, e.g. /apt/dists/stable/main/binary-amd64/Packages.gz
+ */
+repositories.get(`/apt/dists/:suite/${APT_COMPONENT}/:binary/:file`, async (c) => {
+  const { suite, binary, file } = c.req.param();
+  if (!isReleaseChannel(suite) || !binary.startsWith('binary-') || !['Packages', 'Packages.gz'].includes(file)) {
+    return c.json({ success: false, error: 'Not found' }, 404);
+  }
+
+  try {
+    const packages = await listDebPackages(c, suite);
+    const index = renderAptPackages(packages, binary.slice('binary-'.length));
+
+    if (file === 'Packages.gz') {
+      return c.body(await gzip(index), 200, { 'Content-Type': 'application/gzip', 'Cache-Control': cacheControl(c, INDEX_CACHE) });
+    }
+    return c.body(index, 200, textHeaders(c));
+  } catch (error) {
+    console.error('Error generating APT package index:', error);
+    return c.json({ success: false, error: 'Failed to generate APT package index' }, 500);
+  }
+});
+
+/**
+ * GET /apt/pool/* - Redirects to the package's download, which checks
+ * access and counts it like any other
+ */
+repositories.get('/apt/pool/*', (c) => {
+  let key: string;
+  try {
+    key = decodeURIComponent(c.req.path.substring('/apt/pool/'.length));
+  } catch {
+    // A malformed escape can't name any artifact
+    return c.json({ success: false, error: 'File not found' }, 404);
+  }
+  const { origin } = new URL(c.req.url);
+  return c.redirect(`${origin}/download/${encodeURIComponent(key)}`, 302);
+});
+
+/**
+ * GET /yum/key.asc - The repository signing key, ASCII-armored, for gpgkey=
+ */
+repositories.get('/yum/key.asc', async (c) => {
+  const key = await exportPublicKey(c.env, true);
+  if (!key) {
+    return c.json({ success: false, error: NOT_CONFIGURED }, 404);
+  }
+  return c.body(key, 200, { 'Content-Type': 'application/pgp-keys', 'Cache-Control': 'public, max-age=3600' });
+});
+
+/**
+ * GET /yum/:channel/cogix.repo - A .repo file for /etc/yum.repos.d
+ */
+repositories.get('/yum/:channel/cogix.repo', (c) => {
+  const channel = c.req.param('channel');
+  if (!isReleaseChannel(channel)) {
+    return c.json({ success: false, error: `Invalid channel: ${channel}` }, 404);
+  }
+
+  const { origin } = new URL(c.req.url);
+  const signed = isPackageSigningConfigured(c.env);
+  const lines = [
+    `[cogix-${channel}]`,
+    `name=Cogix (${channel})`,
+    `baseurl=${origin}/yum/${channel}`,
+    'enabled=1',
+    // The packages themselves aren't signed by the worker; the metadata listing their checksums is
+    'gpgcheck=0',
+    `repo_gpgcheck=${signed ? 1 : 0}`,
+    ...(signed ? [`gpgkey=${origin}/yum/key.asc`] : []),
+    'metadata_expire=300',
+  ];
+  return c.body(lines.join('\n') + '\n', 200, { 'Content-Type': 'text/plain; charset=utf-8' });
+});
+
+/**
+ * GET /yum/:channel/repodata/:file - repomd.xml, repomd.xml.asc and the
+ * primary, filelists and other metadata of a channel's YUM repository
+ */
+repositories.get('/yum/:channel/repodata/:file', async (c) => {
+  const { channel, file } = c.req.param();
+  if (!isReleaseChannel(channel)) {
+    return c.json({ success: false, error: 'Not found' }, 404);
+  }
+
+  try {
+    const packages = await listRpmPackages(c, channel);
+    const metadata = await buildYumMetadata(c, packages);
+
+    const requested = metadata.find((entry) => entry.path === file);
+    if (requested) {
+      return c.body(requested.data, 200, { 'Content-Type': 'application/gzip', 'Cache-Control': cacheControl(c, INDEX_CACHE) });
+    }
+
+    const xmlHeaders = { 'Content-Type': 'application/xml; charset=utf-8', 'Cache-Control': cacheControl(c, INDEX_CACHE) };
+    const repomd = renderRepomd(packages, metadata);
+    if (file === 'repomd.xml') {
+      return c.body(repomd, 200, xmlHeaders);
+    }
+    if (file === 'repomd.xml.asc') {
+      const signature = await signDetached(c.env, repomd);
+      if (signature === null) {
+        return c.json({ success: false, error: NOT_CONFIGURED }, 404);
+      }
+      return c.body(signature, 200, textHeaders(c));
+    }
+    return c.json({ success: false, error: 'Not found' }, 404);
+  } catch (error) {
+    console.error('Error generating YUM metadata:', error);
+    return c.json({ success: false, error: 'Failed to generate YUM metadata' }, 500);
+  }
+});
+
+/**
+ * Packages of the channel the caller may see, newest upload first. Artifacts
+ * without package metadata or a SHA-256 checksum are left out: both indexes
+ * need the checksum.
+ */
+async function listChannelPackages(c: Context<AppEnv>, channel: ReleaseChannel) {
+  const [releases, packages] = await Promise.all([
+    listReleases(c.env, { platform: 'linux', channel, excludeProducts: await getHiddenProducts(c) }),
+    listPackages(c.env),
+  ]);
+  return releases.flatMap((release) => {
+    const stored = packages.get(release.key);
+    const sha256 = parseSha256(release.metadata.checksum);
+    return stored && sha256 ? [{ release, sha256, package: stored }] : [];
+  });
+}
+
+async function listDebPackages(c: Context<AppEnv>, channel: ReleaseChannel): Promise<RepositoryPackage<'deb'>[]> {
+  return (await listChannelPackages(c, channel))
+    .filter((entry): entry is RepositoryPackage<'deb'> => entry.package.format === 'deb');
+}
+
+async function listRpmPackages(c: Context<AppEnv>, channel: ReleaseChannel): Promise<RepositoryPackage<'rpm'>[]> {
+  return (await listChannelPackages(c, channel))
+    .filter((entry): entry is RepositoryPackage<'rpm'> => entry.package.format === 'rpm');
+}
+
+function getDebArchitectures(packages: RepositoryPackage<'deb'>[]): string[] {
+  const seen = packages.map((entry) => entry.package.arch).filter((arch) => arch !== 'all');
+  return [...new Set([...DEB_ARCHITECTURES, ...seen])].sort();
+}
+
+/**
+ * The Packages index of one architecture; `Architecture: all` packages are
+ * listed under every architecture
+ */
+function renderAptPackages(packages: RepositoryPackage<'deb'>[], arch: string): string {
+  return packages
+    .filter((entry) => entry.package.arch === arch || entry.package.arch === 'all')
+    .map(({ release, sha256, package: deb }) => [
+      deb.metadata.control,
+      `Filename: pool/${release.key}`,
+      `Size: ${release.size}`,
+      `SHA256: ${sha256}`,
+    ].join('\n') + '\n')
+    .join('\n');
+}
+
+async function buildAptIndexes(packages: RepositoryPackage<'deb'>[]): Promise<IndexFile[]> {
+  const indexes: IndexFile[] = [];
+  for (const arch of getDebArchitectures(packages)) {
+    const text = encoder.encode(renderAptPackages(packages, arch));
+    const path = `${APT_COMPONENT}/binary-${arch}/Packages`;
+    indexes.push(await toIndexFile(path, text), await toIndexFile(`${path}.gz`, await gzip(text)));
+  }
+  return indexes;
+}
+
+function renderAptRelease(suite: ReleaseChannel, packages: RepositoryPackage<'deb'>[], indexes: IndexFile[]): string {
+  const date = packages.length ? packages[0].release.uploaded : new Date(0);
+  const width = Math.max(...indexes.map((index) => String(index.size).length));
+  return [
+    'Origin: Cogix',
+    'Label: Cogix',
+    `Suite: ${suite}`,
+    `Codename: ${suite}`,
+    `Date: ${date.toUTCString()}`,
+    `Architectures: ${getDebArchitectures(packages).join(' ')}`,
+    `Components: ${APT_COMPONENT}`,
+    `Description: Cogix ${suite} packages`,
+    'SHA256:',
+    ...indexes.map((index) => ` ${index.sha256} ${String(index.size).padStart(width)} ${index.path}`),
+  ].join('\n') + '\n';
+}
+
+async function buildYumMetadata(c: Context<AppEnv>, packages: RepositoryPackage<'rpm'>[]): Promise<YumMetadataFile[]> {
+  const { origin } = new URL(c.req.url);
+  const renderers = {
+    primary: () => renderPrimary(origin, packages),
+    filelists: () => renderFilelists(packages),
+    other: () => renderOther(packages),
+  };
+
+  const metadata: YumMetadataFile[] = [];
+  for (const type of YUM_METADATA) {
+    const text = encoder.encode(renderers[type]());
+    const data = await gzip(text);
+    metadata.push({ ...await toIndexFile(`${type}.xml.gz`, data), type, data, open: await toIndexFile(`${type}.xml`, text) });
+  }
+  return metadata;
+}
+
+function renderRepomd(
+  packages: RepositoryPackage<'rpm'>[],
+  metadata: YumMetadataFile[],
+): string {
+  const timestamp = Math.floor((packages[0]?.release.uploaded.getTime() ?? 0) / 1000);
+  const data = metadata.map((entry) => `
+  <data type="${entry.type}">
+    <checksum type="sha256">${entry.sha256}</checksum>
+    <open-checksum type="sha256">${entry.open.sha256}</open-checksum>
+    <location href="repodata/${entry.path}"/>
+    <timestamp>${timestamp}</timestamp>
+    <size>${entry.size}</size>
+    <open-size>${entry.open.size}</open-size>
+  </data>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<repomd xmlns="http://linux.duke.edu/metadata/repo" xmlns:rpm="http://linux.duke.edu/metadata/rpm">
+  <revision>${timestamp}</revision>${data}
+</repomd>
+`;
+}
+
+function renderPrimary(origin: string, packages: RepositoryPackage<'rpm'>[]): string {
+  const entries = packages.map(({ release, sha256, package: rpm }) => {
+    const { metadata } = rpm;
+    const files = metadata.files.filter((file) => isPrimaryFile(file.path));
+    return `
+<package type="rpm">
+  <name>${escapeHtml(rpm.name)}</name>
+  <arch>${escapeHtml(rpm.arch)}</arch>
+  ${renderVersion(rpm, metadata)}
+  <checksum type="sha256" pkgid="YES">${sha256}</checksum>
+  <summary>${escapeHtml(metadata.summary)}</summary>
+  <description>${escapeHtml(metadata.description)}</description>
+  <packager>${escapeHtml(metadata.packager)}</packager>
+  <url>${escapeHtml(metadata.url)}</url>
+  <time file="${Math.floor(release.uploaded.getTime() / 1000)}" build="${metadata.buildTime}"/>
+  <size package="${release.size}" installed="${metadata.installedSize}" archive="${metadata.archiveSize}"/>
+  <location xml:base="${escapeHtml(`${origin}/download/`)}" href="${escapeHtml(release.key.split('/').map(encodeURIComponent).join('/'))}"/>
+  <format>
+    <rpm:license>${escapeHtml(metadata.license)}</rpm:license>
+    <rpm:vendor>${escapeHtml(metadata.vendor)}</rpm:vendor>
+    <rpm:group>${escapeHtml(metadata.group)}</rpm:group>
+    <rpm:buildhost>${escapeHtml(metadata.buildHost)}</rpm:buildhost>
+    <rpm:sourcerpm>${escapeHtml(metadata.sourceRpm)}</rpm:sourcerpm>
+    <rpm:header-range start="${metadata.headerStart}" end="${metadata.headerEnd}"/>${
+      renderDependencies('provides', metadata.provides)}${
+      renderDependencies('requires', metadata.requires)}${
+      renderDependencies('conflicts', metadata.conflicts)}${
+      renderDependencies('obsoletes', metadata.obsoletes)}${
+      files.map((file) => `\n    ${renderFile(file.path, file.dir)}`).join('')}
+  </format>
+</package>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<metadata xmlns="http://linux.duke.edu/metadata/common" xmlns:rpm="http://linux.duke.edu/metadata/rpm" packages="${packages.length}">${entries}
+</metadata>
+`;
+}
+
+function renderFilelists(packages: RepositoryPackage<'rpm'>[]): string {
+  const entries = packages.map(({ sha256, package: rpm }) => `
+<package pkgid="${sha256}" name="${escapeHtml(rpm.name)}" arch="${escapeHtml(rpm.arch)}">
+  ${renderVersion(rpm, rpm.metadata)}${rpm.metadata.files.map((file) => `\n  ${renderFile(file.path, file.dir)}`).join('')}
+</package>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<filelists xmlns="http://linux.duke.edu/metadata/filelists" packages="${packages.length}">${entries}
+</filelists>
+`;
+}
+
+/**
+ * other.xml carries changelogs, which the worker doesn't read; it lists the packages only
+ */
+function renderOther(packages: RepositoryPackage<'rpm'>[]): string {
+  const entries = packages.map(({ sha256, package: rpm }) => `
+<package pkgid="${sha256}" name="${escapeHtml(rpm.name)}" arch="${escapeHtml(rpm.arch)}">
+  ${renderVersion(rpm, rpm.metadata)}
+</package>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<otherdata xmlns="http://linux.duke.edu/metadata/other" packages="${packages.length}">${entries}
+</otherdata>
+`;
+}
+
+function renderVersion(rpm: PackageRecord, metadata: RpmMetadata): string {
+  return `<version epoch="${escapeHtml(metadata.epoch)}" ver="${escapeHtml(rpm.version)}" rel="${escapeHtml(metadata.release)}"/>`;
+}
+
+function renderDependencies(type: string, dependencies: RpmDependency[]): string {
+  if (!dependencies.length) return '';
+  const entries = dependencies.map((dependency) => {
+    const attributes = Object.entries(dependency)
+      .map(([name, value]) => ` ${name === 'version' ? 'ver' : name === 'release' ? 'rel' : name}="${escapeHtml(value)}"`)
+      .join('');
+    return `\n      <rpm:entry${attributes}/>`;
+  }).join('');
+  return `\n    <rpm:${type}>${entries}\n    </rpm:${type}>`;
+}
+
+function renderFile(path: string, dir?: boolean): string {
+  return `<file${dir ? ' type="dir"' : ''}>${escapeHtml(path)}</file>`;
+}
+
+async function toIndexFile(path: string, data: Uint8Array): Promise<IndexFile> {
+  return { path, size: data.length, sha256: toHex(await crypto.subtle.digest('SHA-256', data)) };
+}
+
+/**
+ * Gzip the data. The output only depends on the input, so the checksums in
+ * Release and repomd.xml match the files served by later requests.
+ */
+async function gzip(data: string | Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function textHeaders(c: Context<AppEnv>): Record<string, string> {
+  return { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': cacheControl(c, INDEX_CACHE) };
+}
+
+export default repositories;
@@ -0,0 +1,460 @@
+import { Hono } from 'hono';
+import { recordAudit, recordSystemAudit } from './audit';
+import { requireAuth } from './auth';
+import { deleteReleaseNotes } from './notes';
+import { getProduct } from './products';
+import { deleteReleases, listReleases } from './release-index';
+import { groupByVersion } from './releases';
+import type { AppEnv, Env, ReleaseChannel, ReleaseFile } from './types';
+import { dispatchWebhooks } from './webhooks';
+
+const retention = new Hono<AppEnv>();
+
+// Stable releases are never pruned, so rules only cover the prerelease channels
+const PRUNABLE_CHANNELS: readonly ReleaseChannel[] = ['beta', 'nightly'];
+
+const DAY_MS = 86_400_000;
+
+/**
+ * How long the versions of a product's prerelease channel are kept. A version
+ * is pruned once it is outside the newest keepVersions and older than keepDays;
+ * a rule with one of the two only applies that one.
+ */
+export interface RetentionRule {
+  id: string;
+  /** Product the rule covers; absent for every product */
+  product?: string;
+  /** Channel the rule covers; absent for every prunable channel */
+  channel?: ReleaseChannel;
+  keepVersions?: number;
+  keepDays?: number;
+  createdAt: string;
+}
+
+export interface PinnedVersion {
+  product: string;
+  version: string;
+  pinnedAt: string;
+}
+
+/**
+ * A version the retention rules would delete
+ */
+export interface PrunableVersion {
+  product: string;
+  version: string;
+  channel: ReleaseChannel;
+  /** Latest upload of the version */
+  uploaded: string;
+  /** The rule that prunes it */
+  ruleId: string;
+  keys: string[];
+  size: number;
+}
+
+interface PlannedPrune extends PrunableVersion {
+  artifacts: ReleaseFile[];
+}
+
+interface RuleRow {
+  id: string;
+  product: string | null;
+  channel: ReleaseChannel | null;
+  keep_versions: number | null;
+  keep_days: number | null;
+  created_at: string;
+}
+
+interface PinRow {
+  product: string;
+  version: string;
+  pinned_at: string;
+}
+
+type RuleFields = {
+  product?: string | null;
+  channel?: ReleaseChannel | null;
+  keepVersions?: number | null;
+  keepDays?: number | null;
+};
+
+/**
+ * GET /api/admin/retention/rules - Lists retention rules
+ */
+retention.get('/api/admin/retention/rules', requireAuth, async (c) => {
+  try {
+    const rules = await listRules(c.env);
+    return c.json({ success: true, count: rules.length, rules });
+  } catch (error) {
+    console.error('Error listing retention rules:', error);
+    return c.json({ success: false, error: 'Failed to list retention rules' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/retention/rules - Adds a retention rule for a product, a channel, or both
+ */
+retention.post('/api/admin/retention/rules', requireAuth, async (c) => {
+  try {
+    const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+    if (!body) {
+      return c.json({ success: false, error: 'Request body must be a JSON object' }, 400);
+    }
+
+    const fields = parseRuleFields(body);
+    if (typeof fields === 'string') {
+      return c.json({ success: false, error: fields }, 400);
+    }
+    if (fields.product && !(await getProduct(c.env, fields.product))) {
+      return c.json({ success: false, error: `Unknown product: ${fields.product}` }, 400);
+    }
+
+    const rule: RetentionRule = {
+      id: crypto.randomUUID(),
+      product: fields.product ?? undefined,
+      channel: fields.channel ?? undefined,
+      keepVersions: fields.keepVersions ?? undefined,
+      keepDays: fields.keepDays ?? undefined,
+      createdAt: new Date().toISOString(),
+    };
+    const invalid = validateRule(rule);
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400);
+    }
+
+    const existing = await c.env.DB
+      .prepare(`SELECT id FROM retention_rules WHERE COALESCE(product, '') = ? AND COALESCE(channel, '') = ?`)
+      .bind(rule.product ?? '', rule.channel ?? '')
+      .first<{ id: string }>();
+    if (existing) {
+      return c.json({ success: false, error: `A rule for this product and channel already exists: ${existing.id}` }, 409);
+    }
+
+    await c.env.DB.prepare(
+      `INSERT INTO retention_rules (id, product, channel, keep_versions, keep_days, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    ).bind(
+      rule.id,
+      rule.product ?? null,
+      rule.channel ?? null,
+      rule.keepVersions ?? null,
+      rule.keepDays ?? null,
+      rule.createdAt,
+    ).run();
+
+    await recordAudit(c, 'retention.create', { product: rule.product }, { ...rule });
+    return c.json({ success: true, rule }, 201);
+  } catch (error) {
+    console.error('Error creating retention rule:', error);
+    return c.json({ success: false, error: 'Failed to create retention rule' }, 500);
+  }
+});
+
+/**
+ * PATCH /api/admin/retention/rules/:id - Changes how many versions or days a rule keeps
+ */
+retention.patch('/api/admin/retention/rules/:id', requireAuth, async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+    if (!body) {
+      return c.json({ success: false, error: 'Request body must be a JSON object' }, 400);
+    }
+
+    const fields = parseRuleFields(body);
+    if (typeof fields === 'string') {
+      return c.json({ success: false, error: fields }, 400);
+    }
+    if (fields.product !== undefined || fields.channel !== undefined) {
+      return c.json({ success: false, error: 'product and channel can\'t be changed; add a new rule instead' }, 400);
+    }
+    if (Object.keys(fields).length === 0) {
+      return c.json({ success: false, error: 'Nothing to update (editable fields: keepVersions, keepDays)' }, 400);
+    }
+
+    const row = await c.env.DB.prepare('SELECT * FROM retention_rules WHERE id = ?').bind(id).first<RuleRow>();
+    if (!row) {
+      return c.json({ success: false, error: `Retention rule not found: ${id}` }, 404);
+    }
+
+    const rule = fromRuleRow(row);
+    if (fields.keepVersions !== undefined) rule.keepVersions = fields.keepVersions ?? undefined;
+    if (fields.keepDays !== undefined) rule.keepDays = fields.keepDays ?? undefined;
+    const invalid = validateRule(rule);
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400);
+    }
+
+    await c.env.DB
+      .prepare('UPDATE retention_rules SET keep_versions = ?, keep_days = ? WHERE id = ?')
+      .bind(rule.keepVersions ?? null, rule.keepDays ?? null, id)
+      .run();
+
+    await recordAudit(c, 'retention.update', { product: rule.product }, { id, ...body });
+    return c.json({ success: true, rule });
+  } catch (error) {
+    console.error('Error updating retention rule:', error);
+    return c.json({ success: false, error: 'Failed to update retention rule' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/retention/rules/:id - Removes a retention rule
+ */
+retention.delete('/api/admin/retention/rules/:id', requireAuth, async (c) => {
+  try {
+    const id = c.req.param('id');
+    const row = await c.env.DB
+      .prepare('DELETE FROM retention_rules WHERE id = ? RETURNING *')
+      .bind(id)
+      .first<RuleRow>();
+    if (!row) {
+      return c.json({ success: false, error: `Retention rule not found: ${id}` }, 404);
+    }
+
+    await recordAudit(c, 'retention.delete', { product: row.product ?? undefined }, { id });
+    return c.json({ success: true, id });
+  } catch (error) {
+    console.error('Error deleting retention rule:', error);
+    return c.json({ success: false, error: 'Failed to delete retention rule' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/retention/preview - Dry run: the versions the scheduled prune
+ * would delete now, and the bytes it would reclaim
+ */
+retention.get('/api/admin/retention/preview', requireAuth, async (c) => {
+  try {
+    const planned = await planRetention(c.env, c.req.query('product') || undefined);
+    // Keys and sizes are enough to review; the full releases are for the webhooks
+    const versions = planned.map(({ artifacts, ...version }) => version);
+
+    return c.json({
+      success: true,
+      count: versions.length,
+      artifacts: versions.reduce((sum, version) => sum + version.keys.length, 0),
+      bytes: versions.reduce((sum, version) => sum + version.size, 0),
+      versions,
+    });
+  } catch (error) {
+    console.error('Error previewing retention:', error);
+    return c.json({ success: false, error: 'Failed to preview retention' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/retention/pins - Lists pinned versions
+ */
+retention.get('/api/admin/retention/pins', requireAuth, async (c) => {
+  try {
+    const pins = await listPins(c.env);
+    return c.json({ success: true, count: pins.length, pins });
+  } catch (error) {
+    console.error('Error listing pinned versions:', error);
+    return c.json({ success: false, error: 'Failed to list pinned versions' }, 500);
+  }
+});
+
+/**
+ * POST /api/releases/:product/:version/pin - Exempts a version from retention
+ */
+retention.post('/api/releases/:product/:version/pin', requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+    const artifacts = await listReleases(c.env, { product, version, includeYanked: true });
+    if (artifacts.length === 0) {
+      return c.json({ success: false, error: `No releases found for ${product} ${version}` }, 404);
+    }
+
+    await c.env.DB
+      .prepare('INSERT OR IGNORE INTO pinned_versions (product, version, pinned_at) VALUES (?, ?, ?)')
+      .bind(product, version, new Date().toISOString())
+      .run();
+
+    await recordAudit(c, 'release.pin', { product, version });
+    return c.json({ success: true, product, version, pinned: true });
+  } catch (error) {
+    console.error('Error pinning release:', error);
+    return c.json({ success: false, error: 'Failed to pin release' }, 500);
+  }
+});
+
+/**
+ * POST /api/releases/:product/:version/unpin - Lets retention prune a version again
+ */
+retention.post('/api/releases/:product/:version/unpin', requireAuth, async (c) => {
+  try {
+    const product = c.req.param('product');
+    const version = c.req.param('version');
+    const result = await c.env.DB
+      .prepare('DELETE FROM pinned_versions WHERE product = ? AND version = ?')
+      .bind(product, version)
+      .run();
+    if (result.meta.changes === 0) {
+      return c.json({ success: false, error: `${product} ${version} is not pinned` }, 404);
+    }
+
+    await recordAudit(c, 'release.unpin', { product, version });
+    return c.json({ success: true, product, version, pinned: false });
+  } catch (error) {
+    console.error('Error unpinning release:', error);
+    return c.json({ success: false, error: 'Failed to unpin release' }, 500);
+  }
+});
+
+/**
+ * Delete every version the retention rules prune, with its release notes, as
+ * DELETE /api/releases/:product/:version does. Run by the Cron Trigger; a
+ * version that fails to delete is logged and retried on the next run.
+ */
+export async function applyRetention(env: Env): Promise<PrunableVersion[]> {
+  const pruned: PrunableVersion[] = [];
+  for (const { artifacts, ...version } of await planRetention(env)) {
+    try {
+      await deleteReleases(env, version.keys);
+      await deleteReleaseNotes(env, version.product, version.version);
+      await recordSystemAudit(env, 'release.prune', { product: version.product, version: version.version }, {
+        keys: version.keys,
+        size: version.size,
+        rule: version.ruleId,
+      });
+      await dispatchWebhooks(env, 'release.deleted', artifacts);
+      pruned.push(version);
+    } catch (error) {
+      console.error(`Error pruning ${version.product} ${version.version}:`, error);
+    }
+  }
+  return pruned;
+}
+
+/**
+ * The versions the rules prune now. Each product's channel follows its most
+ * specific rule. The newest version of a channel, pinned versions and
+ * versions with a stable artifact are always kept.
+ */
+async function planRetention(env: Env, product?: string): Promise<PlannedPrune[]> {
+  const rules = await listRules(env);
+  if (rules.length === 0) return [];
+
+  const [releases, pins] = await Promise.all([
+    listReleases(env, { product, includeYanked: true }),
+    listPins(env),
+  ]);
+  const pinned = new Set(pins.map((pin) => `${pin.product}/${pin.version}`));
+  const now = Date.now();
+  const planned: PlannedPrune[] = [];
+
+  for (const { product: name, versions } of groupByVersion(releases, 'semver')) {
+    for (const channel of PRUNABLE_CHANNELS) {
+      const rule = findRule(rules, name, channel);
+      if (!rule) continue;
+
+      // Newest first, so everything past the kept count is a candidate
+      const candidates = versions
+        .filter((group) => group.channel === channel)
+        .slice(Math.max(rule.keepVersions ?? 0, 1));
+      for (const group of candidates) {
+        if (rule.keepDays !== undefined && now - group.uploaded.getTime() < rule.keepDays * DAY_MS) continue;
+        if (pinned.has(`${name}/${group.version}`)) continue;
+        if (group.artifacts.some((release) => release.metadata.channel === 'stable')) continue;
+
+        planned.push({
+          product: name,
+          version: group.version,
+          channel,
+          uploaded: group.uploaded.toISOString(),
+          ruleId: rule.id,
+          keys: group.artifacts.map((release) => release.key),
+          size: group.artifacts.reduce((sum, release) => sum + release.size, 0),
+          artifacts: group.artifacts,
+        });
+      }
+    }
+  }
+
+  return planned;
+}
+
+/**
+ * The rule for a product's channel: product and channel, then product, then
+ * channel, then the rule for everything
+ */
+function findRule(rules: RetentionRule[], product: string, channel: ReleaseChannel): RetentionRule | undefined {
+  return rules.find((rule) => rule.product === product && rule.channel === channel)
+    ?? rules.find((rule) => rule.product === product && rule.channel === undefined)
+    ?? rules.find((rule) => rule.product === undefined && rule.channel === channel)
+    ?? rules.find((rule) => rule.product === undefined && rule.channel === undefined);
+}
+
+async function listRules(env: Env): Promise<RetentionRule[]> {
+  const { results } = await env.DB
+    .prepare('SELECT * FROM retention_rules ORDER BY created_at')
+    .all<RuleRow>();
+  return results.map(fromRuleRow);
+}
+
+async function listPins(env: Env): Promise<PinnedVersion[]> {
+  const { results } = await env.DB
+    .prepare('SELECT * FROM pinned_versions ORDER BY product, pinned_at DESC')
+    .all<PinRow>();
+  return results.map((row) => ({ product: row.product, version: row.version, pinnedAt: row.pinned_at }));
+}
+
+/**
+ * Validate the fields of a create or update body. Only the fields present
+ * are returned. Returns an error message on invalid input.
+ */
+function parseRuleFields(body: Record<string, unknown>): RuleFields | string {
+  const fields: RuleFields = {};
+
+  for (const [field, value] of Object.entries(body)) {
+    switch (field) {
+      case 'product':
+        if (value !== null && (typeof value !== 'string' || value === '')) {
+          return 'product must be a product name, or null for every product';
+        }
+        fields.product = value;
+        break;
+      case 'channel':
+        if (value === 'stable') return 'Stable releases are never pruned';
+        if (value !== null && !(PRUNABLE_CHANNELS as readonly unknown[]).includes(value)) {
+          return `Invalid channel: ${value} (expected one of ${PRUNABLE_CHANNELS.join(', ')}, or null for both)`;
+        }
+        fields.channel = value as ReleaseChannel | null;
+        break;
+      case 'keepVersions':
+      case 'keepDays':
+        if (value !== null && (!Number.isInteger(value) || (value as number) < 1)) {
+          return `${field} must be a positive integer, or null`;
+        }
+        fields[field] = value as number | null;
+        break;
+      default:
+        return `Unknown field: ${field}`;
+    }
+  }
+
+  return fields;
+}
+
+function validateRule(rule: RetentionRule): string | null {
+  if (rule.keepVersions === undefined && rule.keepDays === undefined) {
+    return 'A rule needs keepVersions, keepDays, or both';
+  }
+  return null;
+}
+
+function fromRuleRow(row: RuleRow): RetentionRule {
+  return {
+    id: row.id,
+    product: row.product ?? undefined,
+    channel: row.channel ?? undefined,
+    keepVersions: row.keep_versions ?? undefined,
+    keepDays: row.keep_days ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export default retention;
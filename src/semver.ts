@@ -0,0 +1,190 @@
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+  build: string[];
+}
+
+const SEMVER_PATTERN = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+/**
+ * Parse a semantic version (an optional leading "v" is allowed).
+ * Returns null for anything that isn't semver.
+ */
+export function parseSemver(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4]
+      ? match[4].split('.').map((id) => (/^\d+$/.test(id) ? Number(id) : id))
+      : [],
+    build: match[5] ? match[5].split('.') : [],
+  };
+}
+
+/**
+ * Compare two parsed versions by semver precedence (build metadata is ignored)
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  if (a.major !== b.major) return a.major - b.major;
+  if (a.minor !== b.minor) return a.minor - b.minor;
+  if (a.patch !== b.patch) return a.patch - b.patch;
+
+  // A version without a pre-release tag ranks above one with a tag
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+
+  const length = Math.max(a.prerelease.length, b.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    if (left === right) continue;
+    if (typeof left === 'number' && typeof right === 'number') return left - right;
+    if (typeof left === 'number') return -1;
+    if (typeof right === 'number') return 1;
+    return left < right ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Compare two version strings. Valid semver sorts above invalid versions,
+ * which fall back to string comparison among themselves.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseSemver(a);
+  const right = parseSemver(b);
+  if (left && right) return compareSemver(left, right);
+  if (left) return 1;
+  if (right) return -1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function isPrerelease(version: SemVer): boolean {
+  return version.prerelease.length > 0;
+}
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemVer;
+}
+
+/**
+ * A parsed version range: a version satisfies it when it satisfies every
+ * comparator of any one set (sets are separated by `||`)
+ */
+export type SemverRange = Comparator[][];
+
+const COMPARATOR_PATTERN = /^(<=|>=|<|>|=|\^|~)?v?(\d+|[xX*])?(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+/**
+ * Parse an npm-style version range: exact versions, partials (`1.2`, `1.x`,
+ * `*`), `^` and `~` ranges and `<`, `<=`, `>`, `>=` comparators, combined
+ * with spaces (and) and `||` (or). Returns null when the range is invalid.
+ */
+export function parseRange(range: string): SemverRange | null {
+  const sets: SemverRange = [];
+
+  for (const part of range.split('||')) {
+    // Operators may be written apart from their version: ">= 1.2"
+    const tokens = part.trim().replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    const comparators: Comparator[] = [];
+    for (const token of tokens) {
+      const expanded = parseComparator(token);
+      if (!expanded) return null;
+      comparators.push(...expanded);
+    }
+    sets.push(comparators);
+  }
+
+  return sets;
+}
+
+/**
+ * Whether a version is in the range. As in npm, a pre-release only matches
+ * a comparator set that names a pre-release of the same major.minor.patch,
+ * so `^1.2` doesn't pull in `1.3.0-beta.1`.
+ */
+export function satisfiesRange(version: SemVer, range: SemverRange): boolean {
+  return range.some((comparators) =>
+    comparators.every((comparator) => testComparator(version, comparator)) &&
+    (!isPrerelease(version) || comparators.some(({ version: bound }) =>
+      isPrerelease(bound) &&
+      bound.major === version.major &&
+      bound.minor === version.minor &&
+      bound.patch === version.patch)));
+}
+
+/**
+ * Expand one range token into the comparators it stands for, e.g.
+ * `^1.2` into `>=1.2.0 <2.0.0`
+ */
+function parseComparator(token: string): Comparator[] | null {
+  const match = COMPARATOR_PATTERN.exec(token);
+  if (!match) return null;
+
+  const operator = match[1] ?? '';
+  // Everything after the first wildcard is a wildcard too
+  const parts = [match[2], match[3], match[4]];
+  const wildcard = parts.findIndex((part) => part === undefined || /^[xX*]$/.test(part));
+  const [major, minor = 0, patch = 0] = parts.slice(0, wildcard === -1 ? 3 : wildcard).map(Number);
+  const given = wildcard === -1 ? 3 : wildcard;
+
+  if (given === 0) return [];
+  const prerelease = given === 3 && match[5]
+    ? match[5].split('.').map((id) => (/^\d+$/.test(id) ? Number(id) : id))
+    : [];
+  const lower = toSemver(major, minor, patch, prerelease);
+  // The first version past a partial (1.2 -> 1.3.0, 1 -> 2.0.0), and the
+  // upper bound of ~1.2.3 -> 1.3.0
+  const next = given === 1 ? toSemver(major + 1) : toSemver(major, minor + 1);
+
+  switch (operator) {
+    case '^': {
+      const upper = major > 0 || given === 1 ? toSemver(major + 1)
+        : minor > 0 || given === 2 ? toSemver(0, minor + 1)
+        : toSemver(0, 0, patch + 1);
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '~':
+      return [{ operator: '>=', version: lower }, { operator: '<', version: next }];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+    case '>':
+      return [given === 3 ? { operator: '>', version: lower } : { operator: '>=', version: next }];
+    case '<':
+      return [{ operator: '<', version: lower }];
+    case '<=':
+      return [given === 3 ? { operator: '<=', version: lower } : { operator: '<', version: next }];
+    default:
+      return given === 3
+        ? [{ operator: '=', version: lower }]
+        : [{ operator: '>=', version: lower }, { operator: '<', version: next }];
+  }
+}
+
+function testComparator(version: SemVer, { operator, version: bound }: Comparator): boolean {
+  const order = compareSemver(version, bound);
+  switch (operator) {
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '=': return order === 0;
+  }
+}
+
+function toSemver(major: number, minor = 0, patch = 0, prerelease: (string | number)[] = []): SemVer {
+  return { major, minor, patch, prerelease, build: [] };
+}
@@ -0,0 +1,188 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { recordAudit } from './audit';
+import { requireAuth, safeEqual } from './auth';
+import { parseReleaseMetadata } from './releases';
+import type { AppEnv, Env } from './types';
+
+const signing = new Hono<AppEnv>();
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const MAX_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const encoder = new TextEncoder();
+
+/**
+ * Everything a signature covers. `ip` and `uses` are only present when the
+ * link was restricted at signing time.
+ */
+interface SignedUrlParams {
+  key: string;
+  expires: number;
+  ip?: string;
+  uses?: number;
+}
+
+/**
+ * POST /api/sign - Creates an expiring, HMAC-signed download URL for a release key
+ */
+signing.post('/api/sign', requireAuth, async (c) => {
+  try {
+    if (!c.env.SIGNING_SECRET) {
+      return c.json({ success: false, error: 'Signed URLs are not configured (SIGNING_SECRET is not set)' }, 500);
+    }
+
+    const body = await c.req.json<{ key?: unknown; ttl?: unknown; ip?: unknown; maxUses?: unknown }>().catch(() => null);
+    if (!body || typeof body.key !== 'string' || body.key === '') {
+      return c.json({ success: false, error: 'Request body must include a release key' }, 400);
+    }
+
+    const ttl = body.ttl ?? DEFAULT_TTL_SECONDS;
+    if (typeof ttl !== 'number' || !Number.isInteger(ttl) || ttl <= 0 || ttl > MAX_TTL_SECONDS) {
+      return c.json({ success: false, error: `ttl must be a number of seconds between 1 and ${MAX_TTL_SECONDS}` }, 400);
+    }
+    if (body.ip !== undefined && (typeof body.ip !== 'string' || body.ip === '')) {
+      return c.json({ success: false, error: 'ip must be an IP address' }, 400);
+    }
+    if (body.maxUses !== undefined && (typeof body.maxUses !== 'number' || !Number.isInteger(body.maxUses) || body.maxUses < 1)) {
+      return c.json({ success: false, error: 'maxUses must be a positive integer' }, 400);
+    }
+
+    const object = await c.env.RELEASES.head(body.key);
+    if (!object) {
+      return c.json({ success: false, error: `Release not found: ${body.key}` }, 404);
+    }
+
+    const params: SignedUrlParams = {
+      key: body.key,
+      expires: Math.floor(Date.now() / 1000) + ttl,
+      ip: body.ip,
+      uses: body.maxUses,
+    };
+    const query = new URLSearchParams({ expires: String(params.expires) });
+    if (params.ip) query.set('ip', params.ip);
+    if (params.uses) query.set('uses', String(params.uses));
+    query.set('sig', await sign(c.env, params));
+
+    const metadata = parseReleaseMetadata(object);
+    await recordAudit(c, 'url.sign', { product: metadata?.product, version: metadata?.version, key: body.key }, {
+      expiresAt: new Date(params.expires * 1000).toISOString(),
+      ip: params.ip,
+      maxUses: params.uses,
+    });
+
+    return c.json({
+      success: true,
+      url: `${new URL(c.req.url).origin}/download/${encodeURIComponent(body.key)}?${query}`,
+      expiresAt: new Date(params.expires * 1000).toISOString(),
+      ip: params.ip,
+      maxUses: params.uses,
+    });
+  } catch (error) {
+    console.error('Error signing download URL:', error);
+    return c.json({ success: false, error: 'Failed to sign download URL' }, 500);
+  }
+});
+
+/**
+ * Whether the request carries signed URL parameters
+ */
+export function isSignedRequest(c: Context<AppEnv>): boolean {
+  return c.req.query('sig') !== undefined || c.req.query('expires') !== undefined;
+}
+
+/**
+ * Verify a signed download URL for `key`. Returns an error response for a
+ * tampered, expired or IP-mismatched link, or null when it is valid.
+ * Use limits are enforced separately by consumeSignedUrl.
+ */
+export async function checkSignedUrl(c: Context<AppEnv>, key: string): Promise<Response | null> {
+  const params = getSignedUrlParams(c, key);
+  const sig = c.req.query('sig');
+  if (!params || !sig || !c.env.SIGNING_SECRET) {
+    return c.json({ success: false, error: 'Invalid download signature' }, 403);
+  }
+
+  if (!safeEqual(sig, await sign(c.env, params))) {
+    return c.json({ success: false, error: 'Invalid download signature' }, 403);
+  }
+
+  if (params.expires * 1000 <= Date.now()) {
+    return c.json({ success: false, error: 'Download link has expired' }, 410);
+  }
+
+  if (params.ip && params.ip !== c.req.header('CF-Connecting-IP')) {
+    return c.json({ success: false, error: 'Download link is not valid from this IP address' }, 403);
+  }
+
+  return null;
+}
+
+/**
+ * Count one use of a verified signed URL. Returns an error response once the
+ * link's maxUses is exhausted, or null if the download may proceed.
+ */
+export async function consumeSignedUrl(c: Context<AppEnv>): Promise<Response | null> {
+  const maxUses = Number(c.req.query('uses'));
+  const sig = c.req.query('sig');
+  if (!sig || !maxUses) return null;
+
+  const expiresAt = new Date(Number(c.req.query('expires')) * 1000).toISOString();
+  const row = await c.env.DB.prepare(
+    `INSERT INTO signed_url_uses (sig, uses, expires_at) VALUES (?, 1, ?)
+     ON CONFLICT (sig) DO UPDATE SET uses = uses + 1 WHERE uses < ?
+     RETURNING uses`,
+  ).bind(sig, expiresAt, maxUses).first<{ uses: number }>();
+
+  if (!row) {
+    return c.json({ success: false, error: 'Download link has already been used the maximum number of times' }, 410);
+  }
+  return null;
+}
+
+/**
+ * Drop the use counters of expired links; their signatures no longer verify.
+ * Returns how many were removed.
+ */
+export async function pruneSignedUrlUses(env: Env): Promise<number> {
+  const result = await env.DB
+    .prepare('DELETE FROM signed_url_uses WHERE expires_at < ?')
+    .bind(new Date().toISOString())
+    .run();
+  return result.meta.changes;
+}
+
+function getSignedUrlParams(c: Context<AppEnv>, key: string): SignedUrlParams | null {
+  const expires = c.req.query('expires');
+  const uses = c.req.query('uses');
+  if (!expires || !/^\d+$/.test(expires)) return null;
+  if (uses !== undefined && !/^[1-9]\d*$/.test(uses)) return null;
+
+  return {
+    key,
+    expires: Number(expires),
+    ip: c.req.query('ip'),
+    uses: uses === undefined ? undefined : Number(uses),
+  };
+}
+
+/**
+ * HMAC-SHA256 over the key and every restriction, base64url-encoded
+ */
+async function sign(env: Env, params: SignedUrlParams): Promise<string> {
+  const secret = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(env.SIGNING_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const payload = [params.key, params.expires, params.ip ?? '', params.uses ?? ''].join('\n');
+  const signature = await crypto.subtle.sign('HMAC', secret, encoder.encode(payload));
+
+  let binary = '';
+  for (const byte of new Uint8Array(signature)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export default signing;
@@ -0,0 +1,99 @@
+import type { SecureHeadersVariables } from 'hono/secure-headers';
+
+export interface Env {
+  RELEASES: R2Bucket;
+  DB: D1Database;
+  ENVIRONMENT: string;
+  MAX_FILE_SIZE_GB: string;
+  API_TOKEN: string;
+  SIGNING_SECRET: string;
+  // RSA private key (PKCS#8 PEM) that signs the APT and YUM repository metadata
+  PACKAGE_SIGNING_KEY: string;
+  WEBHOOK_QUEUE: Queue<WebhookMessage>;
+}
+
+// secureHeadersNonce is the per-request CSP nonce set by the secureHeaders middleware
+export type AppEnv = { Bindings: Env; Variables: { caller: Caller } & SecureHeadersVariables };
+
+/**
+ * Who is making a request, as established by the identifyCaller middleware
+ */
+export interface Caller {
+  /** Presented the master API_TOKEN */
+  admin: boolean;
+  /** Products granted by a scoped access token; empty for anonymous callers */
+  products: string[];
+  /** Presented a token that is unknown or expired; the caller is otherwise anonymous */
+  invalidToken?: 'unknown' | 'expired';
+}
+
+export const PRODUCT_VISIBILITIES = ['public', 'private'] as const;
+
+export type ProductVisibility = typeof PRODUCT_VISIBILITIES[number];
+
+/**
+ * How the install scripts install a product
+ */
+export interface InstallLayout {
+  /** Filename suffixes of the artifacts to install, preferred first (`.tar.gz`, `.zip`, `-cli`) */
+  files: string[];
+  /** Executables to put on the PATH: paths inside the archive, or the name a bare binary is installed as */
+  bin: string[];
+  /** Default prefix of the shell script, e.g. `~/.local` or `/usr/local` */
+  prefix?: string;
+}
+
+export const WEBHOOK_EVENTS = ['release.published', 'release.yanked', 'release.deleted'] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+/**
+ * Queued for every webhook delivery; the payload itself is kept in D1
+ */
+export interface WebhookMessage {
+  deliveryId: number;
+}
+
+export const RELEASE_CHANNELS = ['stable', 'beta', 'nightly'] as const;
+
+export type ReleaseChannel = typeof RELEASE_CHANNELS[number];
+
+export interface ReleaseMetadata {
+  product: string;
+  version: string;
+  platform: string;
+  arch: string;
+  uploadDate: string;
+  size: number;
+  filename: string;
+  channel: ReleaseChannel;
+  checksum?: string;
+  description?: string;
+  yanked?: boolean;
+}
+
+export interface ReleaseFile {
+  key: string;
+  size: number;
+  uploaded: Date;
+  metadata: ReleaseMetadata;
+}
+
+export const RELEASE_SORTS = ['semver', 'uploaded'] as const;
+
+export type ReleaseSort = typeof RELEASE_SORTS[number];
+
+/**
+ * The artifacts of one version. `uploaded` is the time of its latest upload.
+ */
+export interface VersionGroup {
+  version: string;
+  channel: ReleaseChannel;
+  uploaded: Date;
+  artifacts: ReleaseFile[];
+}
+
+export interface ProductVersions {
+  product: string;
+  versions: VersionGroup[];
+}
@@ -0,0 +1,250 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { cacheControl, checkProductAccess } from './access';
+import { hexToBase64 } from './checksums';
+import { listReleases } from './release-index';
+import { findLatestRelease, isReleaseChannel } from './releases';
+import { compareVersions, parseSemver } from './semver';
+import type { AppEnv, Env, ReleaseChannel, ReleaseFile } from './types';
+
+const updater = new Hono<AppEnv>();
+
+// Tauri names platforms after Rust target triples
+const TAURI_OS: Record<string, string> = {
+  windows: 'windows',
+  macos: 'darwin',
+  darwin: 'darwin',
+  linux: 'linux',
+};
+
+const TAURI_ARCH: Record<string, string> = {
+  x64: 'x86_64',
+  arm64: 'aarch64',
+  x86: 'i686',
+  armv7: 'armv7',
+};
+
+// electron-builder manifest suffix -> artifacts it describes
+const ELECTRON_TARGETS: Record<string, { platform: string; arch?: string; extensions: string[] }> = {
+  '': { platform: 'windows', extensions: ['.exe'] },
+  '-mac': { platform: 'macos', extensions: ['.zip', '.dmg'] },
+  '-linux': { platform: 'linux', arch: 'x64', extensions: ['.AppImage'] },
+  '-linux-arm64': { platform: 'linux', arch: 'arm64', extensions: ['.AppImage'] },
+};
+
+const ELECTRON_MANIFEST_PATTERN = /^(latest|beta|nightly)(-mac|-linux|-linux-arm64)?\.yml$/;
+
+interface TauriPlatform {
+  signature: string;
+  url: string;
+}
+
+/**
+ * GET /update/:product/:manifest - Serves a Tauri latest.json or an electron-updater latest*.yml
+ */
+updater.get('/update/:product/:manifest', async (c) => {
+  const product = c.req.param('product');
+  const manifest = c.req.param('manifest');
+
+  try {
+    const denied = await checkProductAccess(c, product);
+    if (denied) return denied;
+
+    if (manifest === 'latest.json') {
+      return await serveTauriManifest(c, product);
+    }
+
+    const match = ELECTRON_MANIFEST_PATTERN.exec(manifest);
+    if (match) {
+      const channel: ReleaseChannel = match[1] === 'latest' ? 'stable' : match[1] as ReleaseChannel;
+      return await serveElectronManifest(c, product, channel, match[2] ?? '');
+    }
+
+    return c.json({ success: false, error: `Unknown update manifest: ${manifest}` }, 404);
+  } catch (error) {
+    console.error('Error generating update manifest:', error);
+    return c.json({ success: false, error: 'Failed to generate update manifest' }, 500);
+  }
+});
+
+/**
+ * GET /update/:product/:target/:arch/:currentVersion - Tauri dynamic update check
+ */
+updater.get('/update/:product/:target/:arch/:currentVersion', async (c) => {
+  try {
+    const product = c.req.param('product');
+    const target = c.req.param('target');
+    const arch = c.req.param('arch');
+    const currentVersion = c.req.param('currentVersion');
+    const denied = await checkProductAccess(c, product);
+    if (denied) return denied;
+
+    if (!parseSemver(currentVersion)) {
+      return c.json({ success: false, error: `Invalid version: ${currentVersion}` }, 400);
+    }
+
+    const channel = getChannel(c);
+    if (channel === null) {
+      return c.json({ success: false, error: `Invalid channel: ${c.req.query('channel')}` }, 400);
+    }
+
+    const releases = await listReleases(c.env, { product, includeSignatures: true });
+    const signed = getSignedReleases(releases).filter((release) =>
+      TAURI_OS[release.metadata.platform] === target &&
+      TAURI_ARCH[release.metadata.arch] === arch);
+
+    const latest = findLatestRelease(signed, { channel });
+    if (!latest) {
+      return c.json({ success: false, error: `No signed releases found for ${product} on ${target}-${arch}` }, 404);
+    }
+
+    if (compareVersions(latest.version, currentVersion) <= 0) {
+      return c.body(null, 204);
+    }
+
+    const [release] = latest.releases;
+    return c.json({
+      version: latest.version,
+      notes: release.metadata.description ?? '',
+      pub_date: release.metadata.uploadDate,
+      url: downloadUrl(c, release.key),
+      signature: await readSignature(c.env, release.key),
+    });
+  } catch (error) {
+    console.error('Error checking for updates:', error);
+    return c.json({ success: false, error: 'Failed to check for updates' }, 500);
+  }
+});
+
+/**
+ * Tauri static manifest: one signed artifact per `{os}-{arch}` of the latest version
+ */
+async function serveTauriManifest(c: Context<AppEnv>, product: string): Promise<Response> {
+  const channel = getChannel(c);
+  if (channel === null) {
+    return c.json({ success: false, error: `Invalid channel: ${c.req.query('channel')}` }, 400);
+  }
+
+  const releases = await listReleases(c.env, { product, includeSignatures: true });
+  const latest = findLatestRelease(getSignedReleases(releases), { channel });
+  if (!latest) {
+    return c.json({ success: false, error: `No signed releases found for ${product}` }, 404);
+  }
+
+  const platforms: Record<string, TauriPlatform> = {};
+  for (const release of latest.releases) {
+    const os = TAURI_OS[release.metadata.platform];
+    const arch = TAURI_ARCH[release.metadata.arch];
+    if (!os || !arch || platforms[`${os}-${arch}`]) continue;
+
+    platforms[`${os}-${arch}`] = {
+      signature: await readSignature(c.env, release.key),
+      url: downloadUrl(c, release.key),
+    };
+  }
+
+  c.header('Cache-Control', cacheControl(c, 'max-age=60'));
+  return c.json({
+    version: latest.version,
+    notes: latest.releases[0].metadata.description ?? '',
+    pub_date: latest.releases[0].metadata.uploadDate,
+    platforms,
+  });
+}
+
+/**
+ * electron-updater manifest (latest.yml, latest-mac.yml, beta-linux.yml, ...)
+ */
+async function serveElectronManifest(
+  c: Context<AppEnv>,
+  product: string,
+  channel: ReleaseChannel,
+  suffix: string,
+): Promise<Response> {
+  const target = ELECTRON_TARGETS[suffix];
+
+  // electron-updater refuses files it can't verify, so only artifacts with a checksum qualify
+  const releases = (await listReleases(c.env, { product })).filter((release) =>
+    release.metadata.platform === target.platform &&
+    (!target.arch || release.metadata.arch === target.arch) &&
+    target.extensions.some((ext) => release.metadata.filename.endsWith(ext)) &&
+    electronHash(release.metadata.checksum) !== null);
+
+  const latest = findLatestRelease(releases, { channel });
+  if (!latest) {
+    return c.json({ success: false, error: `No ${target.platform} releases with a checksum found for ${product}` }, 404);
+  }
+
+  const files = latest.releases
+    .map((release) => ({ release, hash: electronHash(release.metadata.checksum) as [string, string] }))
+    .sort((a, b) =>
+      extensionRank(target.extensions, a.release.metadata.filename) -
+      extensionRank(target.extensions, b.release.metadata.filename));
+
+  const lines = [`version: ${yamlString(latest.version)}`, 'files:'];
+  for (const { release, hash } of files) {
+    lines.push(`  - url: ${yamlString(downloadUrl(c, release.key))}`);
+    lines.push(`    ${hash[0]}: ${yamlString(hash[1])}`);
+    lines.push(`    size: ${release.size}`);
+  }
+  const [primary] = files;
+  lines.push(`path: ${yamlString(downloadUrl(c, primary.release.key))}`);
+  lines.push(`${primary.hash[0]}: ${yamlString(primary.hash[1])}`);
+  lines.push(`releaseDate: ${yamlString(primary.release.metadata.uploadDate)}`);
+
+  return c.body(lines.join('\n') + '\n', 200, {
+    'Content-Type': 'text/yaml; charset=utf-8',
+    'Cache-Control': cacheControl(c, 'max-age=60'),
+  });
+}
+
+/**
+ * Artifacts that have a detached `<key>.sig` next to them
+ */
+function getSignedReleases(releases: ReleaseFile[]): ReleaseFile[] {
+  const keys = new Set(releases.map((release) => release.key));
+  return releases.filter((release) => !release.key.endsWith('.sig') && keys.has(`${release.key}.sig`));
+}
+
+async function readSignature(env: Env, key: string): Promise<string> {
+  const object = await env.RELEASES.get(`${key}.sig`);
+  return object ? (await object.text()).trim() : '';
+}
+
+/**
+ * Returns the requested channel, undefined for the default, or null if invalid
+ */
+function getChannel(c: Context<AppEnv>): ReleaseChannel | undefined | null {
+  const channel = c.req.query('channel');
+  if (!channel) return undefined;
+  return isReleaseChannel(channel) ? channel : null;
+}
+
+/**
+ * Convert `checksum` metadata to an electron-updater hash field. SHA-256 is
+ * published as hex `sha2`, SHA-512 as base64 `sha512`.
+ */
+function electronHash(checksum: string | undefined): [string, string] | null {
+  const match = checksum?.match(/^(sha256|sha512)[:-](.+)$/i);
+  if (!match) return null;
+
+  const [, algorithm, value] = match;
+  if (algorithm.toLowerCase() === 'sha256') {
+    return /^[0-9a-f]{64}$/i.test(value) ? ['sha2', value.toLowerCase()] : null;
+  }
+  return ['sha512', /^[0-9a-f]{128}$/i.test(value) ? hexToBase64(value) : value];
+}
+
+function extensionRank(extensions: string[], filename: string): number {
+  return extensions.findIndex((ext) => filename.endsWith(ext));
+}
+
+function yamlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function downloadUrl(c: Context<AppEnv>, key: string): string {
+  return `${new URL(c.req.url).origin}/download/${encodeURIComponent(key)}`;
+}
+
+export default updater;
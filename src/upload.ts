@@ -0,0 +1,367 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { recordAudit } from './audit';
+import { requireAuth } from './auth';
+import { digestObject, formatSha256, hashStream, parseSha256 } from './checksums';
+import { indexPackage } from './packages';
+import { normalizePlatform } from './platform';
+import { getProduct } from './products';
+import { deleteReleases, indexObject } from './release-index';
+import {
+  buildReleaseKey,
+  formatFileSize,
+  isReleaseChannel,
+  maxFileSizeBytes,
+  splitPlatformArch,
+  validateReleaseKeyParts,
+} from './releases';
+import type { ReleaseKeyParts } from './releases';
+import { RELEASE_CHANNELS } from './types';
+import type { AppEnv, Env } from './types';
+import { dispatchWebhooks } from './webhooks';
+
+const upload = new Hono<AppEnv>();
+
+const RELEASE_PATH = '/api/releases/:product/:version/:platformArch/:filename';
+
+// R2 limits: parts are numbered 1-10000
+const MAX_PART_NUMBER = 10000;
+
+// R2 aborts multipart uploads that aren't completed within a week
+const MULTIPART_UPLOAD_DAYS = 7;
+
+/**
+ * PUT|POST /api/releases/:product/:version/:platformArch/:filename - Uploads a release artifact
+ */
+upload.on(['PUT', 'POST'], RELEASE_PATH, requireAuth, async (c) => {
+  try {
+    const parts = getReleaseKeyParts(c);
+    const invalid = validateReleaseKeyParts(parts) ?? validateUploadHeaders(c) ?? await checkCatalog(c, parts);
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400);
+    }
+
+    const body = c.req.raw.body;
+    if (!body) {
+      return c.json({ success: false, error: 'Request body is empty' }, 400);
+    }
+
+    const sizeError = checkContentLength(c);
+    if (sizeError) return sizeError;
+
+    const key = buildReleaseKey(parts);
+    const conflict = await checkExisting(c, key);
+    if (conflict) return conflict;
+
+    // Hash the body on its way into R2; FixedLengthStream keeps the known length R2 needs
+    const length = Number(c.req.header('Content-Length'));
+    // Awaited together, so a failed put doesn't leave the digest rejecting unhandled
+    const hashed = hashStream(body);
+    const [object, digest] = await Promise.all([
+      c.env.RELEASES.put(key, hashed.body.pipeThrough(new FixedLengthStream(length)), {
+        httpMetadata: getHttpMetadata(c),
+        customMetadata: getCustomMetadata(c, parts),
+      }),
+      hashed.digest,
+    ]);
+    if (!matchesDeclaredChecksum(object, digest)) {
+      await deleteReleases(c.env, [key]);
+      return c.json({ success: false, error: 'Checksum mismatch: the uploaded file does not match X-Release-Checksum' }, 400);
+    }
+
+    const release = await indexObject(c.env, object, formatSha256(digest));
+    if (release) await indexPackage(c.env, release);
+    await recordAudit(c, 'release.upload', { product: parts.product, version: parts.version, key: object.key }, { size: object.size });
+    if (release) c.executionCtx.waitUntil(dispatchWebhooks(c.env, 'release.published', [release]));
+    return c.json({ success: true, release }, 201);
+  } catch (error) {
+    console.error('Error uploading release:', error);
+    return c.json({ success: false, error: 'Failed to upload release' }, 500);
+  }
+});
+
+/**
+ * POST /api/releases/:product/:version/:platformArch/:filename/multipart - Starts a multipart upload
+ */
+upload.post(`${RELEASE_PATH}/multipart`, requireAuth, async (c) => {
+  try {
+    const parts = getReleaseKeyParts(c);
+    const invalid = validateReleaseKeyParts(parts) ?? validateUploadHeaders(c) ?? await checkCatalog(c, parts);
+    if (invalid) {
+      return c.json({ success: false, error: invalid }, 400);
+    }
+
+    const key = buildReleaseKey(parts);
+    const conflict = await checkExisting(c, key);
+    if (conflict) return conflict;
+
+    const multipart = await c.env.RELEASES.createMultipartUpload(key, {
+      httpMetadata: getHttpMetadata(c),
+      customMetadata: getCustomMetadata(c, parts),
+    });
+
+    return c.json({
+      success: true,
+      key: multipart.key,
+      uploadId: multipart.uploadId,
+      maxSize: maxFileSizeBytes(c.env),
+    }, 201);
+  } catch (error) {
+    console.error('Error creating multipart upload:', error);
+    return c.json({ success: false, error: 'Failed to create multipart upload' }, 500);
+  }
+});
+
+/**
+ * PUT /api/releases/:product/:version/:platformArch/:filename/multipart/:uploadId/:partNumber - Uploads one part
+ */
+upload.put(`${RELEASE_PATH}/multipart/:uploadId/:partNumber`, requireAuth, async (c) => {
+  try {
+    const partNumber = Number(c.req.param('partNumber'));
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PART_NUMBER) {
+      return c.json({ success: false, error: `Part number must be between 1 and ${MAX_PART_NUMBER}` }, 400);
+    }
+
+    const body = c.req.raw.body;
+    if (!body) {
+      return c.json({ success: false, error: 'Request body is empty' }, 400);
+    }
+
+    const sizeError = checkContentLength(c);
+    if (sizeError) return sizeError;
+
+    const multipart = resumeMultipartUpload(c);
+    if (!await reservePartSize(c, multipart.uploadId, partNumber, Number(c.req.header('Content-Length')))) {
+      const limit = maxFileSizeBytes(c.env);
+      return c.json({
+        success: false,
+        error: `Upload would exceed maximum size of ${formatFileSize(limit)}`,
+      }, 413);
+    }
+
+    const part = await multipart.uploadPart(partNumber, body);
+
+    return c.json({ success: true, part });
+  } catch (error) {
+    console.error('Error uploading part:', error);
+    return c.json({ success: false, error: 'Failed to upload part' }, 500);
+  }
+});
+
+/**
+ * POST /api/releases/:product/:version/:platformArch/:filename/multipart/:uploadId/complete - Completes a multipart upload
+ */
+upload.post(`${RELEASE_PATH}/multipart/:uploadId/complete`, requireAuth, async (c) => {
+  try {
+    const parts = getReleaseKeyParts(c);
+    const body = await c.req.json<{ parts?: R2UploadedPart[] }>().catch(() => null);
+    const uploadedParts = body?.parts;
+    if (!Array.isArray(uploadedParts) || uploadedParts.length === 0 || !uploadedParts.every(isUploadedPart)) {
+      return c.json({ success: false, error: 'Body must contain a non-empty "parts" array of { partNumber, etag }' }, 400);
+    }
+
+    const multipart = resumeMultipartUpload(c, parts);
+    const object = await multipart.complete(uploadedParts);
+    await releasePartSizes(c.env, multipart.uploadId);
+
+    // With ?overwrite=true the previous artifact is already gone, so a
+    // rejected upload also leaves the index
+    const limit = maxFileSizeBytes(c.env);
+    if (object.size > limit) {
+      await deleteReleases(c.env, [object.key]);
+      return c.json({
+        success: false,
+        error: `File exceeds maximum size of ${formatFileSize(limit)}`,
+      }, 413);
+    }
+
+    // Parts may arrive in any order across requests, so hash the assembled object
+    const digest = await digestObject(c.env, object.key);
+    if (!digest) {
+      console.error('Completed multipart upload is missing:', object.key);
+      await deleteReleases(c.env, [object.key]);
+      return c.json({ success: false, error: 'Failed to read the completed upload' }, 500);
+    }
+    if (!matchesDeclaredChecksum(object, digest)) {
+      await deleteReleases(c.env, [object.key]);
+      return c.json({ success: false, error: 'Checksum mismatch: the uploaded file does not match X-Release-Checksum' }, 400);
+    }
+
+    const release = await indexObject(c.env, object, formatSha256(digest));
+    if (release) await indexPackage(c.env, release);
+    await recordAudit(c, 'release.upload', { product: parts.product, version: parts.version, key: object.key }, { size: object.size });
+    if (release) c.executionCtx.waitUntil(dispatchWebhooks(c.env, 'release.published', [release]));
+    return c.json({ success: true, release }, 201);
+  } catch (error) {
+    console.error('Error completing multipart upload:', error);
+    return c.json({ success: false, error: 'Failed to complete multipart upload' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/releases/:product/:version/:platformArch/:filename/multipart/:uploadId - Aborts a multipart upload
+ */
+upload.delete(`${RELEASE_PATH}/multipart/:uploadId`, requireAuth, async (c) => {
+  try {
+    const multipart = resumeMultipartUpload(c);
+    await multipart.abort();
+    await releasePartSizes(c.env, multipart.uploadId);
+    return c.json({ success: true });
+  } catch (error) {
+    console.error('Error aborting multipart upload:', error);
+    return c.json({ success: false, error: 'Failed to abort multipart upload' }, 500);
+  }
+});
+
+function getReleaseKeyParts(c: Context<AppEnv>): ReleaseKeyParts {
+  const { platform, arch } = splitPlatformArch(c.req.param('platformArch') ?? '');
+  return {
+    product: c.req.param('product') ?? '',
+    version: c.req.param('version') ?? '',
+    platform,
+    arch,
+    filename: c.req.param('filename') ?? '',
+  };
+}
+
+function resumeMultipartUpload(c: Context<AppEnv>, parts = getReleaseKeyParts(c)): R2MultipartUpload {
+  const key = buildReleaseKey(parts);
+  return c.env.RELEASES.resumeMultipartUpload(key, c.req.param('uploadId') ?? '');
+}
+
+/**
+ * Record the size of a part, unless the upload's parts would then add up to
+ * more than MAX_FILE_SIZE_GB. A retried part replaces its earlier size.
+ * Returns whether the part may be uploaded.
+ */
+async function reservePartSize(c: Context<AppEnv>, uploadId: string, partNumber: number, size: number): Promise<boolean> {
+  const result = await c.env.DB.prepare(
+    `INSERT INTO multipart_parts (upload_id, part_number, size, created_at)
+     SELECT ?1, ?2, ?3, ?4
+     WHERE ?3 + (SELECT COALESCE(SUM(size), 0) FROM multipart_parts WHERE upload_id = ?1 AND part_number != ?2) <= ?5
+     ON CONFLICT (upload_id, part_number) DO UPDATE SET size = excluded.size`,
+  ).bind(uploadId, partNumber, size, new Date().toISOString(), maxFileSizeBytes(c.env)).run();
+  return result.meta.changes > 0;
+}
+
+async function releasePartSizes(env: Env, uploadId: string): Promise<void> {
+  await env.DB.prepare('DELETE FROM multipart_parts WHERE upload_id = ?').bind(uploadId).run();
+}
+
+/**
+ * Drop the part sizes of multipart uploads R2 has aborted by now. Returns
+ * how many parts were removed.
+ */
+export async function pruneMultipartParts(env: Env): Promise<number> {
+  const cutoff = new Date(Date.now() - MULTIPART_UPLOAD_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const result = await env.DB.prepare('DELETE FROM multipart_parts WHERE created_at < ?').bind(cutoff).run();
+  return result.meta.changes;
+}
+
+function getHttpMetadata(c: Context<AppEnv>): R2HTTPMetadata {
+  return {
+    contentType: c.req.header('Content-Type') || 'application/octet-stream',
+  };
+}
+
+/**
+ * Build the customMetadata stored with an artifact, so parseReleaseMetadata
+ * returns the same fields for single-shot and multipart uploads
+ */
+function getCustomMetadata(c: Context<AppEnv>, parts: ReleaseKeyParts): Record<string, string> {
+  const customMetadata: Record<string, string> = {
+    product: parts.product,
+    version: parts.version,
+    platform: parts.platform,
+    arch: parts.arch,
+  };
+  const checksum = parseSha256(c.req.header('X-Release-Checksum'));
+  const description = c.req.header('X-Release-Description');
+  const channel = c.req.header('X-Release-Channel');
+  if (checksum) customMetadata.checksum = formatSha256(checksum);
+  if (description) customMetadata.description = description;
+  if (channel) customMetadata.channel = channel;
+  return customMetadata;
+}
+
+function validateUploadHeaders(c: Context<AppEnv>): string | null {
+  const channel = c.req.header('X-Release-Channel');
+  if (channel && !isReleaseChannel(channel)) {
+    return `Invalid channel: ${channel} (expected one of ${RELEASE_CHANNELS.join(', ')})`;
+  }
+  const checksum = c.req.header('X-Release-Checksum');
+  if (checksum && !parseSha256(checksum)) {
+    return 'X-Release-Checksum must be a SHA-256 digest (sha256:<hex>)';
+  }
+  return null;
+}
+
+/**
+ * Uploads must be for a registered product, and for one of its platforms
+ * when the catalog limits them, so a typo can't create a new product
+ */
+async function checkCatalog(c: Context<AppEnv>, parts: ReleaseKeyParts): Promise<string | null> {
+  const product = await getProduct(c.env, parts.product);
+  if (!product) {
+    return `Unknown product: ${parts.product} (register it with POST /api/admin/products)`;
+  }
+  // The catalog stores normalized platforms, so `darwin/` uploads match `macos`
+  const platform = normalizePlatform(parts.platform) ?? parts.platform;
+  if (product.platforms.length > 0 && !product.platforms.includes(platform)) {
+    return `${parts.product} doesn't allow ${parts.platform} uploads (platforms: ${product.platforms.join(', ')})`;
+  }
+  return null;
+}
+
+/**
+ * Whether the computed SHA-256 matches the one declared with
+ * X-Release-Checksum. Uploads without one always match; the computed
+ * digest goes into the release index either way.
+ */
+function matchesDeclaredChecksum(object: R2Object, digest: string): boolean {
+  const declared = parseSha256(object.customMetadata?.checksum);
+  return !declared || declared === digest;
+}
+
+/**
+ * Reject uploads to an existing key unless ?overwrite=true
+ */
+async function checkExisting(c: Context<AppEnv>, key: string): Promise<Response | null> {
+  if (c.req.query('overwrite') === 'true') return null;
+  if (await c.env.RELEASES.head(key)) {
+    return c.json({ success: false, error: `Release already exists: ${key}` }, 409);
+  }
+  return null;
+}
+
+/**
+ * Reject uploads without a Content-Length or larger than MAX_FILE_SIZE_GB
+ */
+function checkContentLength(c: Context<AppEnv>): Response | null {
+  const header = c.req.header('Content-Length');
+  if (!header) {
+    return c.json({ success: false, error: 'Content-Length header is required' }, 411);
+  }
+
+  const length = Number(header);
+  if (!Number.isSafeInteger(length) || length < 0) {
+    return c.json({ success: false, error: 'Invalid Content-Length header' }, 400);
+  }
+
+  const limit = maxFileSizeBytes(c.env);
+  if (length > limit) {
+    return c.json({
+      success: false,
+      error: `File exceeds maximum size of ${formatFileSize(limit)}`,
+    }, 413);
+  }
+
+  return null;
+}
+
+function isUploadedPart(part: unknown): part is R2UploadedPart {
+  const candidate = part as R2UploadedPart | null;
+  return typeof candidate?.partNumber === 'number' && typeof candidate?.etag === 'string';
+}
+
+export default upload;
@@ -0,0 +1,541 @@
+import { Hono } from 'hono';
+import { recordAudit } from './audit';
+import { requireAuth } from './auth';
+import { toHex } from './checksums';
+import { isValidProduct } from './releases';
+import { WEBHOOK_EVENTS } from './types';
+import type { AppEnv, Env, ReleaseFile, WebhookEvent, WebhookMessage } from './types';
+
+const webhooks = new Hono<AppEnv>();
+
+const SECRET_PREFIX = 'whsec_';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// Attempts per delivery before it is marked failed. Retries back off
+// exponentially from RETRY_BASE_SECONDS, so the last one is about an hour in.
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_SECONDS = 30;
+const DELIVERY_TIMEOUT_MS = 10_000;
+// How much of a failed response body is kept in the delivery log
+const MAX_ERROR_LENGTH = 500;
+
+const DELIVERY_STATUSES = ['pending', 'retrying', 'delivered', 'failed'] as const;
+
+type DeliveryStatus = typeof DELIVERY_STATUSES[number];
+
+const encoder = new TextEncoder();
+
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  /** Products the webhook fires for; empty for every product */
+  products: string[];
+  active: boolean;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  webhookId: string;
+  event: string;
+  status: DeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  payload: Record<string, unknown>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Body of a release event. Every subscriber receives the same payload,
+ * identified by `id`; each delivery has its own X-Cogix-Delivery id.
+ */
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  product: string;
+  version: string;
+  releases: ReleaseFile[];
+}
+
+interface WebhookRow {
+  id: string;
+  url: string;
+  secret: string;
+  events: string;
+  products: string;
+  active: number;
+  created_at: string;
+}
+
+interface DeliveryRow {
+  id: number;
+  webhook_id: string;
+  event: string;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * GET /api/admin/webhooks - Lists webhook subscriptions (never their secrets)
+ */
+webhooks.get('/api/admin/webhooks', requireAuth, async (c) => {
+  try {
+    const { results } = await c.env.DB
+      .prepare('SELECT * FROM webhooks ORDER BY created_at DESC')
+      .all<WebhookRow>();
+    const list = results.map(fromRow);
+
+    return c.json({ success: true, count: list.length, webhooks: list });
+  } catch (error) {
+    console.error('Error listing webhooks:', error);
+    return c.json({ success: false, error: 'Failed to list webhooks' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/webhooks - Subscribes a URL to release events. The signing
+ * secret is generated unless one is given, and only returned in this response.
+ */
+webhooks.post('/api/admin/webhooks', requireAuth, async (c) => {
+  try {
+    const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+    if (!body || typeof body.url !== 'string') {
+      return c.json({ success: false, error: 'Request body must include a url' }, 400);
+    }
+
+    const fields = parseWebhookFields(body);
+    if (typeof fields === 'string') {
+      return c.json({ success: false, error: fields }, 400);
+    }
+
+    const secret = fields.secret ?? generateSecret();
+    const webhook: Webhook = {
+      id: crypto.randomUUID(),
+      url: fields.url as string,
+      events: fields.events ?? [...WEBHOOK_EVENTS],
+      products: fields.products ?? [],
+      active: fields.active ?? true,
+      createdAt: new Date().toISOString(),
+    };
+
+    await c.env.DB.prepare(
+      `INSERT INTO webhooks (id, url, secret, events, products, active, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    ).bind(
+      webhook.id,
+      webhook.url,
+      secret,
+      JSON.stringify(webhook.events),
+      JSON.stringify(webhook.products),
+      webhook.active ? 1 : 0,
+      webhook.createdAt,
+    ).run();
+
+    await recordAudit(c, 'webhook.create', {}, { id: webhook.id, url: webhook.url, events: webhook.events, products: webhook.products });
+    return c.json({ success: true, secret, webhook }, 201);
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return c.json({ success: false, error: 'Failed to create webhook' }, 500);
+  }
+});
+
+/**
+ * PATCH /api/admin/webhooks/:id - Changes a webhook's url, secret, events, products or active flag
+ */
+webhooks.patch('/api/admin/webhooks/:id', requireAuth, async (c) => {
+  try {
+    const id = c.req.param('id');
+    const body = await c.req.json<Record<string, unknown>>().catch(() => null);
+    if (!body) {
+      return c.json({ success: false, error: 'Request body must be a JSON object' }, 400);
+    }
+
+    const fields = parseWebhookFields(body);
+    if (typeof fields === 'string') {
+      return c.json({ success: false, error: fields }, 400);
+    }
+
+    const updates: string[] = [];
+    const params: (string | number)[] = [];
+    if (fields.url !== undefined) {
+      updates.push('url = ?');
+      params.push(fields.url);
+    }
+    if (fields.secret !== undefined) {
+      updates.push('secret = ?');
+      params.push(fields.secret);
+    }
+    if (fields.events !== undefined) {
+      updates.push('events = ?');
+      params.push(JSON.stringify(fields.events));
+    }
+    if (fields.products !== undefined) {
+      updates.push('products = ?');
+      params.push(JSON.stringify(fields.products));
+    }
+    if (fields.active !== undefined) {
+      updates.push('active = ?');
+      params.push(fields.active ? 1 : 0);
+    }
+    if (updates.length === 0) {
+      return c.json({ success: false, error: 'Nothing to update (editable fields: url, secret, events, products, active)' }, 400);
+    }
+
+    const row = await c.env.DB
+      .prepare(`UPDATE webhooks SET ${updates.join(', ')} WHERE id = ? RETURNING *`)
+      .bind(...params, id)
+      .first<WebhookRow>();
+    if (!row) {
+      return c.json({ success: false, error: `Webhook not found: ${id}` }, 404);
+    }
+
+    // Never write the secret to the audit log
+    await recordAudit(c, 'webhook.update', {}, { id, ...body, secret: body.secret === undefined ? undefined : '[redacted]' });
+    return c.json({ success: true, webhook: fromRow(row) });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return c.json({ success: false, error: 'Failed to update webhook' }, 500);
+  }
+});
+
+/**
+ * DELETE /api/admin/webhooks/:id - Removes a webhook and its delivery log
+ */
+webhooks.delete('/api/admin/webhooks/:id', requireAuth, async (c) => {
+  try {
+    const id = c.req.param('id');
+    await c.env.DB.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').bind(id).run();
+    const result = await c.env.DB.prepare('DELETE FROM webhooks WHERE id = ?').bind(id).run();
+    if (result.meta.changes === 0) {
+      return c.json({ success: false, error: `Webhook not found: ${id}` }, 404);
+    }
+
+    await recordAudit(c, 'webhook.delete', {}, { id });
+    return c.json({ success: true, id });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return c.json({ success: false, error: 'Failed to delete webhook' }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/webhooks/:id/test - Queues a `ping` delivery to a webhook
+ */
+webhooks.post('/api/admin/webhooks/:id/test', requireAuth, async (c) => {
+  try {
+    const id = c.req.param('id');
+    const row = await c.env.DB.prepare('SELECT * FROM webhooks WHERE id = ?').bind(id).first<WebhookRow>();
+    if (!row) {
+      return c.json({ success: false, error: `Webhook not found: ${id}` }, 404);
+    }
+
+    const payload = { id: crypto.randomUUID(), event: 'ping', createdAt: new Date().toISOString(), webhook: id };
+    const [delivery] = await queueDeliveries(c.env, [row], 'ping', payload);
+
+    return c.json({ success: true, delivery }, 202);
+  } catch (error) {
+    console.error('Error testing webhook:', error);
+    return c.json({ success: false, error: 'Failed to test webhook' }, 500);
+  }
+});
+
+/**
+ * GET /api/admin/webhooks/:id/deliveries - Delivery log of a webhook, newest first
+ */
+webhooks.get('/api/admin/webhooks/:id/deliveries', requireAuth, async (c) => {
+  try {
+    const id = c.req.param('id');
+    const clauses = ['webhook_id = ?'];
+    const params: (string | number)[] = [id];
+
+    const status = c.req.query('status');
+    if (status !== undefined) {
+      if (!(DELIVERY_STATUSES as readonly string[]).includes(status)) {
+        return c.json({
+          success: false,
+          error: `Invalid status: ${status} (expected one of ${DELIVERY_STATUSES.join(', ')})`,
+        }, 400);
+      }
+      clauses.push('status = ?');
+      params.push(status);
+    }
+
+    const limitParam = c.req.query('limit');
+    const limit = limitParam === undefined ? DEFAULT_PAGE_SIZE : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return c.json({ success: false, error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` }, 400);
+    }
+
+    const cursor = c.req.query('cursor');
+    if (cursor !== undefined) {
+      if (!/^\d+$/.test(cursor)) {
+        return c.json({ success: false, error: 'Invalid cursor' }, 400);
+      }
+      clauses.push('id < ?');
+      params.push(Number(cursor));
+    }
+
+    const webhook = await c.env.DB.prepare('SELECT id FROM webhooks WHERE id = ?').bind(id).first();
+    if (!webhook) {
+      return c.json({ success: false, error: `Webhook not found: ${id}` }, 404);
+    }
+
+    const { results } = await c.env.DB
+      .prepare(`SELECT * FROM webhook_deliveries WHERE ${clauses.join(' AND ')} ORDER BY id DESC LIMIT ?`)
+      .bind(...params, limit + 1)
+      .all<DeliveryRow>();
+
+    const truncated = results.length > limit;
+    const deliveries = (truncated ? results.slice(0, limit) : results).map(fromDeliveryRow);
+
+    return c.json({
+      success: true,
+      count: deliveries.length,
+      deliveries,
+      truncated,
+      cursor: truncated ? String(deliveries[deliveries.length - 1].id) : undefined,
+    });
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error);
+    return c.json({ success: false, error: 'Failed to list webhook deliveries' }, 500);
+  }
+});
+
+/**
+ * Queue a release event for every active webhook subscribed to it. The
+ * releases must all belong to one product version. Like recordAudit, a
+ * failure is logged rather than failing the request that caused the event.
+ */
+export async function dispatchWebhooks(env: Env, event: WebhookEvent, releases: ReleaseFile[]): Promise<void> {
+  if (releases.length === 0) return;
+  const { product, version } = releases[0].metadata;
+
+  try {
+    const { results } = await env.DB
+      .prepare('SELECT * FROM webhooks WHERE active = 1')
+      .all<WebhookRow>();
+    const subscribers = results.filter((row) => {
+      const webhook = fromRow(row);
+      return webhook.events.includes(event)
+        && (webhook.products.length === 0 || webhook.products.includes(product));
+    });
+    if (subscribers.length === 0) return;
+
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      product,
+      version,
+      releases,
+    };
+    await queueDeliveries(env, subscribers, event, payload);
+  } catch (error) {
+    console.error(`Error dispatching ${event} webhooks:`, error);
+  }
+}
+
+/**
+ * Queue consumer: POST each delivery to its webhook, retrying failures with
+ * exponential backoff until MAX_ATTEMPTS is reached
+ */
+export async function deliverWebhooks(batch: MessageBatch<WebhookMessage>, env: Env): Promise<void> {
+  for (const message of batch.messages) {
+    const row = await env.DB.prepare(
+      `SELECT d.*, w.url, w.secret FROM webhook_deliveries d
+       JOIN webhooks w ON w.id = d.webhook_id
+       WHERE d.id = ?`,
+    ).bind(message.body.deliveryId).first<DeliveryRow & { url: string; secret: string }>();
+
+    // The webhook was deleted since the event was queued
+    if (!row) {
+      message.ack();
+      continue;
+    }
+
+    const result = await postDelivery(row.url, row.secret, row);
+    const delivered = result.status !== undefined && result.status >= 200 && result.status < 300;
+    const status: DeliveryStatus = delivered ? 'delivered' : message.attempts >= MAX_ATTEMPTS ? 'failed' : 'retrying';
+
+    await env.DB.prepare(
+      `UPDATE webhook_deliveries
+       SET status = ?, attempts = ?, response_status = ?, error = ?, updated_at = ?
+       WHERE id = ?`,
+    ).bind(
+      status,
+      message.attempts,
+      result.status ?? null,
+      result.error ?? null,
+      new Date().toISOString(),
+      row.id,
+    ).run();
+
+    if (status === 'retrying') {
+      message.retry({ delaySeconds: RETRY_BASE_SECONDS * 2 ** (message.attempts - 1) });
+    } else {
+      message.ack();
+    }
+  }
+}
+
+async function queueDeliveries(
+  env: Env,
+  subscribers: WebhookRow[],
+  event: string,
+  payload: object,
+): Promise<WebhookDelivery[]> {
+  const now = new Date().toISOString();
+  const body = JSON.stringify(payload);
+  const inserted = await env.DB.batch<DeliveryRow>(subscribers.map((row) => env.DB.prepare(
+    `INSERT INTO webhook_deliveries (webhook_id, event, payload, status, attempts, created_at, updated_at)
+     VALUES (?, ?, ?, 'pending', 0, ?, ?) RETURNING *`,
+  ).bind(row.id, event, body, now, now)));
+
+  const deliveries = inserted.map((result) => fromDeliveryRow(result.results[0]));
+  await env.WEBHOOK_QUEUE.sendBatch(deliveries.map((delivery) => ({ body: { deliveryId: delivery.id } })));
+  return deliveries;
+}
+
+/**
+ * Send one delivery. The signature is an HMAC-SHA256 of `<timestamp>.<body>`
+ * so receivers can reject replays of old deliveries.
+ */
+async function postDelivery(
+  url: string,
+  secret: string,
+  delivery: DeliveryRow,
+): Promise<{ status?: number; error?: string }> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${delivery.payload}`)));
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'cogix-release-webhooks',
+        'X-Cogix-Event': delivery.event,
+        'X-Cogix-Delivery': String(delivery.id),
+        'X-Cogix-Timestamp': timestamp,
+        'X-Cogix-Signature': `sha256=${signature}`,
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    if (response.ok) return { status: response.status };
+
+    const text = await response.text().catch(() => '');
+    return { status: response.status, error: text.slice(0, MAX_ERROR_LENGTH) || response.statusText };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Validate the fields of a create or update body. Only the fields present
+ * are returned. Returns an error message on invalid input.
+ */
+function parseWebhookFields(body: Record<string, unknown>): Partial<Webhook> & { secret?: string } | string {
+  const fields: Partial<Webhook> & { secret?: string } = {};
+
+  for (const [field, value] of Object.entries(body)) {
+    switch (field) {
+      case 'url': {
+        const error = typeof value === 'string' ? validateWebhookUrl(value) : 'url must be a string';
+        if (error) return error;
+        fields.url = value as string;
+        break;
+      }
+      case 'secret':
+        if (typeof value !== 'string' || value.length < 16) return 'secret must be a string of at least 16 characters';
+        fields.secret = value;
+        break;
+      case 'events': {
+        if (!Array.isArray(value) || value.length === 0) {
+          return `events must be a non-empty array of ${WEBHOOK_EVENTS.join(', ')}`;
+        }
+        const invalid = value.find((event) => !(WEBHOOK_EVENTS as readonly unknown[]).includes(event));
+        if (invalid !== undefined) {
+          return `Invalid event: ${invalid} (expected one of ${WEBHOOK_EVENTS.join(', ')})`;
+        }
+        fields.events = [...new Set(value as WebhookEvent[])];
+        break;
+      }
+      case 'products': {
+        if (!Array.isArray(value)) return 'products must be an array of product names';
+        const invalid = value.find((product) => typeof product !== 'string' || !isValidProduct(product));
+        if (invalid !== undefined) return `Invalid product: ${invalid}`;
+        fields.products = [...new Set(value as string[])];
+        break;
+      }
+      case 'active':
+        if (typeof value !== 'boolean') return 'active must be a boolean';
+        fields.active = value;
+        break;
+      default:
+        return `Unknown field: ${field}`;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Webhooks must use HTTPS, except for a receiver on this machine during development
+ */
+function validateWebhookUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return `Invalid url: ${value}`;
+  }
+  if (url.protocol === 'https:') return null;
+  if (url.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)) return null;
+  return 'url must use https (http is only allowed for localhost)';
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return SECRET_PREFIX + toHex(bytes.buffer);
+}
+
+function fromRow(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    events: JSON.parse(row.events) as WebhookEvent[],
+    products: JSON.parse(row.products) as string[],
+    active: row.active === 1,
+    createdAt: row.created_at,
+  };
+}
+
+function fromDeliveryRow(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status ?? undefined,
+    error: row.error ?? undefined,
+    payload: JSON.parse(row.payload) as Record<string, unknown>,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export default webhooks;
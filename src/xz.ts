@@ -0,0 +1,475 @@
+/**
+ * A minimal .xz decoder for reading `control.tar.xz` out of .deb packages.
+ * Workers' DecompressionStream only speaks gzip and deflate. Only the LZMA2
+ * filter is supported. Header CRCs and block checks (CRC32, CRC64, SHA-256)
+ * are verified, so a corrupt archive fails instead of yielding garbage.
+ */
+
+const XZ_MAGIC = [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00];
+const FILTER_LZMA2 = 0x21;
+// Check sizes by the check type in the stream flags (none, CRC32, CRC64, SHA-256)
+const CHECK_SIZES: Record<number, number> = { 0: 0, 1: 4, 4: 8, 10: 32 };
+const CHECK_CRC32 = 1;
+const CHECK_CRC64 = 4;
+const CHECK_SHA256 = 10;
+
+const NUM_STATES = 12;
+const POS_BITS_MAX = 4;
+const END_POS_MODEL_INDEX = 14;
+const NUM_FULL_DISTANCES = 128;
+const NUM_ALIGN_BITS = 4;
+const NUM_LEN_TO_POS_STATES = 4;
+const MATCH_MIN_LEN = 2;
+
+export class XzError extends Error {}
+
+/**
+ * Decompress a whole .xz stream. Fails once the output would exceed maxSize.
+ */
+export async function decompressXz(input: Uint8Array, maxSize: number): Promise<Uint8Array> {
+  if (input.length < 12 || XZ_MAGIC.some((byte, i) => input[i] !== byte)) {
+    throw new XzError('Not an xz stream');
+  }
+  if (crc32(input.subarray(6, 8)) !== readUint32(input, 8)) throw new XzError('Corrupt xz stream header');
+  const checkType = input[7] & 0x0f;
+  const checkSize = CHECK_SIZES[checkType];
+  if (checkSize === undefined) throw new XzError('Unsupported xz check type');
+
+  const output = new OutputBuffer(maxSize);
+  let pos = 12;
+  // A zero byte where a block header would start is the stream index
+  while (pos < input.length && input[pos] !== 0) {
+    const blockStart = pos;
+    const headerSize = (input[pos] + 1) * 4;
+    if (blockStart + headerSize > input.length) throw new XzError('Truncated xz block header');
+    if (crc32(input.subarray(blockStart, blockStart + headerSize - 4)) !== readUint32(input, blockStart + headerSize - 4)) {
+      throw new XzError('Corrupt xz block header');
+    }
+    const flags = input[pos + 1];
+    if ((flags & 0x03) !== 0) throw new XzError('Only the LZMA2 filter is supported');
+
+    let cursor = pos + 2;
+    if (flags & 0x40) cursor = skipVarint(input, cursor);
+    if (flags & 0x80) cursor = skipVarint(input, cursor);
+    if (input[cursor] !== FILTER_LZMA2) throw new XzError('Only the LZMA2 filter is supported');
+
+    const outputStart = output.length;
+    pos = decodeLzma2(input, blockStart + headerSize, output);
+    // Block padding to a multiple of four bytes, then the check
+    const paddingEnd = pos + (4 - ((pos - blockStart) % 4)) % 4;
+    if (paddingEnd + checkSize > input.length) throw new XzError('Truncated xz block');
+    if (input.subarray(pos, paddingEnd).some((byte) => byte !== 0)) throw new XzError('Invalid xz block padding');
+    pos = paddingEnd;
+
+    const check = input.subarray(pos, pos + checkSize);
+    if (!(await verifyCheck(checkType, output.range(outputStart, output.length), check))) {
+      throw new XzError('xz block check mismatch');
+    }
+    pos += checkSize;
+  }
+
+  return output.bytes();
+}
+
+async function verifyCheck(checkType: number, data: Uint8Array, check: Uint8Array): Promise<boolean> {
+  switch (checkType) {
+    case CHECK_CRC32:
+      return crc32(data) === readUint32(check, 0);
+    case CHECK_CRC64: {
+      const [high, low] = crc64(data);
+      return low === readUint32(check, 0) && high === readUint32(check, 4);
+    }
+    case CHECK_SHA256: {
+      const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+      return digest.every((byte, i) => byte === check[i]);
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Little-endian, as xz stores its CRCs
+ */
+function readUint32(input: Uint8Array, pos: number): number {
+  return (input[pos] | input[pos + 1] << 8 | input[pos + 2] << 16 | input[pos + 3] << 24) >>> 0;
+}
+
+const CRC32_TABLE = new Uint32Array(256).map((_, n) => {
+  let crc = n;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  return crc;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// CRC-64/XZ (ECMA-182, reflected), with each 64-bit value split into high and low halves
+const CRC64_TABLE_HIGH = new Uint32Array(256);
+const CRC64_TABLE_LOW = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let high = 0;
+  let low = n;
+  for (let bit = 0; bit < 8; bit++) {
+    const carry = low & 1;
+    low = (low >>> 1 | high << 31) >>> 0;
+    high >>>= 1;
+    if (carry) {
+      high = (high ^ 0xc96c5795) >>> 0;
+      low = (low ^ 0xd7870f42) >>> 0;
+    }
+  }
+  CRC64_TABLE_HIGH[n] = high;
+  CRC64_TABLE_LOW[n] = low;
+}
+
+/**
+ * Returns the CRC as [high, low] 32-bit halves
+ */
+function crc64(data: Uint8Array): [number, number] {
+  let high = 0xffffffff;
+  let low = 0xffffffff;
+  for (const byte of data) {
+    const index = (low ^ byte) & 0xff;
+    low = ((low >>> 8 | high << 24) ^ CRC64_TABLE_LOW[index]) >>> 0;
+    high = ((high >>> 8) ^ CRC64_TABLE_HIGH[index]) >>> 0;
+  }
+  return [(high ^ 0xffffffff) >>> 0, (low ^ 0xffffffff) >>> 0];
+}
+
+function skipVarint(input: Uint8Array, pos: number): number {
+  while (input[pos++] & 0x80) {
+    if (pos >= input.length) throw new XzError('Truncated xz block header');
+  }
+  return pos;
+}
+
+/**
+ * Decode LZMA2 chunks from pos until the end marker; returns the position after it
+ */
+function decodeLzma2(input: Uint8Array, pos: number, output: OutputBuffer): number {
+  let decoder: LzmaDecoder | null = null;
+
+  for (;;) {
+    const control = input[pos++];
+    if (control === undefined) throw new XzError('Truncated LZMA2 data');
+    if (control === 0x00) return pos;
+
+    if (control === 0x01 || control === 0x02) {
+      // Uncompressed chunk (0x01 also resets the dictionary)
+      const size = (input[pos] << 8 | input[pos + 1]) + 1;
+      pos += 2;
+      if (pos + size > input.length) throw new XzError('Truncated LZMA2 data');
+      if (control === 0x01) output.resetDictionary();
+      output.write(input.subarray(pos, pos + size));
+      pos += size;
+      continue;
+    }
+    if (control < 0x80) throw new XzError('Invalid LZMA2 chunk');
+
+    const unpackedSize = ((control & 0x1f) << 16) + (input[pos] << 8) + input[pos + 1] + 1;
+    const packedSize = (input[pos + 2] << 8 | input[pos + 3]) + 1;
+    pos += 4;
+    if (pos + packedSize > input.length) throw new XzError('Truncated LZMA2 data');
+
+    // Bits 5-6: 0 keep state, 1 reset state, 2 also read new properties, 3 also reset the dictionary
+    const reset = (control >> 5) & 0x03;
+    if (reset === 3) output.resetDictionary();
+    if (reset >= 2) {
+      decoder = new LzmaDecoder(input[pos++]);
+    } else if (reset === 1) {
+      decoder?.reset();
+    }
+    if (!decoder) throw new XzError('LZMA2 chunk without properties');
+
+    decoder.decode(new RangeDecoder(input, pos, pos + packedSize), output, unpackedSize);
+    pos += packedSize;
+  }
+}
+
+class OutputBuffer {
+  private buffer = new Uint8Array(64 * 1024);
+  length = 0;
+  dictionaryStart = 0;
+
+  constructor(private readonly maxSize: number) {}
+
+  resetDictionary(): void {
+    this.dictionaryStart = this.length;
+  }
+
+  write(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  put(byte: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = byte;
+  }
+
+  /**
+   * The byte `distance` bytes back from the end (1 is the last byte)
+   */
+  peek(distance: number): number {
+    return this.buffer[this.length - distance];
+  }
+
+  copyMatch(distance: number, length: number): void {
+    if (distance > this.length - this.dictionaryStart) throw new XzError('LZMA match distance out of range');
+    this.ensure(length);
+    for (let i = 0; i < length; i++) {
+      this.buffer[this.length] = this.buffer[this.length - distance];
+      this.length++;
+    }
+  }
+
+  range(start: number, end: number): Uint8Array {
+    return this.buffer.subarray(start, end);
+  }
+
+  bytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private ensure(extra: number): void {
+    const needed = this.length + extra;
+    if (needed > this.maxSize) throw new XzError('Decompressed data is too large');
+    if (needed <= this.buffer.length) return;
+    const grown = new Uint8Array(Math.min(this.maxSize, Math.max(needed, this.buffer.length * 2)));
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+}
+
+class RangeDecoder {
+  private range = 0xffffffff;
+  private code = 0;
+
+  constructor(private readonly input: Uint8Array, private pos: number, private readonly end: number) {
+    if (this.nextByte() !== 0) throw new XzError('Invalid LZMA range coder data');
+    for (let i = 0; i < 4; i++) this.code = this.code * 256 + this.nextByte();
+  }
+
+  decodeBit(probs: Uint16Array, index: number): number {
+    const bound = (this.range >>> 11) * probs[index];
+    let bit: number;
+    if (this.code < bound) {
+      probs[index] += (2048 - probs[index]) >> 5;
+      this.range = bound;
+      bit = 0;
+    } else {
+      probs[index] -= probs[index] >> 5;
+      this.code -= bound;
+      this.range -= bound;
+      bit = 1;
+    }
+    this.normalize();
+    return bit;
+  }
+
+  decodeDirectBits(count: number): number {
+    let result = 0;
+    for (let i = 0; i < count; i++) {
+      this.range = this.range >>> 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      result = result * 2 + bit;
+      this.normalize();
+    }
+    return result;
+  }
+
+  bitTree(probs: Uint16Array, offset: number, bits: number): number {
+    let m = 1;
+    for (let i = 0; i < bits; i++) m = m * 2 + this.decodeBit(probs, offset + m);
+    return m - (1 << bits);
+  }
+
+  reverseBitTree(probs: Uint16Array, offset: number, bits: number): number {
+    let m = 1;
+    let symbol = 0;
+    for (let i = 0; i < bits; i++) {
+      const bit = this.decodeBit(probs, offset + m);
+      m = m * 2 + bit;
+      symbol |= bit << i;
+    }
+    return symbol;
+  }
+
+  private normalize(): void {
+    if (this.range < 0x1000000) {
+      this.range = this.range * 256;
+      this.code = this.code * 256 + this.nextByte();
+    }
+  }
+
+  private nextByte(): number {
+    if (this.pos >= this.end) throw new XzError('Truncated LZMA chunk');
+    return this.input[this.pos++];
+  }
+}
+
+class LengthDecoder {
+  // choice, choice2, 16 low and 16 mid 3-bit trees, one 8-bit high tree
+  private probs = new Uint16Array(2 + (16 << 3) * 2 + 256);
+
+  reset(): void {
+    this.probs.fill(1024);
+  }
+
+  decode(rc: RangeDecoder, posState: number): number {
+    if (rc.decodeBit(this.probs, 0) === 0) return rc.bitTree(this.probs, 2 + (posState << 3), 3);
+    if (rc.decodeBit(this.probs, 1) === 0) return 8 + rc.bitTree(this.probs, 2 + (16 << 3) + (posState << 3), 3);
+    return 16 + rc.bitTree(this.probs, 2 + (16 << 3) * 2, 8);
+  }
+}
+
+/**
+ * LZMA decoder state that carries over between the chunks of an LZMA2 stream
+ */
+class LzmaDecoder {
+  private readonly lc: number;
+  private readonly lp: number;
+  private readonly pb: number;
+
+  private literals: Uint16Array;
+  private isMatch = new Uint16Array(NUM_STATES << POS_BITS_MAX);
+  private isRep = new Uint16Array(NUM_STATES);
+  private isRepG0 = new Uint16Array(NUM_STATES);
+  private isRepG1 = new Uint16Array(NUM_STATES);
+  private isRepG2 = new Uint16Array(NUM_STATES);
+  private isRep0Long = new Uint16Array(NUM_STATES << POS_BITS_MAX);
+  private posSlot = new Uint16Array(NUM_LEN_TO_POS_STATES << 6);
+  private posDecoders = new Uint16Array(1 + NUM_FULL_DISTANCES - END_POS_MODEL_INDEX);
+  private align = new Uint16Array(1 << NUM_ALIGN_BITS);
+  private lengths = new LengthDecoder();
+  private repLengths = new LengthDecoder();
+
+  private state = 0;
+  private reps = [0, 0, 0, 0];
+
+  constructor(properties: number) {
+    if (properties >= 9 * 5 * 5) throw new XzError('Invalid LZMA properties');
+    this.lc = properties % 9;
+    this.lp = Math.floor(properties / 9) % 5;
+    this.pb = Math.floor(properties / 45);
+    if (this.lc + this.lp > 4) throw new XzError('Invalid LZMA2 properties');
+    this.literals = new Uint16Array(0x300 << (this.lc + this.lp));
+    this.reset();
+  }
+
+  reset(): void {
+    for (const probs of [
+      this.literals, this.isMatch, this.isRep, this.isRepG0, this.isRepG1,
+      this.isRepG2, this.isRep0Long, this.posSlot, this.posDecoders, this.align,
+    ]) {
+      probs.fill(1024);
+    }
+    this.lengths.reset();
+    this.repLengths.reset();
+    this.state = 0;
+    this.reps = [0, 0, 0, 0];
+  }
+
+  decode(rc: RangeDecoder, output: OutputBuffer, size: number): void {
+    const end = output.length + size;
+    const pbMask = (1 << this.pb) - 1;
+
+    while (output.length < end) {
+      const position = output.length - output.dictionaryStart;
+      const posState = position & pbMask;
+
+      if (rc.decodeBit(this.isMatch, (this.state << POS_BITS_MAX) + posState) === 0) {
+        this.decodeLiteral(rc, output, position);
+        continue;
+      }
+
+      let length: number;
+      if (rc.decodeBit(this.isRep, this.state) !== 0) {
+        if (position === 0) throw new XzError('LZMA repeat match at the start of the dictionary');
+        if (rc.decodeBit(this.isRepG0, this.state) === 0) {
+          if (rc.decodeBit(this.isRep0Long, (this.state << POS_BITS_MAX) + posState) === 0) {
+            // A single byte from the last match distance
+            this.state = this.state < 7 ? 9 : 11;
+            output.put(output.peek(this.reps[0] + 1));
+            continue;
+          }
+        } else {
+          let distance: number;
+          if (rc.decodeBit(this.isRepG1, this.state) === 0) {
+            distance = this.reps[1];
+          } else {
+            if (rc.decodeBit(this.isRepG2, this.state) === 0) {
+              distance = this.reps[2];
+            } else {
+              distance = this.reps[3];
+              this.reps[3] = this.reps[2];
+            }
+            this.reps[2] = this.reps[1];
+          }
+          this.reps[1] = this.reps[0];
+          this.reps[0] = distance;
+        }
+        length = this.repLengths.decode(rc, posState);
+        this.state = this.state < 7 ? 8 : 11;
+      } else {
+        this.reps = [0, this.reps[0], this.reps[1], this.reps[2]];
+        length = this.lengths.decode(rc, posState);
+        this.state = this.state < 7 ? 7 : 10;
+        this.reps[0] = this.decodeDistance(rc, length);
+      }
+
+      // LZMA2 encoders end chunks on symbol boundaries
+      if (length + MATCH_MIN_LEN > end - output.length) throw new XzError('LZMA match crosses a chunk boundary');
+      output.copyMatch(this.reps[0] + 1, length + MATCH_MIN_LEN);
+    }
+  }
+
+  private decodeLiteral(rc: RangeDecoder, output: OutputBuffer, position: number): void {
+    const previous = position > 0 ? output.peek(1) : 0;
+    const offset = 0x300 * (((position & ((1 << this.lp) - 1)) << this.lc) + (previous >> (8 - this.lc)));
+
+    let symbol = 1;
+    if (this.state >= 7) {
+      // After a match, the byte at the match distance predicts this one
+      let matchByte = output.peek(this.reps[0] + 1);
+      do {
+        const matchBit = (matchByte >> 7) & 1;
+        matchByte <<= 1;
+        const bit = rc.decodeBit(this.literals, offset + ((1 + matchBit) << 8) + symbol);
+        symbol = (symbol << 1) | bit;
+        if (matchBit !== bit) break;
+      } while (symbol < 0x100);
+    }
+    while (symbol < 0x100) {
+      symbol = (symbol << 1) | rc.decodeBit(this.literals, offset + symbol);
+    }
+
+    output.put(symbol - 0x100);
+    this.state = this.state < 4 ? 0 : this.state < 10 ? this.state - 3 : this.state - 6;
+  }
+
+  private decodeDistance(rc: RangeDecoder, length: number): number {
+    const lenState = Math.min(length, NUM_LEN_TO_POS_STATES - 1);
+    const slot = rc.bitTree(this.posSlot, lenState << 6, 6);
+    if (slot < 4) return slot;
+
+    const directBits = (slot >> 1) - 1;
+    let distance = (2 | (slot & 1)) * 2 ** directBits;
+    if (slot < END_POS_MODEL_INDEX) {
+      distance += rc.reverseBitTree(this.posDecoders, distance - slot, directBits);
+    } else {
+      distance += rc.decodeDirectBits(directBits - NUM_ALIGN_BITS) * (1 << NUM_ALIGN_BITS);
+      distance += rc.reverseBitTree(this.align, 0, NUM_ALIGN_BITS);
+    }
+    return distance;
+  }
+}
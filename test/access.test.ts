@@ -0,0 +1,128 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ReleaseFile } from '../src/types';
+import { apiRequest, registerProduct, request, statusOf, uploadRelease } from './helpers';
+
+const PUBLIC_KEY = 'zz-public/1.0.0/linux-x64/zz-public.tar.gz';
+const PRIVATE_KEY = 'zz-private/1.0.0/linux-x64/zz-private.tar.gz';
+const OTHER_PRIVATE_KEY = 'zz-secret/1.0.0/linux-x64/zz-secret.tar.gz';
+
+async function createToken(products: string[]): Promise<string> {
+  const response = await apiRequest('/api/admin/tokens', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name: 'partner', products }),
+  });
+  expect(response.status).toBe(201);
+  const { token } = await response.json<{ token: string }>();
+  return token;
+}
+
+function withToken(token: string): RequestInit {
+  return { headers: { Authorization: `Bearer ${token}` } };
+}
+
+async function listedProducts(init?: RequestInit): Promise<string[]> {
+  const response = await request('/api/releases', init);
+  const { releases } = await response.json<{ releases: ReleaseFile[] }>();
+  return [...new Set(releases.map((release) => release.metadata.product))].sort();
+}
+
+beforeEach(async () => {
+  await registerProduct('zz-public');
+  await registerProduct('zz-private', 'private');
+  await registerProduct('zz-secret', 'private');
+  for (const key of [PUBLIC_KEY, PRIVATE_KEY, OTHER_PRIVATE_KEY]) {
+    expect(await statusOf(uploadRelease(key, key))).toBe(201);
+  }
+});
+
+describe('hidden products', () => {
+  it('leaves private products out of listings and stats for anonymous callers', async () => {
+    expect(await listedProducts()).toEqual(['zz-public']);
+    expect(await listedProducts({ headers: { Authorization: `Bearer ${env.API_TOKEN}` } }))
+      .toEqual(['zz-private', 'zz-public', 'zz-secret']);
+
+    const response = await request('/api/stats');
+    expect(await response.json()).toMatchObject({ stats: { totalReleases: 1 } });
+  });
+
+  it('asks anonymous callers for a token to download a private product', async () => {
+    const response = await request(`/download/${PRIVATE_KEY}`);
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer realm="cogix-release"');
+    await response.body?.cancel();
+
+    expect(await statusOf(request(`/download/${PUBLIC_KEY}`))).toBe(200);
+  });
+});
+
+describe('scoped access tokens', () => {
+  it('grant the products they name and nothing else', async () => {
+    const token = await createToken(['zz-private']);
+
+    expect(await listedProducts(withToken(token))).toEqual(['zz-private', 'zz-public']);
+    expect(await statusOf(request(`/download/${PRIVATE_KEY}`, withToken(token)))).toBe(200);
+    expect(await statusOf(request(`/download/${PUBLIC_KEY}`, withToken(token)))).toBe(200);
+
+    const denied = await request(`/download/${OTHER_PRIVATE_KEY}`, withToken(token));
+    expect(denied.status).toBe(403);
+    expect(await denied.json()).toEqual({ success: false, error: 'Token does not grant access to zz-secret' });
+  });
+
+  it('make responses privately cacheable', async () => {
+    const token = await createToken(['zz-private']);
+    const scoped = await request(`/download/${PUBLIC_KEY}`, withToken(token));
+    expect(scoped.headers.get('Cache-Control')).toMatch(/^private,/);
+    await scoped.body?.cancel();
+
+    const anonymous = await request(`/download/${PUBLIC_KEY}`);
+    expect(anonymous.headers.get('Cache-Control')).toMatch(/^public,/);
+    await anonymous.body?.cancel();
+  });
+
+  it('don\'t open the admin API', async () => {
+    const token = await createToken(['zz-private']);
+    expect(await statusOf(request('/api/admin/tokens', withToken(token)))).toBe(403);
+  });
+
+  it('are stored by hash and stop working once revoked', async () => {
+    const token = await createToken(['zz-private']);
+    const row = await env.DB.prepare('SELECT * FROM access_tokens').first<Record<string, unknown>>();
+    expect(Object.values(row!)).not.toContain(token);
+
+    const { id } = row as { id: string };
+    expect(await statusOf(apiRequest(`/api/admin/tokens/${id}`, { method: 'DELETE' }))).toBe(200);
+    expect(await statusOf(request(`/download/${PRIVATE_KEY}`, withToken(token)))).toBe(403);
+  });
+});
+
+describe('unknown and expired tokens', () => {
+  it('are treated as anonymous on public routes', async () => {
+    const token = await createToken(['zz-private']);
+    await env.DB.prepare('UPDATE access_tokens SET expires_at = ?').bind(new Date(0).toISOString()).run();
+
+    for (const init of [withToken('crt_unknown'), withToken(token)]) {
+      expect(await statusOf(request(`/download/${PUBLIC_KEY}`, init))).toBe(200);
+      expect(await statusOf(request('/latest/zz-public/linux-x64', { ...init, redirect: 'manual' }))).toBe(302);
+      expect(await listedProducts(init)).toEqual(['zz-public']);
+    }
+  });
+
+  it('are rejected for private products', async () => {
+    const unknown = await request(`/download/${PRIVATE_KEY}`, withToken('crt_unknown'));
+    expect(unknown.status).toBe(403);
+    expect(await unknown.json()).toEqual({ success: false, error: 'Invalid API token' });
+
+    const token = await createToken(['zz-private']);
+    await env.DB.prepare('UPDATE access_tokens SET expires_at = ?').bind(new Date(0).toISOString()).run();
+    const expired = await request(`/download/${PRIVATE_KEY}`, withToken(token));
+    expect(expired.status).toBe(401);
+    expect(expired.headers.get('WWW-Authenticate')).toContain('error="invalid_token"');
+    expect(await expired.json()).toEqual({ success: false, error: 'API token expired' });
+  });
+
+  it('are rejected on authenticated routes', async () => {
+    expect(await statusOf(request('/api/admin/tokens', withToken('crt_unknown')))).toBe(403);
+  });
+});
@@ -0,0 +1,178 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { deleteReleases } from '../src/release-index';
+import type { ReleaseFile } from '../src/types';
+import { apiRequest, registerProduct, sha256Hex, statusOf, uploadRelease } from './helpers';
+
+const KEY = 'zz-app/1.0.0/linux-x64/zz-app.tar.gz';
+const OTHER_KEY = 'zz-app/1.0.0/windows-x64/setup.exe';
+const BODY = 'release artifact';
+
+function patch(path: string, body: unknown): Promise<Response> {
+  return apiRequest(`/api/releases/${path}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+async function listKeys(query = ''): Promise<string[]> {
+  const response = await apiRequest(`/api/releases/zz-app${query}`);
+  const { releases } = await response.json<{ releases: ReleaseFile[] }>();
+  return releases.map((release) => release.key).sort();
+}
+
+/**
+ * Drop the whole index and rebuild it from the bucket
+ */
+async function rebuildEmptyIndex(): Promise<void> {
+  await env.DB.prepare('DELETE FROM releases').run();
+  expect(await statusOf(apiRequest('/api/admin/index/rebuild', { method: 'POST' }))).toBe(200);
+}
+
+beforeEach(async () => {
+  await registerProduct('zz-app');
+  expect(await statusOf(uploadRelease(KEY, BODY))).toBe(201);
+  expect(await statusOf(uploadRelease(OTHER_KEY, 'setup'))).toBe(201);
+});
+
+describe('PATCH /api/releases/:product/:version/:platform-:arch/:filename', () => {
+  it('rewrites the object\'s customMetadata and keeps its body and upload date', async () => {
+    const before = (await env.RELEASES.head(KEY))!;
+
+    const response = await patch(KEY, { description: 'Fixed build', channel: 'beta' });
+    expect(response.status).toBe(200);
+    const { release } = await response.json<{ release: ReleaseFile }>();
+    expect(release.metadata).toMatchObject({ description: 'Fixed build', channel: 'beta' });
+
+    const object = (await env.RELEASES.get(KEY))!;
+    expect(await object.text()).toBe(BODY);
+    expect(object.customMetadata).toMatchObject({
+      description: 'Fixed build',
+      channel: 'beta',
+      uploadDate: before.uploaded.toISOString(),
+      // The SHA-256 computed on upload moves into the object on its first edit
+      checksum: `sha256:${await sha256Hex(BODY)}`,
+    });
+  });
+
+  it('keeps edits across an index rebuild into an empty database', async () => {
+    expect(await statusOf(patch(KEY, { description: 'Fixed build', channel: 'beta' }))).toBe(200);
+    await rebuildEmptyIndex();
+
+    const row = await env.DB.prepare('SELECT * FROM releases WHERE key = ?').bind(KEY).first();
+    expect(row).toMatchObject({ description: 'Fixed build', channel: 'beta', checksum: `sha256:${await sha256Hex(BODY)}` });
+  });
+
+  it('clears a field set to null', async () => {
+    expect(await statusOf(patch(KEY, { description: 'Fixed build', checksum: null }))).toBe(200);
+    expect(await statusOf(patch(KEY, { description: null }))).toBe(200);
+
+    const { customMetadata } = (await env.RELEASES.head(KEY))!;
+    expect(customMetadata?.description).toBeUndefined();
+    expect(customMetadata?.checksum).toBeUndefined();
+    const row = await env.DB.prepare('SELECT description, checksum FROM releases WHERE key = ?').bind(KEY).first();
+    expect(row).toEqual({ description: null, checksum: null });
+  });
+
+  it.each([
+    [{}, 'Nothing to update'],
+    [{ version: '2.0.0' }, 'Field cannot be edited: version'],
+    [{ channel: 'canary' }, 'Invalid channel: canary'],
+    [{ checksum: 'md5:abc' }, 'checksum must be a SHA-256 digest'],
+    [{ yanked: 'yes' }, 'yanked must be a boolean'],
+  ])('rejects %j', async (body, error) => {
+    const response = await patch(KEY, body);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ success: false, error: expect.stringContaining(error) });
+  });
+
+  it('answers 404 for a missing artifact', async () => {
+    expect(await statusOf(patch('zz-app/1.0.0/linux-x64/missing.bin', { description: 'x' }))).toBe(404);
+  });
+});
+
+describe('POST /api/releases/:product/:version/promote', () => {
+  it('moves a version to another channel in the bucket and the index', async () => {
+    await registerProduct('zz-beta');
+    const key = 'zz-beta/2.0.0-rc.1/linux-x64/zz-beta.tar.gz';
+    expect(await statusOf(uploadRelease(key, BODY))).toBe(201);
+    expect((await env.DB.prepare('SELECT channel FROM releases WHERE key = ?').bind(key).first())?.channel).toBe('beta');
+
+    const response = await apiRequest('/api/releases/zz-beta/2.0.0-rc.1/promote', { method: 'POST' });
+    expect(await response.json()).toMatchObject({ channel: 'stable', count: 1 });
+    expect((await env.RELEASES.head(key))!.customMetadata?.channel).toBe('stable');
+
+    await rebuildEmptyIndex();
+    expect((await env.DB.prepare('SELECT channel FROM releases WHERE key = ?').bind(key).first())?.channel).toBe('stable');
+  });
+
+  it('rejects an unknown channel', async () => {
+    const response = await apiRequest('/api/releases/zz-app/1.0.0/promote', {
+      method: 'POST',
+      body: JSON.stringify({ channel: 'canary' }),
+    });
+    expect(response.status).toBe(400);
+    await response.arrayBuffer();
+  });
+});
+
+describe('yanking', () => {
+  it('hides a version from listings until it is unyanked, even after a rebuild', async () => {
+    const response = await apiRequest('/api/releases/zz-app/1.0.0/yank', {
+      method: 'POST',
+      body: JSON.stringify({ reason: 'Broken installer' }),
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ yanked: true, count: 2 });
+    expect((await env.RELEASES.head(KEY))!.customMetadata?.yanked).toBe('true');
+
+    await rebuildEmptyIndex();
+    expect(await listKeys()).toEqual([]);
+    expect(await statusOf(apiRequest(`/download/${KEY}`))).toBe(200);
+
+    expect(await statusOf(apiRequest('/api/releases/zz-app/1.0.0/unyank', { method: 'POST' }))).toBe(200);
+    expect(await listKeys()).toEqual([KEY, OTHER_KEY]);
+    expect((await env.RELEASES.head(KEY))!.customMetadata?.yanked).toBeUndefined();
+  });
+});
+
+describe('PATCH /api/releases/:product/:version', () => {
+  it('edits every artifact of the version', async () => {
+    const response = await patch('zz-app/1.0.0', { channel: 'nightly' });
+    expect(await response.json()).toMatchObject({ count: 2 });
+    expect(await listKeys('?channel=nightly')).toEqual([KEY, OTHER_KEY]);
+  });
+
+  it('doesn\'t set one checksum on every artifact', async () => {
+    expect(await statusOf(patch('zz-app/1.0.0', { checksum: `sha256:${'0'.repeat(64)}` }))).toBe(400);
+  });
+});
+
+describe('deleting', () => {
+  it('deletes an artifact with its update signature from the bucket and the index', async () => {
+    expect(await statusOf(uploadRelease(`${KEY}.sig`, 'signature'))).toBe(201);
+
+    expect(await statusOf(apiRequest(`/api/releases/${KEY}`, { method: 'DELETE' }))).toBe(200);
+    expect(await env.RELEASES.head(KEY)).toBeNull();
+    expect(await env.RELEASES.head(`${KEY}.sig`)).toBeNull();
+    const { count } = (await env.DB.prepare('SELECT COUNT(*) AS count FROM releases WHERE key LIKE ?').bind(`${KEY}%`).first<{ count: number }>())!;
+    expect(count).toBe(0);
+  });
+
+  it('doesn\'t look for a signature of a signature', async () => {
+    const bucket = { delete: vi.fn(async () => undefined) };
+    await deleteReleases({ ...env, RELEASES: bucket as unknown as R2Bucket }, [KEY, `${OTHER_KEY}.sig`]);
+    expect(bucket.delete).toHaveBeenCalledWith([KEY, `${KEY}.sig`, `${OTHER_KEY}.sig`]);
+  });
+
+  it('deletes a whole version and records it in the audit log', async () => {
+    const response = await apiRequest('/api/releases/zz-app/1.0.0', { method: 'DELETE' });
+    expect(await response.json()).toMatchObject({ count: 2 });
+    expect(await listKeys()).toEqual([]);
+
+    const audit = await apiRequest('/api/admin/audit?action=release.delete');
+    const { entries } = await audit.json<{ entries: { product: string; version: string }[] }>();
+    expect(entries).toMatchObject([{ product: 'zz-app', version: '1.0.0' }]);
+  });
+});
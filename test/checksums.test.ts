@@ -0,0 +1,127 @@
+import { env } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiRequest, registerProduct, request, sha256Hex, statusOf, uploadRelease } from './helpers';
+
+const KEY = 'zz-app/1.0.0/linux-x64/zz-app.tar.gz';
+const BODY = 'release artifact';
+
+beforeEach(async () => {
+  await registerProduct('zz-app');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('upload checksums', () => {
+  it('hashes the upload into the release index', async () => {
+    const response = await uploadRelease(KEY, BODY);
+    expect(response.status).toBe(201);
+    const { release } = await response.json<{ release: { metadata: { checksum: string } } }>();
+    expect(release.metadata.checksum).toBe(`sha256:${await sha256Hex(BODY)}`);
+
+    const indexed = await env.DB.prepare('SELECT checksum FROM releases WHERE key = ?').bind(KEY).first<{ checksum: string }>();
+    expect(indexed?.checksum).toBe(`sha256:${await sha256Hex(BODY)}`);
+  });
+
+  it('accepts an upload that matches X-Release-Checksum', async () => {
+    const checksum = `sha256:${await sha256Hex(BODY)}`;
+    expect(await statusOf(uploadRelease(KEY, BODY, { 'X-Release-Checksum': checksum }))).toBe(201);
+  });
+
+  it('rejects and removes an upload that doesn\'t match X-Release-Checksum', async () => {
+    const response = await uploadRelease(KEY, BODY, { 'X-Release-Checksum': `sha256:${'0'.repeat(64)}` });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ success: false, error: expect.stringContaining('Checksum mismatch') });
+
+    expect(await env.RELEASES.head(KEY)).toBeNull();
+    expect(await env.DB.prepare('SELECT key FROM releases WHERE key = ?').bind(KEY).first()).toBeNull();
+  });
+
+  it('stores nothing when the body ends before its Content-Length', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(BODY));
+        controller.close();
+      },
+    });
+
+    const response = await apiRequest(`/api/releases/${KEY}`, { method: 'PUT', headers: { 'Content-Length': '1000' }, body });
+    expect(response.status).toBe(500);
+    await response.arrayBuffer();
+    expect(await env.RELEASES.head(KEY)).toBeNull();
+  });
+
+  it('rejects a malformed X-Release-Checksum before storing anything', async () => {
+    expect(await statusOf(uploadRelease(KEY, BODY, { 'X-Release-Checksum': 'md5:abc' }))).toBe(400);
+    expect(await env.RELEASES.head(KEY)).toBeNull();
+  });
+});
+
+describe('checksum files and headers', () => {
+  beforeEach(async () => {
+    expect(await statusOf(uploadRelease(KEY, BODY))).toBe(201);
+  });
+
+  it('sends Digest and Content-Digest with downloads', async () => {
+    const response = await request(`/download/${KEY}`);
+    await response.arrayBuffer();
+    const digest = btoa(String.fromCharCode(...(await sha256Hex(BODY)).match(/../g)!.map((hex) => parseInt(hex, 16))));
+    expect(response.headers.get('Digest')).toBe(`sha-256=${digest}`);
+    expect(response.headers.get('Content-Digest')).toBe(`sha-256=:${digest}:`);
+  });
+
+  it('generates a .sha256 sidecar in sha256sum format', async () => {
+    const response = await request(`/download/${KEY}.sha256`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(`${await sha256Hex(BODY)}  zz-app.tar.gz\n`);
+  });
+
+  it('lists a version in SHA256SUMS, qualifying filenames shared across platforms', async () => {
+    expect(await statusOf(uploadRelease('zz-app/1.0.0/macos-arm64/zz-app.tar.gz', 'other'))).toBe(201);
+    expect(await statusOf(uploadRelease('zz-app/1.0.0/windows-x64/setup.exe', 'setup'))).toBe(201);
+
+    const response = await request('/checksums/zz-app/1.0.0/SHA256SUMS');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+    expect(await response.text()).toBe(
+      `${await sha256Hex(BODY)}  linux-x64/zz-app.tar.gz\n` +
+      `${await sha256Hex('other')}  macos-arm64/zz-app.tar.gz\n` +
+      `${await sha256Hex('setup')}  setup.exe\n`,
+    );
+  });
+
+  it('answers 404 for a version without releases', async () => {
+    expect(await statusOf(request('/checksums/zz-app/9.9.9/SHA256SUMS'))).toBe(404);
+  });
+});
+
+describe('.sha256 sidecars of private artifacts', () => {
+  const PRIVATE_KEY = 'zz-private/1.0.0/linux-x64/zz-private.bin';
+
+  beforeEach(async () => {
+    await registerProduct('zz-private', 'private');
+    expect(await statusOf(uploadRelease(PRIVATE_KEY, BODY))).toBe(201);
+  });
+
+  it('requires access to the product', async () => {
+    expect(await statusOf(request(`/download/${PRIVATE_KEY}.sha256`))).toBe(401);
+  });
+
+  it('accepts a URL signed for the artifact without spending a use, and stays out of shared caches', async () => {
+    const signResponse = await apiRequest('/api/sign', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ key: PRIVATE_KEY, maxUses: 1 }),
+    });
+    const signed = new URL((await signResponse.json<{ url: string }>()).url);
+    const sidecar = `${signed.pathname}.sha256${signed.search}`;
+
+    const response = await request(sidecar);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('private, max-age=31536000');
+    expect(await response.text()).toBe(`${await sha256Hex(BODY)}  zz-private.bin\n`);
+    expect(await statusOf(request(`${signed.pathname}${signed.search}`))).toBe(200);
+  });
+});
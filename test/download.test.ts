@@ -0,0 +1,129 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { request } from './helpers';
+
+const KEY = 'zz-app/1.0.0/linux-x64/zz-app.bin';
+// 100 bytes: "0123456789" ten times
+const BODY = '0123456789'.repeat(10);
+
+function download(key: string, init?: RequestInit): Promise<Response> {
+  return request(`/download/${key}`, init);
+}
+
+beforeEach(async () => {
+  await env.RELEASES.put(KEY, BODY);
+});
+
+describe('GET /download/* range requests', () => {
+  it('serves the whole file without a Range header', async () => {
+    const response = await download(KEY);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=31536000');
+    expect(await response.text()).toBe(BODY);
+  });
+
+  it.each([
+    ['bytes=0-9', 'bytes 0-9/100', BODY.slice(0, 10)],
+    ['bytes=95-', 'bytes 95-99/100', BODY.slice(95)],
+    ['bytes=-5', 'bytes 95-99/100', BODY.slice(95)],
+    ['bytes=90-200', 'bytes 90-99/100', BODY.slice(90)],
+    ['bytes=-500', 'bytes 0-99/100', BODY],
+  ])('serves %s as one part', async (range, contentRange, body) => {
+    const response = await download(KEY, { headers: { Range: range } });
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Range')).toBe(contentRange);
+    expect(response.headers.get('Content-Length')).toBe(String(body.length));
+    expect(await response.text()).toBe(body);
+  });
+
+  it('answers ranges past the end with 416', async () => {
+    const response = await download(KEY, { headers: { Range: 'bytes=100-' } });
+    expect(response.status).toBe(416);
+    expect(response.headers.get('Content-Range')).toBe('bytes */100');
+  });
+
+  it.each(['bytes=5-2', 'items=0-1', 'bytes=-', 'bytes=a-b', `bytes=${'0-0,'.repeat(16)}0-0`])(
+    'ignores %s and serves the whole file',
+    async (range) => {
+      const response = await download(KEY, { headers: { Range: range } });
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe(BODY);
+    },
+  );
+
+  it('serves several ranges as multipart/byteranges', async () => {
+    const response = await download(KEY, { headers: { Range: 'bytes=0-1, 98-99' } });
+    expect(response.status).toBe(206);
+    const boundary = response.headers.get('Content-Type')?.match(/^multipart\/byteranges; boundary=(\w+)$/)?.[1];
+    expect(boundary).toBeDefined();
+
+    const text = await response.text();
+    expect(Number(response.headers.get('Content-Length'))).toBe(new TextEncoder().encode(text).length);
+    expect(text).toBe(
+      `\r\n--${boundary}\r\nContent-Type: application/octet-stream\r\nContent-Range: bytes 0-1/100\r\n\r\n01` +
+      `\r\n--${boundary}\r\nContent-Type: application/octet-stream\r\nContent-Range: bytes 98-99/100\r\n\r\n89` +
+      `\r\n--${boundary}--\r\n`,
+    );
+  });
+
+  it('only honours Range when If-Range still matches', async () => {
+    const { httpEtag } = (await env.RELEASES.head(KEY))!;
+
+    const matching = await download(KEY, { headers: { Range: 'bytes=0-0', 'If-Range': httpEtag } });
+    expect(matching.status).toBe(206);
+    expect(await matching.text()).toBe('0');
+
+    const stale = await download(KEY, { headers: { Range: 'bytes=0-0', 'If-Range': '"stale"' } });
+    expect(stale.status).toBe(200);
+    expect(await stale.text()).toBe(BODY);
+  });
+});
+
+describe('GET /download/* conditional and HEAD requests', () => {
+  it('answers 304 when If-None-Match names the current ETag, weak or strong', async () => {
+    const { httpEtag } = (await env.RELEASES.head(KEY))!;
+
+    for (const ifNoneMatch of [httpEtag, `W/${httpEtag}`, `"other", ${httpEtag}`, '*']) {
+      const response = await download(KEY, { headers: { 'If-None-Match': ifNoneMatch } });
+      expect(response.status, ifNoneMatch).toBe(304);
+      expect(response.headers.get('ETag')).toBe(httpEtag);
+      expect(await response.text()).toBe('');
+    }
+
+    const changed = await download(KEY, { headers: { 'If-None-Match': '"other"' } });
+    expect(changed.status).toBe(200);
+    expect(await changed.text()).toBe(BODY);
+  });
+
+  it('compares If-Modified-Since with the upload time', async () => {
+    const { uploaded } = (await env.RELEASES.head(KEY))!;
+
+    const notModified = await download(KEY, { headers: { 'If-Modified-Since': uploaded.toUTCString() } });
+    expect(notModified.status).toBe(304);
+    await notModified.arrayBuffer();
+
+    const earlier = new Date(uploaded.getTime() - 60_000).toUTCString();
+    const modified = await download(KEY, { headers: { 'If-Modified-Since': earlier } });
+    expect(modified.status).toBe(200);
+    expect(await modified.text()).toBe(BODY);
+  });
+
+  it('answers HEAD with the headers of the GET and no body', async () => {
+    const response = await download(KEY, { method: 'HEAD' });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Length')).toBe('100');
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(await response.text()).toBe('');
+
+    const range = await download(KEY, { method: 'HEAD', headers: { Range: 'bytes=0-9' } });
+    expect(range.status).toBe(206);
+    expect(range.headers.get('Content-Length')).toBe('10');
+  });
+
+  it('answers 404 for a missing file', async () => {
+    const response = await download('zz-app/1.0.0/linux-x64/missing.bin');
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ success: false, error: 'File not found' });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Binary test fixtures, base64-encoded since tests run in workerd without a
+ * file system.
+ *
+ * The .deb packages hold the same package, built with dpkg-deb 1.21.22 from a
+ * tree whose DEBIAN/control is DEB_CONTROL and with a shell script at
+ * usr/bin/zz-hello:
+ *
+ *   dpkg-deb --root-owner-group -Z<gzip|xz|zstd> -b pkg hello.deb
+ */
+
+export const DEB_CONTROL = `Package: zz-hello
+Version: 1.2.3-1
+Architecture: amd64
+Maintainer: Test <test@example.com>
+Description: A test package
+ multi-line description
+`;
+
+// control.tar.gz and data.tar.gz
+export const DEB_GZIP = fromBase64(
+  'ITxhcmNoPgpkZWJpYW4tYmluYXJ5ICAgMTc5MjQzMDg0OCAgMCAgICAgMCAgICAgMTAwNjQ0ICA0ICAgICAgICAgYAoyLjAKY29u' +
+  'dHJvbC50YXIuZ3ogIDE3OTI0MzA4NDggIDAgICAgIDAgICAgIDEwMDY0NCAgMjQ3ICAgICAgIGAKH4sIAAAAAAACA+3RzWrEIBQF' +
+  'YNc+xX2BOGOiCYRSOtBtoYvSvTjSkTExGANlnr42XZQW+rNJoXA+0Ct6uC6u2LHN7YtO67UWn+t6lrputdJSrfddJxtGmv2BZc4m' +
+  'EbEUY/4u99P7PyV2No45xbDx/Fulvpx/LbuP85eykS2jPea/uXtjz+bJ9XS5VCcXQuSPLs0+jj1JUYumkvyQ7MlnZ/OSSs4Mx1bx' +
+  'O+PHXJZLPT24OdNVLvuNezbDFJywcbjmt262yU95bXag1wBNb99xGpaQfRVKBzq+5zgDAAAAAAAAAAAAAAAAAAAAAIDfewHosLtk' +
+  'ACgAAApkYXRhLnRhci5neiAgICAgMTc5MjQzMDg0OCAgMCAgICAgMCAgICAgMTAwNjQ0ICAxNjIgICAgICAgYAofiwgAAAAAAAID' +
+  '7dG9CsIwFEDhzD5FxNnmx1zzPApChWIgaZc+vSVjhzq1tnC+5V6Su53GqNXZSRSpczKfdXfi7xLEhfoeo7spLWoDQ+kfWWuVU+qX' +
+  '7n79H1RjhpLNzvo7Kz7Qf7v+z/fH7Km/85H+G/cfx2v76rr0h/7Oz/r7KFFpS//VXc41fmlPCgAAAAAAAAAAAAAAHNQXat6iiQAo' +
+  'AAA=',
+);
+
+// control.tar.xz and data.tar.xz
+export const DEB_XZ = fromBase64(
+  'ITxhcmNoPgpkZWJpYW4tYmluYXJ5ICAgMTc5MjQzMDg0OCAgMCAgICAgMCAgICAgMTAwNjQ0ICA0ICAgICAgICAgYAoyLjAKY29u' +
+  'dHJvbC50YXIueHogIDE3OTI0MzA4NDggIDAgICAgIDAgICAgIDEwMDY0NCAgMzE2ICAgICAgIGAK/Td6WFoAAATm1rRGBMD6AYBQ' +
+  'IQEWAAAAAAAAAGglAs/gJ/8A8l0AFwu8HH0BlcAdSj55FcLMJqNjFmLewrhHtHF47VA2l4R4tvyC5mJuacwyUwAhpwU4iuO5l6Pl' +
+  'SIeM/5zLxFFkTgr+cVwl/J3zaGO/XkukBXNiXWvrExV/o3hanvvHscKHvGQKY7Ig87Y1ZFvCu+sU8gFqcvn64e2Z9RiuyFb4Ww96' +
+  'pYsw1MpHHHyIqztaLBctolWuOrvFzzNLqBqH9iiLg/AmmhMjS4EJma5EdIbaPjyuKx/LOtKXlHjFD1oGE3H7e2dveITrqn8xMeLZ' +
+  'IYepq0zsLa/ESRoGDTkl/3YrbPT1pl0E2Pwkopc2j/CJLjDeBQAAAAD627HFLnMWlgABlgKAUAAAaOpP87HEZ/sCAAAAAARZWmRh' +
+  'dGEudGFyLnh6ICAgICAxNzkyNDMwODQ4ICAwICAgICAwICAgICAxMDA2NDQgIDIyNCAgICAgICBgCv03elhaAAAE5ta0RgTAnwGA' +
+  'UCEBFgAAAAAAAAAsxHzH4Cf/AJddABcLvBx9AZXAHUo+eRXCzCajYxZi3sK4R7RxeO1QNpeEeLb8guZibmnMMlMAIacFOIrjuZej' +
+  '5UiHmUEW8o7lkfic0wxdPqaMh7q6oFNM/vNAq9GukoQFrWY9pE+3jueVB5G4uimaGiEYdfSNFznY9LobMQlkEpJyiU8QvaUuOIJg' +
+  '1v22Vip7kQ3ScxbVkDXPfo8eNHpparwAAOA601HpDC1vAAG7AYBQAABQht0PscRn+wIAAAAABFla',
+);
+
+// control.tar.zst and data.tar.zst, the default on Ubuntu since 21.10
+export const DEB_ZSTD = fromBase64(
+  'ITxhcmNoPgpkZWJpYW4tYmluYXJ5ICAgMTc5MjQzMDg0OCAgMCAgICAgMCAgICAgMTAwNjQ0ICA0ICAgICAgICAgYAoyLjAKY29u' +
+  'dHJvbC50YXIuenN0IDE3OTI0MzA4NDggIDAgICAgIDAgICAgIDEwMDY0NCAgMjIzICAgICAgIGAKKLUv/WQAJ40GAHILJR5gSetQ' +
+  'L3JPtAvVLlz5ajQgaiNE+iUyE/kDYhAQIEjooB0fLN7DZlHEqBqeee5mCyCARbrUkFlaQgf87C/ozy5QxTu+9vG1AaTYYWmqtDfv' +
+  '+h/CuQFxgaQjsSpRvultgCSEjSgSCVX6oCG4RrB6GCPMCR9KMSj9o3RGein9qHr72Sw9CCeJ4qUWOxaf3V0r2d09RgoWAAsDeAD0' +
+  'K11LoZIDYqKGIxTaAwbUCGQ3QNbJN7A4NNPRAAUAQ+4FgBJY0BwzZqhGsAKAY+UyPoEhfKQt5gpkYXRhLnRhci56c3QgICAgMTc5' +
+  'MjQzMDg0OCAgMCAgICAgMCAgICAgMTAwNjQ0ICAxNDcgICAgICAgYAootS/9ZAAnLQQAEsURGICpOuTuDNbHZUzImiSyv5Tw8CHL' +
+  'BSGVAYVRgIDx9qua6JyDEbS2miSBMBS9MylGxkIoHWIqLMWON8jdki8n6PNs/2vbR0YWAJyf6wGBGQDkFoMB1YAOQ5ByN6COBKBI' +
+  'GlDVASIKfEBMSgNUAAy5FwBKYEFzzJihGsEKAI6Vy/gEhoiNbE0K',
+);
+
+/**
+ * The payloads of the .xz streams below, compressed with xz 5.6.4
+ */
+export function xzText(): Uint8Array {
+  return new TextEncoder().encode(Array.from({ length: 200 }, (_, i) => `Line ${i} of the xz test payload\n`).join(''));
+}
+
+// 1 KiB from a linear congruential generator, which doesn't compress
+export function xzNoise(): Uint8Array {
+  let state = 1;
+  return Uint8Array.from({ length: 1024 }, () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return state >>> 24;
+  });
+}
+
+// xz --check=none, --check=crc32, --check=crc64 and --check=sha256 of xzText()
+export const XZ_NONE = fromBase64(
+  '/Td6WFoAAAD/EtlBBMCPApIxIQEWAAAAAAAAABWufW3gGJEBB10AJhpJxmdBOyeGgp/o5lY7BSWtPYmbF7ejv4i49Tk4lAR04hHl' +
+  'NhXS4fJriqDtrnragkgsgY/eUUGkPLW4ddM6RJru2/bR6+hPm8rdeAA9q4Jsp3YU/OQJnhQhPdVUHmy5xRgYYQKW95cUe2NWooCG' +
+  'UYS43sI3h8s545bgMkafE2fywL8o7RFre+7GpOXmanZbCfbWO/5Yv0rQSyuYly3/dBUR/eMlHjico+vjQoIYHo3ExaMMiSNcsfD2' +
+  'E1QOhyrPoQmM2ABWqhqfYNTdATBaoKeRlMlqRa55dQ12tz4rl3ygtatj7YhvcP6Zdmgf93/NI2OKaU7wt/AvOhD16UiMNpjINs7u' +
+  'N7IAAAABowKSMQAAdUL9FKgACvwCAAAAAABZWg==',
+);
+export const XZ_CRC32 = fromBase64(
+  '/Td6WFoAAAFpIt42BMCPApIxIQEWAAAAAAAAABWufW3gGJEBB10AJhpJxmdBOyeGgp/o5lY7BSWtPYmbF7ejv4i49Tk4lAR04hHl' +
+  'NhXS4fJriqDtrnragkgsgY/eUUGkPLW4ddM6RJru2/bR6+hPm8rdeAA9q4Jsp3YU/OQJnhQhPdVUHmy5xRgYYQKW95cUe2NWooCG' +
+  'UYS43sI3h8s545bgMkafE2fywL8o7RFre+7GpOXmanZbCfbWO/5Yv0rQSyuYly3/dBUR/eMlHjico+vjQoIYHo3ExaMMiSNcsfD2' +
+  'E1QOhyrPoQmM2ABWqhqfYNTdATBaoKeRlMlqRa55dQ12tz4rl3ygtatj7YhvcP6Zdmgf93/NI2OKaU7wt/AvOhD16UiMNpjINs7u' +
+  'N7IAAFmW/noAAacCkjEAAGMAbI8+MA2LAgAAAAABWVo=',
+);
+export const XZ_CRC64 = fromBase64(
+  '/Td6WFoAAATm1rRGBMCPApIxIQEWAAAAAAAAABWufW3gGJEBB10AJhpJxmdBOyeGgp/o5lY7BSWtPYmbF7ejv4i49Tk4lAR04hHl' +
+  'NhXS4fJriqDtrnragkgsgY/eUUGkPLW4ddM6RJru2/bR6+hPm8rdeAA9q4Jsp3YU/OQJnhQhPdVUHmy5xRgYYQKW95cUe2NWooCG' +
+  'UYS43sI3h8s545bgMkafE2fywL8o7RFre+7GpOXmanZbCfbWO/5Yv0rQSyuYly3/dBUR/eMlHjico+vjQoIYHo3ExaMMiSNcsfD2' +
+  'E1QOhyrPoQmM2ABWqhqfYNTdATBaoKeRlMlqRa55dQ12tz4rl3ygtatj7YhvcP6Zdmgf93/NI2OKaU7wt/AvOhD16UiMNpjINs7u' +
+  'N7IAAOB8gnqIeWK8AAGrApIxAAAYwK74scRn+wIAAAAABFla',
+);
+export const XZ_SHA256 = fromBase64(
+  '/Td6WFoAAArh+wyhBMCPApIxIQEWAAAAAAAAABWufW3gGJEBB10AJhpJxmdBOyeGgp/o5lY7BSWtPYmbF7ejv4i49Tk4lAR04hHl' +
+  'NhXS4fJriqDtrnragkgsgY/eUUGkPLW4ddM6RJru2/bR6+hPm8rdeAA9q4Jsp3YU/OQJnhQhPdVUHmy5xRgYYQKW95cUe2NWooCG' +
+  'UYS43sI3h8s545bgMkafE2fywL8o7RFre+7GpOXmanZbCfbWO/5Yv0rQSyuYly3/dBUR/eMlHjico+vjQoIYHo3ExaMMiSNcsfD2' +
+  'E1QOhyrPoQmM2ABWqhqfYNTdATBaoKeRlMlqRa55dQ12tz4rl3ygtatj7YhvcP6Zdmgf93/NI2OKaU7wt/AvOhD16UiMNpjINs7u' +
+  'N7IAAHUNtopeM+sACH7cGD22A0uDGD+7Gzg/qj1LPhyL31S9AAHDApIxAAAvTQkctunfHAIAAAAAClla',
+);
+
+// xz --check=crc32 --block-size=1000 of xzText(): seven blocks
+export const XZ_BLOCKS = fromBase64(
+  '/Td6WFoAAAFpIt42A8Bz6AchARYAAAAAMa+BduAD5wBrXQAmGknGZ0E7J4aCn+jmVjsFJa09iZsXt6O/iLj1OTiUBHTiEeU2FdLh' +
+  '8muKoO2uetqCSCyBj95RQaQ8tbh10zpEmu7b9tHr6E+byt14AD2rgmyndhT85AmeFCE91VQebLnFGBhhApb3Y5oiAAAACjwkbgPA' +
+  'cOgHIQEWAAAAADIUtp3gA+cAaF0AOhlKzhz2/YArNTgTLWaVccM4PpYGlhQa19KR2izISxNBlnJyZ2A8aVbkvaNfM5uLe97lTx8+' +
+  'yecISY9M0nfFvT6P/JZAY6wi5UBLGUsCGk5AaGOiCY/QyPBvdeyU4qdvc0w+z7qnzgAAhywgdQPAcugHIQEWAAAAAA/EQ5ngA+cA' +
+  'al0ANhvIRxIlbWD1sVlUIDbXtUi13nB9oes3bcs64NXjotZ29MBtm1oMTHKfeZOXPAZHnl58DPos/QTYsSOwaeiix7F/Iv+5yZ2N' +
+  'Wv3JjUZqCvAS3cwnFqwYUL95pdb3THsVSphf5kHjaInxAAAAAKxZnygDwG3oByEBFgAAAABqHuZP4APnAGVdADKIAyObYIYWv6DP' +
+  'KdQbteAz8d76f+UQy9nYc1LnS65hIr6y+mL/wzcdY4hwUQixZ0NiidiBtWlVoNTaa3T6hpvPlLPX6tLUx8AD2ZrzFuJ39BDe9X5C' +
+  'MY07rVs2eJx5hfrNktsAAAAAABGjJ/ADwG7oByEBFgAAAABppdGk4APnAGZdADKICwfhKXTqntVDlHGNuoy3IzDS1ydnau8fN64+' +
+  'mQOdL9bDGPIBTlberI4vu7uAG1JIcj/JJp02LJDqGH4IKiSEXJSvz4He7pFuZvJ3NhEpInlssL4xB5q/juaj7EcM5o8K7KQ2ggAA' +
+  'AKZBnJADwG3oByEBFgAAAABqHuZP4APnAGVdADoICgZUoKsgg7TveZ1bpmTdBqbCuz1OdGl1xhH2b91Az5wRTiw7NZJ9YXUhP+nH' +
+  'FLZXTKBSe2Vtw9QobiuysNtEbrlbfpLBL67NbMc2HwZ9nGr2nE1TwxaDCLH8GENurQyTJgcAAAAAAC9JjyYDwESiAiEBFgAAAACN' +
+  'sfL/4AEhADxdADIChZBipu3oXoPVhrAOK4m2bPeES5o7t96xe0jgYKqHPQC+a2ksb8FaAiZh9MlwhatTNq/LuoxRE2UWAADGHhgJ' +
+  'AAeHAegHhAHoB4YB6AeBAegHggHoB4EB6AdYogIAAAD6eFENWBOWKggAAAAAAVla',
+);
+
+// xz --check=crc64 of xzNoise(), which LZMA2 stores as uncompressed chunks
+export const XZ_NOISE = fromBase64(
+  '/Td6WFoAAATm1rRGBMCECIAIIQEWAAAAAAAAACT1HqsBA/9BlifE+ZXZnL8PCjEjr33E4tLi4+mTUCgsdUKzTeT37+5W4coxrZlp' +
+  'tTt9EBt63rTjYXqDKOCfS4X6KIc4dUmPSCC/Hj0z7zatMAUUwlkMs2Kfqx2mpvGE0zNW3fgd63vjt1bnFCMR7uAaEaXmHMjbmf4g' +
+  'N2Bu8v2ytxA6Hv7TzR665Yo8E594zn495l+wvcOMzCyS41u52gx7xt5KUeQYJqRXpcg1p7hIPk21ECCEfQ4w0ixGLcg8FM4WxyVv' +
+  '6mzyzEUVU1ihjWiYNq3rkaGWvTDAQC1DD0JNXcesZsuiVUZk8fEI5nTSlSYVJOtEhBoCrU9CxZPpBIMwzgLQ9a/dsn1Mjpzmb16B' +
+  '3jUuGpeJjhRkheXMsx2XzqpN+zCXpoaSAfF6UPpQBSwSDZmKA/n19O4TFYjT3g2UjI+DYXoDUg22J4LxYUGV4XA/8F4eBs1wwFb+' +
+  'zb/LcoXxDUJKgTG9GEHjrdn01do2Apt5wJjSECErWgT64O/Rn1Fsntyrhr5yH8M/7SwPmw4uGjfqQWg0b1vSyvo7wi0pgX23FhRE' +
+  'yqirFLefGVycmLbj6h8AwSyKWiEsRG8mirqwO2oD85nREB7M0utrlJtPt0gLsNzBZXEMVEbduWvjMWrQT7icnz/PiZGHXGz8VPqs' +
+  'ydL69jfL7DQlbFPzTDG8mJC7WH9c/dXcsAoGA0Z+q2sQMGWM4MKTbfowwY/va9N9+8ASJsNv3uEmy4uxj8zCJvTWZPZkLscw41/Q' +
+  'n+iBO7m/KR85snVwQJp0GJZg7uhrdi15q1dtttOfBbLPNmEGSLSAx3zxa+F7Ye9nbK6OFiPHXDA8OlhZh5hmJ2hD9JCD3glbzTkp' +
+  'UPJ4XryJ2VSOlT9HIVZ3R3dY4gN6TugegRxvxDoqKgSp4I0i6uCw495iZovwwmgLoTA/nIICaMLPJcJwzqlTzKRb99ZNAGzb44nv' +
+  'g05oUPI10x4po6BwvLsIYIONfS7NxFa5UtASsNbBY7hH90dfx17il+HM4B3m0Y/+NPr2ItBaoYOp5t2PbO2nzKm0fbPQENtwNHgX' +
+  '9RXq3X1yo39/GIHmsCyTxIYwJWdhN1hEUc8OFhzRrzXsGity6esjoYRmIa1IZWLFfbFzENo8xfEwA+XJtqEFyGHCBil6ByD+XPXu' +
+  'V/8ebXvKejBsxcDm9S4l8AMJypj3HtY1PJbqS1Ucf2glNVlaHC0T/aLdhLTfGWxUs4yvE4ZbHcQ9zHdlg8c42zL0Vlp61f/KMwkI' +
+  'M1eniQOiXuuv17xWBh3aSTZ/Ss9ec/SQKwVZvdH9W4Z0I36tu3NOWi7mTj+cKai4lV2AcNW9msEVxsDImTsS9ZIlLX8GqdUR4UuN' +
+  'knMGS9tlSi/FANHXL7I9nNurAAGgCIAIAABxaXMJscRn+wIAAAAABFla',
+);
+
+function fromBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,48 @@
+import { SELF, env } from 'cloudflare:test';
+
+export const ORIGIN = 'https://release.test';
+
+/**
+ * Send a request for a path to the worker under test
+ */
+export function request(path: string, init?: RequestInit): Promise<Response> {
+  return SELF.fetch(`${ORIGIN}${path}`, init);
+}
+
+/**
+ * Send a request authorized with the admin API token
+ */
+export function apiRequest(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${env.API_TOKEN}`);
+  return request(path, { ...init, headers });
+}
+
+// Bodies left unread keep R2 objects open past the end of a test
+export async function statusOf(request: Promise<Response>): Promise<number> {
+  const response = await request;
+  await response.arrayBuffer();
+  return response.status;
+}
+
+export async function registerProduct(name: string, visibility: 'public' | 'private' = 'public'): Promise<void> {
+  await env.DB.prepare('INSERT INTO products (name, visibility) VALUES (?, ?)').bind(name, visibility).run();
+}
+
+/**
+ * Upload an artifact through the API, as CI would
+ */
+export function uploadRelease(key: string, body: string | Uint8Array, headers: Record<string, string> = {}): Promise<Response> {
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+  return apiRequest(`/api/releases/${key}`, {
+    method: 'PUT',
+    headers: { 'Content-Length': String(bytes.length), ...headers },
+    body: bytes,
+  });
+}
+
+export async function sha256Hex(body: string | Uint8Array): Promise<string> {
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
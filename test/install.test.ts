@@ -0,0 +1,127 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ORIGIN, apiRequest, registerProduct, request, sha256Hex, statusOf, uploadRelease } from './helpers';
+
+function setLayout(product: string, layout: unknown): Promise<Response> {
+  return apiRequest(`/api/admin/products/${product}/install`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(layout),
+  });
+}
+
+async function upload(key: string, headers: Record<string, string> = {}): Promise<void> {
+  expect(await statusOf(uploadRelease(key, key, headers))).toBe(201);
+}
+
+/**
+ * The `key=value` lines of the install artifact endpoint
+ */
+async function resolve(path: string): Promise<Record<string, string>> {
+  const response = await request(`/install/zz-cli/${path}`);
+  expect(response.status).toBe(200);
+  const text = await response.text();
+  return Object.fromEntries(text.trimEnd().split('\n').map((line) => line.split(/=(.*)/s).slice(0, 2)));
+}
+
+beforeEach(async () => {
+  await registerProduct('zz-cli');
+});
+
+describe('PUT /api/admin/products/:product/install', () => {
+  it('stores the layout and rejects values that would need quoting', async () => {
+    const response = await setLayout('zz-cli', { files: ['.tar.gz', '.tar.gz', '.zip'], bin: ['bin/zz'], prefix: '~/.zz' });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ install: { files: ['.tar.gz', '.zip'], bin: ['bin/zz'], prefix: '~/.zz' } });
+
+    expect(await statusOf(setLayout('zz-cli', { files: ['.tar.gz'], bin: ['zz; rm -rf /'] }))).toBe(400);
+    expect(await statusOf(setLayout('zz-cli', { files: ['.tar.gz'], bin: ['../zz'] }))).toBe(400);
+    expect(await statusOf(setLayout('zz-cli', { files: ['$(id)'], bin: ['zz'] }))).toBe(400);
+    expect(await statusOf(setLayout('zz-cli', { files: ['.tar.gz'], bin: ['zz'], prefix: 'relative/path' }))).toBe(400);
+    expect(await statusOf(setLayout('zz-cli', { files: [], bin: ['zz'] }))).toBe(400);
+    expect(await statusOf(setLayout('zz-cli', { files: ['.zip'], bin: ['zz'], shell: 'bash' }))).toBe(400);
+    expect(await statusOf(setLayout('zz-missing', { files: ['.zip'], bin: ['zz'] }))).toBe(404);
+  });
+
+  it('removes the scripts with the layout', async () => {
+    expect(await statusOf(setLayout('zz-cli', { files: ['.zip'], bin: ['zz'] }))).toBe(200);
+    expect(await statusOf(request('/install/zz-cli.sh'))).toBe(200);
+
+    expect(await statusOf(apiRequest('/api/admin/products/zz-cli/install', { method: 'DELETE' }))).toBe(200);
+    expect(await statusOf(request('/install/zz-cli.sh'))).toBe(404);
+    expect(await statusOf(apiRequest('/api/admin/products/zz-cli/install', { method: 'DELETE' }))).toBe(404);
+  });
+});
+
+describe('GET /install/:product.sh and .ps1', () => {
+  beforeEach(async () => {
+    expect(await statusOf(setLayout('zz-cli', { files: ['.tar.gz'], bin: ['bin/zz', 'bin/zz-helper'] }))).toBe(200);
+  });
+
+  it('renders a POSIX shell script for the layout', async () => {
+    const response = await request('/install/zz-cli.sh');
+    expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+    const script = await response.text();
+    expect(script.startsWith('#!/bin/sh\n')).toBe(true);
+    expect(script).toContain(`#   curl -fsSL ${ORIGIN}/install/zz-cli.sh | sh\n`);
+    expect(script).toContain(`BASE_URL='${ORIGIN}'\nPRODUCT='zz-cli'\nBINARIES='bin/zz bin/zz-helper'\n`);
+    expect(script).toContain('prefix="${COGIX_PREFIX:-$HOME/.local}"');
+    expect(script).toContain('fetch "$BASE_URL/install/$PRODUCT/$platform-$arch?version=$version" "$tmp/release"');
+  });
+
+  it('renders a PowerShell script for the layout', async () => {
+    const script = await (await request('/install/zz-cli.ps1')).text();
+    expect(script).toContain(`#   irm ${ORIGIN}/install/zz-cli.ps1 | iex\n`);
+    expect(script).toContain(`$BaseUrl = '${ORIGIN}'\n$Product = 'zz-cli'\n$Binaries = @('bin/zz', 'bin/zz-helper')\n`);
+    expect(script).toContain('"$BaseUrl/install/$Product/windows-$($arch)?version=$Version"');
+  });
+
+  it('answers 404 for other extensions and products without a layout', async () => {
+    expect(await statusOf(request('/install/zz-cli.bat'))).toBe(404);
+    await registerProduct('zz-other');
+    expect(await statusOf(request('/install/zz-other.sh'))).toBe(404);
+  });
+});
+
+describe('GET /install/:product/:platformArch', () => {
+  beforeEach(async () => {
+    expect(await statusOf(setLayout('zz-cli', { files: ['.tar.gz', '.zip'], bin: ['zz'] }))).toBe(200);
+    await upload('zz-cli/1.0.0/linux-x64/zz-cli.tar.gz');
+    await upload('zz-cli/1.1.0/linux-x64/zz-cli.zip');
+    await upload('zz-cli/1.1.0/linux-x64/zz-cli.tar.gz');
+    await upload('zz-cli/1.1.0/linux-x64/zz-cli.deb');
+    await upload('zz-cli/1.1.0/macos-x64/zz-cli.tar.gz');
+    await upload('zz-cli/1.2.0-beta.1/linux-x64/zz-cli.tar.gz', { 'X-Release-Channel': 'beta' });
+  });
+
+  it('resolves the newest stable version\'s preferred file', async () => {
+    const key = 'zz-cli/1.1.0/linux-x64/zz-cli.tar.gz';
+    expect(await resolve('linux-x64')).toEqual({
+      version: '1.1.0',
+      filename: 'zz-cli.tar.gz',
+      url: `${ORIGIN}/download/${encodeURIComponent(key)}`,
+      sha256: await sha256Hex(key),
+    });
+  });
+
+  it('resolves pinned versions, prereleases included', async () => {
+    expect(await resolve('linux-x64?version=1.0.0')).toMatchObject({ version: '1.0.0' });
+    expect(await resolve('linux-x64?version=1.2.0-beta.1')).toMatchObject({ version: '1.2.0-beta.1' });
+    expect(await statusOf(request('/install/zz-cli/linux-x64?version=9.9.9'))).toBe(404);
+    expect(await statusOf(request('/install/zz-cli/linux-x64?version=$(id)'))).toBe(400);
+  });
+
+  it('falls back to x64 builds on Apple Silicon and maps platform aliases', async () => {
+    expect(await resolve('macos-arm64')).toMatchObject({ version: '1.1.0', url: expect.stringContaining('macos-x64') });
+    expect(await resolve('Linux-x86_64')).toMatchObject({ version: '1.1.0' });
+    expect(await statusOf(request('/install/zz-cli/amiga-m68k'))).toBe(400);
+  });
+
+  it('skips artifacts without a checksum', async () => {
+    await env.DB
+      .prepare('UPDATE releases SET checksum = NULL WHERE key = ?')
+      .bind('zz-cli/1.1.0/linux-x64/zz-cli.tar.gz')
+      .run();
+    expect(await resolve('linux-x64')).toMatchObject({ version: '1.1.0', filename: 'zz-cli.zip' });
+  });
+});
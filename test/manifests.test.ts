@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { ORIGIN, registerProduct, request, sha256Hex, statusOf, uploadRelease } from './helpers';
+
+async function upload(key: string, headers: Record<string, string> = {}): Promise<string> {
+  expect(await statusOf(uploadRelease(key, key, headers))).toBe(201);
+  return sha256Hex(key);
+}
+
+function downloadUrl(key: string): string {
+  return `${ORIGIN}/download/${encodeURIComponent(key)}`;
+}
+
+describe('GET /brew/:product.rb', () => {
+  it('renders a cask with a build per Mac architecture', async () => {
+    await registerProduct('zz-app');
+    const arm = await upload('zz-app/1.2.0/macos-arm64/ZZ-App.dmg', { 'X-Release-Description': 'Fast "app" #1' });
+    const intel = await upload('zz-app/1.1.0/macos-x64/ZZ-App.dmg');
+    await upload('zz-app/1.3.0-beta.1/macos-arm64/ZZ-App.dmg', { 'X-Release-Channel': 'beta' });
+
+    const response = await request('/brew/zz-app.rb');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/x-ruby; charset=utf-8');
+    expect(await response.text()).toBe([
+      'cask "zz-app" do',
+      '  on_arm do',
+      '    version "1.2.0"',
+      `    sha256 "${arm}"`,
+      '',
+      `    url "${downloadUrl('zz-app/1.2.0/macos-arm64/ZZ-App.dmg')}"`,
+      '  end',
+      '  on_intel do',
+      '    version "1.1.0"',
+      `    sha256 "${intel}"`,
+      '',
+      `    url "${downloadUrl('zz-app/1.1.0/macos-x64/ZZ-App.dmg')}"`,
+      '  end',
+      '',
+      '  name "zz-app"',
+      '  desc "Fast \\"app\\" \\#1"',
+      `  homepage "${ORIGIN}/products/zz-app"`,
+      '',
+      '  app "Zz App.app"',
+      'end',
+      '',
+    ].join('\n'));
+  });
+
+  it('requires Apple Silicon for an arm64-only cask and installs .pkg files', async () => {
+    await registerProduct('zz-tool');
+    const sha256 = await upload('zz-tool/2.0.0/macos-arm64/zz-tool.pkg');
+
+    const response = await request('/brew/zz-tool.rb?app=Ignored.app');
+    expect(await response.text()).toBe([
+      'cask "zz-tool" do',
+      '  version "2.0.0"',
+      `  sha256 "${sha256}"`,
+      '',
+      `  url "${downloadUrl('zz-tool/2.0.0/macos-arm64/zz-tool.pkg')}"`,
+      '',
+      '  name "zz-tool"',
+      `  homepage "${ORIGIN}/products/zz-tool"`,
+      '',
+      '  depends_on arch: :arm64',
+      '',
+      '  pkg "zz-tool.pkg"',
+      'end',
+      '',
+    ].join('\n'));
+  });
+
+  it('answers 404 without a stable macOS build', async () => {
+    await registerProduct('zz-app');
+    await upload('zz-app/1.0.0/windows-x64/setup.exe');
+    expect(await statusOf(request('/brew/zz-app.rb'))).toBe(404);
+    expect(await statusOf(request('/brew/zz-app.json'))).toBe(404);
+  });
+});
+
+describe('GET /scoop/:product.json', () => {
+  it('lists the latest stable version\'s build for each architecture', async () => {
+    await registerProduct('zz-app');
+    await upload('zz-app/1.0.0/windows-x64/zz-app.zip');
+    const zip = await upload('zz-app/1.1.0/windows-x64/zz-app.zip');
+    await upload('zz-app/1.1.0/windows-x64/zz-app.exe');
+    const exe = await upload('zz-app/1.1.0/windows-arm64/zz-app.exe');
+    await upload('zz-app/1.2.0-beta.1/windows-x64/zz-app.zip', { 'X-Release-Channel': 'beta' });
+
+    const response = await request('/scoop/zz-app.json');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      version: '1.1.0',
+      description: 'zz-app',
+      homepage: `${ORIGIN}/products/zz-app`,
+      license: 'Proprietary',
+      architecture: {
+        '64bit': { url: downloadUrl('zz-app/1.1.0/windows-x64/zz-app.zip'), hash: zip },
+        arm64: { url: downloadUrl('zz-app/1.1.0/windows-arm64/zz-app.exe'), hash: exe, bin: 'zz-app.exe' },
+      },
+    });
+  });
+
+  it('answers 404 without a stable Windows build', async () => {
+    await registerProduct('zz-app');
+    await upload('zz-app/1.0.0/windows-x64/zz-app.zip', { 'X-Release-Channel': 'nightly' });
+    expect(await statusOf(request('/scoop/zz-app.json'))).toBe(404);
+  });
+});
+
+describe('GET /winget/:product/:version.yaml', () => {
+  it('renders a singleton manifest with one installer per architecture', async () => {
+    await registerProduct('zz-app');
+    await upload('zz-app/1.1.0/windows-x64/zz-app.exe');
+    const msi = await upload('zz-app/1.1.0/windows-x64/zz-app.msi', { 'X-Release-Description': 'It\'s ZZ' });
+    const exe = await upload('zz-app/1.1.0/windows-arm64/zz-app.exe');
+    await upload('zz-app/1.1.0/windows-x64/zz-app.zip');
+
+    const response = await request('/winget/zz-app/1.1.0.yaml');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/yaml; charset=utf-8');
+    const date = new Date().toISOString().slice(0, 10);
+    expect(await response.text()).toBe([
+      'PackageIdentifier: \'Cogix.zz-app\'',
+      'PackageVersion: \'1.1.0\'',
+      'PackageLocale: en-US',
+      'Publisher: Cogix',
+      'PackageName: \'zz-app\'',
+      `PackageUrl: '${ORIGIN}/products/zz-app'`,
+      'License: Proprietary',
+      'ShortDescription: \'It\'\'s ZZ\'',
+      `ReleaseDate: ${date}`,
+      'Installers:',
+      '- Architecture: x64',
+      '  InstallerType: msi',
+      `  InstallerUrl: '${downloadUrl('zz-app/1.1.0/windows-x64/zz-app.msi')}'`,
+      `  InstallerSha256: ${msi.toUpperCase()}`,
+      '- Architecture: arm64',
+      '  InstallerType: exe',
+      `  InstallerUrl: '${downloadUrl('zz-app/1.1.0/windows-arm64/zz-app.exe')}'`,
+      `  InstallerSha256: ${exe.toUpperCase()}`,
+      'ManifestType: singleton',
+      'ManifestVersion: 1.6.0',
+      '',
+    ].join('\n'));
+  });
+
+  it('answers 404 for unknown versions and malformed paths', async () => {
+    await registerProduct('zz-app');
+    await upload('zz-app/1.1.0/windows-x64/zz-app.exe');
+    expect(await statusOf(request('/winget/zz-app/9.9.9.yaml'))).toBe(404);
+    expect(await statusOf(request('/winget/zz-app/1.1.0.json'))).toBe(404);
+  });
+
+  it('keeps private products behind a token', async () => {
+    await registerProduct('zz-app', 'private');
+    await upload('zz-app/1.1.0/windows-x64/zz-app.exe');
+    expect(await statusOf(request('/winget/zz-app/1.1.0.yaml'))).toBe(401);
+    expect(await statusOf(request('/scoop/zz-app.json'))).toBe(401);
+    expect(await statusOf(request('/brew/zz-app.rb'))).toBe(401);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, renderMarkdown, summarizeMarkdown } from '../src/markdown';
+
+describe('renderMarkdown', () => {
+  it('renders headings below the page\'s own, paragraphs and lists', () => {
+    expect(renderMarkdown([
+      '# Highlights',
+      'Faster sync',
+      'and fewer crashes.',
+      '',
+      '- **Bold** and *italic*',
+      '  continued',
+      '- `code` and _emphasis_',
+      '1. First',
+      '---',
+    ].join('\r\n'))).toBe([
+      '<h3>Highlights</h3>',
+      '<p>Faster sync and fewer crashes.</p>',
+      '<ul><li><strong>Bold</strong> and <em>italic</em> continued</li><li><code>code</code> and <em>emphasis</em></li></ul>',
+      '<ol><li>First</li></ol>',
+      '<hr>',
+    ].join('\n'));
+  });
+
+  it('renders fenced code and blockquotes without formatting the code', () => {
+    expect(renderMarkdown('```\n**not bold** <b>\n```\n> quoted *text*')).toBe([
+      '<pre><code>**not bold** &lt;b&gt;</code></pre>',
+      '<blockquote><p>quoted <em>text</em></p></blockquote>',
+    ].join('\n'));
+  });
+
+  it('escapes raw HTML everywhere', () => {
+    const html = renderMarkdown([
+      '<script>alert(1)</script>',
+      '# <img src=x onerror=alert(1)>',
+      '- <iframe src="https://evil.test">',
+      '`<svg onload=alert(1)>`',
+    ].join('\n\n'));
+    expect(html).not.toMatch(/<(script|img|iframe|svg)/);
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('<code>&lt;svg onload=alert(1)&gt;</code>');
+  });
+
+  it('links http(s), mailto, relative and fragment URLs', () => {
+    expect(renderMarkdown('[docs](https://docs.test/a?b=1&c=2)')).toBe(
+      '<p><a href="https://docs.test/a?b=1&amp;c=2" rel="noopener noreferrer">docs</a></p>',
+    );
+    for (const href of ['http://docs.test', 'mailto:team@cogix.test', '/changelog/zz-app', '#fixes']) {
+      expect(renderMarkdown(`[link](${href})`)).toContain(`<a href="${href}"`);
+    }
+  });
+
+  it('leaves links with other schemes as text', () => {
+    for (const href of ['javascript:alert(1)', 'JavaScript:alert(1)', 'data:text/html,x', 'vbscript:x', '&#106;avascript:alert(1)']) {
+      const html = renderMarkdown(`[click](${href})`);
+      expect(html).not.toContain('<a');
+      expect(html.startsWith('<p>[click](')).toBe(true);
+    }
+  });
+
+  it('keeps attribute values inside their quotes', () => {
+    const html = renderMarkdown('[x](https://evil.test/"onmouseover="alert(1))');
+    expect(html).not.toContain('"onmouseover="');
+    expect(html).toContain('&quot;onmouseover=&quot;');
+  });
+});
+
+describe('summarizeMarkdown', () => {
+  it('returns the plain text of the first paragraph', () => {
+    expect(summarizeMarkdown('# Title\n\nFaster **sync** with [docs](https://docs.test).\n\nMore.', 200))
+      .toBe('Faster sync with docs.');
+  });
+
+  it('runs list items together and skips code', () => {
+    expect(summarizeMarkdown('```\ncode\n```\n- Fixed crash.\n- Added `export`', 200))
+      .toBe('Fixed crash; Added export.');
+  });
+
+  it('cuts long text at a word boundary', () => {
+    expect(summarizeMarkdown('one two three four five', 12)).toBe('one two…');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes the characters that matter in text and attributes', () => {
+    expect(escapeHtml(`<a href="x" title='y'>&</a>`)).toBe('&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;');
+  });
+});
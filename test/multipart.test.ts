@@ -0,0 +1,116 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { maxFileSizeBytes } from '../src/releases';
+import { pruneMultipartParts } from '../src/upload';
+import { apiRequest, registerProduct, sha256Hex, statusOf } from './helpers';
+
+const PATH = '/api/releases/zz-app/1.0.0/linux-x64/zz-app.tar.gz/multipart';
+
+let uploadId: string;
+
+function uploadPart(partNumber: number, body: string): Promise<Response> {
+  return apiRequest(`${PATH}/${uploadId}/${partNumber}`, {
+    method: 'PUT',
+    headers: { 'Content-Length': String(body.length) },
+    body,
+  });
+}
+
+/**
+ * Record a part as if it had been uploaded earlier, without sending its bytes
+ */
+async function recordPart(partNumber: number, size: number, createdAt = new Date()): Promise<void> {
+  await env.DB
+    .prepare('INSERT INTO multipart_parts (upload_id, part_number, size, created_at) VALUES (?, ?, ?, ?)')
+    .bind(uploadId, partNumber, size, createdAt.toISOString())
+    .run();
+}
+
+async function recordedSizes(): Promise<Record<number, number>> {
+  const { results } = await env.DB
+    .prepare('SELECT part_number, size FROM multipart_parts WHERE upload_id = ?')
+    .bind(uploadId)
+    .all<{ part_number: number; size: number }>();
+  return Object.fromEntries(results.map((row) => [row.part_number, row.size]));
+}
+
+beforeEach(async () => {
+  await registerProduct('zz-app');
+  const response = await apiRequest(PATH, { method: 'POST' });
+  expect(response.status).toBe(201);
+  ({ uploadId } = await response.json<{ uploadId: string }>());
+});
+
+describe('multipart uploads', () => {
+  it('assembles, hashes and indexes the parts', async () => {
+    const response = await uploadPart(1, 'single part');
+    expect(response.status).toBe(200);
+    const { part } = await response.json<{ part: R2UploadedPart }>();
+    expect(await recordedSizes()).toEqual({ 1: 11 });
+
+    const complete = await apiRequest(`${PATH}/${uploadId}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ parts: [part] }),
+    });
+    expect(complete.status).toBe(201);
+    expect(await complete.json()).toMatchObject({
+      release: { size: 11, metadata: { checksum: `sha256:${await sha256Hex('single part')}` } },
+    });
+    expect(await recordedSizes()).toEqual({});
+  });
+
+  it('rejects a part that would take the upload past the size limit', async () => {
+    const limit = maxFileSizeBytes(env);
+    await recordPart(1, limit - 10);
+
+    const response = await uploadPart(2, 'x'.repeat(11));
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({ success: false, error: 'Upload would exceed maximum size of 2 GB' });
+    expect(await recordedSizes()).toEqual({ 1: limit - 10 });
+
+    expect(await statusOf(uploadPart(2, 'x'.repeat(10)))).toBe(200);
+    expect(await recordedSizes()).toEqual({ 1: limit - 10, 2: 10 });
+  });
+
+  it('counts a retried part once, at its latest size', async () => {
+    const limit = maxFileSizeBytes(env);
+    await recordPart(1, limit - 5);
+    await recordPart(2, 5);
+
+    // Part 2 again, at twice the size: over the limit only if counted with its earlier size
+    expect(await statusOf(uploadPart(2, 'x'.repeat(6)))).toBe(413);
+    expect(await statusOf(uploadPart(1, 'x'.repeat(20)))).toBe(200);
+    expect(await statusOf(uploadPart(2, 'x'.repeat(6)))).toBe(200);
+    expect(await recordedSizes()).toEqual({ 1: 20, 2: 6 });
+  });
+
+  it('forgets the part sizes of aborted uploads', async () => {
+    expect(await statusOf(uploadPart(1, 'part'))).toBe(200);
+    expect(await statusOf(apiRequest(`${PATH}/${uploadId}`, { method: 'DELETE' }))).toBe(200);
+    expect(await recordedSizes()).toEqual({});
+  });
+
+  it('rejects invalid part numbers and a missing Content-Length', async () => {
+    expect(await statusOf(uploadPart(0, 'part'))).toBe(400);
+    expect(await statusOf(uploadPart(10_001, 'part'))).toBe(400);
+
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('part'));
+        controller.close();
+      },
+    });
+    expect(await statusOf(apiRequest(`${PATH}/${uploadId}/1`, { method: 'PUT', body: stream }))).toBe(411);
+  });
+});
+
+describe('pruneMultipartParts', () => {
+  it('drops part sizes older than R2 keeps unfinished uploads', async () => {
+    await recordPart(1, 100, new Date(Date.now() - 8 * 86_400_000));
+    await recordPart(2, 100);
+
+    expect(await pruneMultipartParts(env)).toBe(1);
+    expect(await recordedSizes()).toEqual({ 2: 100 });
+  });
+});
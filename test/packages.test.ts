@@ -0,0 +1,163 @@
+import { env } from 'cloudflare:test';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getPackageFormat, indexPackage, listPackages } from '../src/packages';
+import { toReleaseFile } from '../src/releases';
+import type { ReleaseFile } from '../src/types';
+import { DEB_CONTROL, DEB_GZIP, DEB_XZ, DEB_ZSTD } from './fixtures';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// indexPackage logs why a package couldn't be read
+function silenceErrors(): void {
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+}
+
+async function storeRelease(key: string, body: Uint8Array): Promise<ReleaseFile> {
+  const object = await env.RELEASES.put(key, body);
+  const release = object && toReleaseFile(object);
+  if (!release) throw new Error(`Not a release key: ${key}`);
+  return release;
+}
+
+async function readPackage(key: string, body: Uint8Array) {
+  const indexed = await indexPackage(env, await storeRelease(key, body));
+  return indexed ? (await listPackages(env)).get(key) : undefined;
+}
+
+const RPM_TYPE = { INT16: 3, INT32: 4, STRING: 6, STRING_ARRAY: 8 } as const;
+
+type RpmEntry =
+  | [tag: number, type: typeof RPM_TYPE.INT16 | typeof RPM_TYPE.INT32, value: number[]]
+  | [tag: number, type: typeof RPM_TYPE.STRING, value: string]
+  | [tag: number, type: typeof RPM_TYPE.STRING_ARRAY, value: string[]];
+
+/**
+ * An RPM header structure: magic, index entries, then the data store
+ */
+function rpmHeader(entries: RpmEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const store: number[] = [];
+  const index = new DataView(new ArrayBuffer(entries.length * 16));
+
+  entries.forEach(([tag, type, value], i) => {
+    const width = type === RPM_TYPE.INT16 ? 2 : type === RPM_TYPE.INT32 ? 4 : 1;
+    while (store.length % width) store.push(0);
+    index.setUint32(i * 16, tag);
+    index.setUint32(i * 16 + 4, type);
+    index.setUint32(i * 16 + 8, store.length);
+
+    if (typeof value === 'string' || typeof value[0] === 'string') {
+      const strings = typeof value === 'string' ? [value] : value as string[];
+      for (const string of strings) store.push(...encoder.encode(string), 0);
+      index.setUint32(i * 16 + 12, strings.length);
+    } else {
+      const numbers = value as number[];
+      for (const number of numbers) {
+        const bytes = new DataView(new ArrayBuffer(width));
+        if (width === 2) bytes.setUint16(0, number);
+        else bytes.setUint32(0, number);
+        store.push(...new Uint8Array(bytes.buffer));
+      }
+      index.setUint32(i * 16 + 12, numbers.length);
+    }
+  });
+
+  const intro = new DataView(new ArrayBuffer(16));
+  intro.setUint32(0, 0x8eade801);
+  intro.setUint32(8, entries.length);
+  intro.setUint32(12, store.length);
+  return new Uint8Array([...new Uint8Array(intro.buffer), ...new Uint8Array(index.buffer), ...store]);
+}
+
+/**
+ * A binary RPM without a payload: the lead, a signature header padded to
+ * eight bytes, then the main header
+ */
+function buildRpm(entries: RpmEntry[]): Uint8Array {
+  const lead = new Uint8Array(96);
+  lead.set([0xed, 0xab, 0xee, 0xdb]);
+  const signature = rpmHeader([[1000, RPM_TYPE.INT32, [1234]]]);
+  const padding = new Uint8Array((8 - (signature.length % 8)) % 8);
+  return new Uint8Array([...lead, ...signature, ...padding, ...rpmHeader(entries)]);
+}
+
+describe('Debian packages', () => {
+  it.each([
+    ['gzip', DEB_GZIP],
+    ['xz', DEB_XZ],
+    ['zstd', DEB_ZSTD],
+  ])('reads the control file of a %s-compressed control archive', async (compression, deb) => {
+    const key = `zz-hello/1.2.3/linux-x64/zz-hello-${compression}.deb`;
+    const record = await readPackage(key, deb);
+
+    expect(record).toMatchObject({ key, format: 'deb', name: 'zz-hello', version: '1.2.3-1', arch: 'amd64' });
+    expect(record?.metadata).toEqual({ control: DEB_CONTROL.trim() });
+  });
+
+  it('rejects files that are not Debian packages', async () => {
+    silenceErrors();
+    expect(await readPackage('zz-hello/1.2.3/linux-x64/fake.deb', new TextEncoder().encode('not a package'))).toBeUndefined();
+  });
+
+  it('rejects truncated packages', async () => {
+    silenceErrors();
+    expect(await readPackage('zz-hello/1.2.3/linux-x64/truncated.deb', DEB_XZ.slice(0, 200))).toBeUndefined();
+  });
+
+  it('rejects a corrupt control archive', async () => {
+    silenceErrors();
+    // Invert a byte inside control.tar.xz, past its ar member header
+    const member = new TextDecoder('latin1').decode(DEB_XZ).indexOf('control.tar.xz');
+    const deb = DEB_XZ.slice();
+    deb[member + 60 + 100] ^= 0xff;
+    expect(await readPackage('zz-hello/1.2.3/linux-x64/corrupt.deb', deb)).toBeUndefined();
+  });
+});
+
+describe('RPM packages', () => {
+  it('reads the main header', async () => {
+    const rpm = buildRpm([
+      [1000, RPM_TYPE.STRING, 'zz-hello'],
+      [1001, RPM_TYPE.STRING, '1.2.3'],
+      [1002, RPM_TYPE.STRING, '1.el9'],
+      [1004, RPM_TYPE.STRING, 'A test package'],
+      [1022, RPM_TYPE.STRING, 'x86_64'],
+      [1030, RPM_TYPE.INT16, [0o40755, 0o100755]],
+      [1048, RPM_TYPE.INT32, [12, 0x1000000 | 8]],
+      [1049, RPM_TYPE.STRING_ARRAY, ['glibc', 'rpmlib(CompressedFileNames)']],
+      [1050, RPM_TYPE.STRING_ARRAY, ['1:2.34-5', '3.0.4-1']],
+      [1116, RPM_TYPE.INT32, [0, 1]],
+      [1117, RPM_TYPE.STRING_ARRAY, ['zz-hello', 'zz-hello']],
+      [1118, RPM_TYPE.STRING_ARRAY, ['/usr/share/', '/usr/bin/']],
+    ]);
+    const key = 'zz-hello/1.2.3/linux-x64/zz-hello.x86_64.rpm';
+    const record = await readPackage(key, rpm);
+
+    expect(record).toMatchObject({ key, format: 'rpm', name: 'zz-hello', version: '1.2.3', arch: 'x86_64' });
+    expect(record?.metadata).toMatchObject({
+      epoch: '0',
+      release: '1.el9',
+      summary: 'A test package',
+      requires: [{ name: 'glibc', flags: 'GE', epoch: '1', version: '2.34', release: '5' }],
+      files: [{ path: '/usr/share/zz-hello', dir: true }, { path: '/usr/bin/zz-hello' }],
+    });
+  });
+
+  it('rejects headers without a name', async () => {
+    silenceErrors();
+    const rpm = buildRpm([[1001, RPM_TYPE.STRING, '1.2.3'], [1022, RPM_TYPE.STRING, 'x86_64']]);
+    expect(await readPackage('zz-hello/1.2.3/linux-x64/nameless.rpm', rpm)).toBeUndefined();
+  });
+});
+
+describe('getPackageFormat', () => {
+  it('only treats Linux .deb and binary .rpm artifacts as packages', async () => {
+    const body = new Uint8Array(1);
+    expect(getPackageFormat(await storeRelease('zz/1.0.0/linux-x64/a.deb', body))).toBe('deb');
+    expect(getPackageFormat(await storeRelease('zz/1.0.0/linux-x64/a.x86_64.rpm', body))).toBe('rpm');
+    expect(getPackageFormat(await storeRelease('zz/1.0.0/linux-x64/a.src.rpm', body))).toBeNull();
+    expect(getPackageFormat(await storeRelease('zz/1.0.0/windows-x64/a.deb', body))).toBeNull();
+  });
+});
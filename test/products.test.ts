@@ -0,0 +1,94 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import type { Product } from '../src/products';
+import { apiRequest, registerProduct, request, statusOf, uploadRelease } from './helpers';
+
+function createProduct(body: Record<string, unknown>): Promise<Response> {
+  return apiRequest('/api/admin/products', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('catalog upload gating', () => {
+  it('rejects uploads for unregistered products and stores nothing', async () => {
+    const key = 'zz-typo/1.0.0/linux-x64/zz-typo.tar.gz';
+    const response = await uploadRelease(key, 'artifact');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'Unknown product: zz-typo (register it with POST /api/admin/products)',
+    });
+    expect(await env.RELEASES.head(key)).toBeNull();
+  });
+
+  it('rejects multipart uploads for unregistered products', async () => {
+    const response = await apiRequest('/api/releases/zz-typo/1.0.0/linux-x64/zz-typo.tar.gz/multipart', { method: 'POST' });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: expect.stringMatching(/^Unknown product: zz-typo/) });
+  });
+
+  it('limits uploads to the product\'s platforms, matching platform aliases', async () => {
+    expect(await statusOf(createProduct({ name: 'zz-mac', platforms: ['macOS', 'linux'] }))).toBe(201);
+
+    expect(await statusOf(uploadRelease('zz-mac/1.0.0/macos-arm64/zz-mac.dmg', 'dmg'))).toBe(201);
+    expect(await statusOf(uploadRelease('zz-mac/1.0.0/darwin-x64/zz-mac.dmg', 'dmg'))).toBe(201);
+
+    const response = await uploadRelease('zz-mac/1.0.0/windows-x64/setup.exe', 'exe');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'zz-mac doesn\'t allow windows uploads (platforms: macos, linux)',
+    });
+  });
+
+  it('allows every platform once the limit is cleared', async () => {
+    expect(await statusOf(createProduct({ name: 'zz-mac', platforms: ['macos'] }))).toBe(201);
+    expect(await statusOf(uploadRelease('zz-mac/1.0.0/windows-x64/setup.exe', 'exe'))).toBe(400);
+
+    expect(await statusOf(apiRequest('/api/admin/products/zz-mac', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ platforms: null }),
+    }))).toBe(200);
+    expect(await statusOf(uploadRelease('zz-mac/1.0.0/windows-x64/setup.exe', 'exe'))).toBe(201);
+  });
+});
+
+describe('product catalog', () => {
+  it('registers products once and validates their fields', async () => {
+    const response = await createProduct({ name: 'zz-app', displayName: 'ZZ App', platforms: ['Win32'] });
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({
+      product: { name: 'zz-app', displayName: 'ZZ App', visibility: 'public', platforms: ['windows'] },
+    });
+
+    expect(await statusOf(createProduct({ name: 'zz-app' }))).toBe(409);
+    expect(await statusOf(createProduct({ name: 'zz-bad', platforms: ['amiga'] }))).toBe(400);
+    expect(await statusOf(createProduct({ name: 'zz-bad', icon: 'http://example.com/icon.png' }))).toBe(400);
+    expect(await statusOf(createProduct({ name: 'zz-bad', colour: 'red' }))).toBe(400);
+  });
+
+  it('lists products in catalog order without private ones for anonymous callers', async () => {
+    expect(await statusOf(createProduct({ name: 'zz-b', sortOrder: 1 }))).toBe(201);
+    expect(await statusOf(createProduct({ name: 'zz-a', sortOrder: 2 }))).toBe(201);
+    expect(await statusOf(createProduct({ name: 'zz-hidden', visibility: 'private' }))).toBe(201);
+
+    const names = async (response: Promise<Response>) =>
+      (await (await response).json<{ products: Product[] }>()).products.map((product) => product.name);
+    expect(await names(request('/api/products'))).toEqual(['zz-b', 'zz-a']);
+    expect(await names(apiRequest('/api/products'))).toEqual(['zz-hidden', 'zz-b', 'zz-a']);
+    expect(await statusOf(request('/api/products/zz-hidden'))).toBe(404);
+  });
+
+  it('only deletes products without releases', async () => {
+    await registerProduct('zz-app');
+    expect(await statusOf(uploadRelease('zz-app/1.0.0/linux-x64/zz-app.tar.gz', 'artifact'))).toBe(201);
+
+    expect(await statusOf(apiRequest('/api/admin/products/zz-app', { method: 'DELETE' }))).toBe(409);
+    expect(await statusOf(apiRequest('/api/releases/zz-app/1.0.0', { method: 'DELETE' }))).toBe(200);
+    expect(await statusOf(apiRequest('/api/admin/products/zz-app', { method: 'DELETE' }))).toBe(200);
+    expect(await statusOf(apiRequest('/api/admin/products/zz-app', { method: 'DELETE' }))).toBe(404);
+  });
+});
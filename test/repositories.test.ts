@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DEB_GZIP } from './fixtures';
+import { registerProduct, request, sha256Hex, statusOf, uploadRelease } from './helpers';
+
+const KEY = 'zz-hello/1.2.3/linux-x64/zz-hello_1.2.3-1_amd64.deb';
+
+beforeEach(async () => {
+  await registerProduct('zz-hello');
+  expect(await statusOf(uploadRelease(KEY, DEB_GZIP))).toBe(201);
+});
+
+describe('APT repository', () => {
+  it('lists uploaded packages in the Packages index of their architecture', async () => {
+    const response = await request('/apt/dists/stable/main/binary-amd64/Packages');
+    expect(response.status).toBe(200);
+    const index = await response.text();
+    expect(index).toContain('Package: zz-hello\nVersion: 1.2.3-1\nArchitecture: amd64\n');
+    expect(index).toContain(`Filename: pool/${KEY}\nSize: ${DEB_GZIP.length}\nSHA256: ${await sha256Hex(DEB_GZIP)}\n`);
+
+    const other = await request('/apt/dists/stable/main/binary-arm64/Packages');
+    expect(await other.text()).toBe('');
+  });
+
+  it('describes the indexes in the Release file', async () => {
+    const response = await request('/apt/dists/stable/Release');
+    const release = await response.text();
+    expect(release).toContain('Suite: stable\n');
+    expect(release).toMatch(/^Architectures: .*\bamd64\b/m);
+    expect(release).toMatch(/ main\/binary-amd64\/Packages\.gz\n/);
+  });
+
+  it('answers 404 for InRelease without a signing key', async () => {
+    expect(await statusOf(request('/apt/dists/stable/InRelease'))).toBe(404);
+  });
+
+  it('redirects pool paths to the download', async () => {
+    const response = await request(`/apt/pool/${KEY}`, { redirect: 'manual' });
+    expect(response.status).toBe(302);
+    expect(new URL(response.headers.get('Location')!).pathname).toBe(`/download/${encodeURIComponent(KEY)}`);
+  });
+
+  it('answers a malformed pool path with a JSON 404', async () => {
+    const response = await request('/apt/pool/%E0', { redirect: 'manual' });
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ success: false, error: 'File not found' });
+  });
+});
+
@@ -0,0 +1,119 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { applyRetention, type PrunableVersion } from '../src/retention';
+import { apiRequest, registerProduct, statusOf, uploadRelease } from './helpers';
+
+const DAY_MS = 86_400_000;
+
+function addRule(rule: Record<string, unknown>): Promise<Response> {
+  return apiRequest('/api/admin/retention/rules', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(rule),
+  });
+}
+
+async function upload(version: string, channel: string, platform = 'linux-x64'): Promise<void> {
+  const key = `zz-app/${version}/${platform}/zz-app.tar.gz`;
+  expect(await statusOf(uploadRelease(key, version, { 'X-Release-Channel': channel }))).toBe(201);
+}
+
+async function previewVersions(): Promise<string[]> {
+  const response = await apiRequest('/api/admin/retention/preview');
+  expect(response.status).toBe(200);
+  const { versions } = await response.json<{ versions: PrunableVersion[] }>();
+  return versions.map((version) => version.version).sort();
+}
+
+/**
+ * Backdate every indexed upload of a version
+ */
+async function backdate(version: string, days: number): Promise<void> {
+  await env.DB
+    .prepare('UPDATE releases SET uploaded = ? WHERE version = ?')
+    .bind(new Date(Date.now() - days * DAY_MS).toISOString(), version)
+    .run();
+}
+
+beforeEach(async () => {
+  await registerProduct('zz-app');
+  await upload('1.0.0', 'stable');
+  await upload('1.1.0-beta.1', 'beta');
+  await upload('1.1.0-beta.2', 'beta');
+  await upload('1.1.0-beta.3', 'beta');
+});
+
+describe('retention planning', () => {
+  it('prunes prerelease versions past keepVersions, newest first', async () => {
+    expect(await statusOf(addRule({ channel: 'beta', keepVersions: 2 }))).toBe(201);
+    expect(await previewVersions()).toEqual(['1.1.0-beta.1']);
+  });
+
+  it('always keeps the newest version of a channel and never stable releases', async () => {
+    expect(await statusOf(addRule({ keepDays: 1 }))).toBe(201);
+    for (const version of ['1.0.0', '1.1.0-beta.1', '1.1.0-beta.2', '1.1.0-beta.3']) {
+      await backdate(version, 10);
+    }
+    expect(await previewVersions()).toEqual(['1.1.0-beta.1', '1.1.0-beta.2']);
+  });
+
+  it('keeps versions younger than keepDays', async () => {
+    expect(await statusOf(addRule({ channel: 'beta', keepVersions: 1, keepDays: 7 }))).toBe(201);
+    await backdate('1.1.0-beta.1', 10);
+    expect(await previewVersions()).toEqual(['1.1.0-beta.1']);
+  });
+
+  it('keeps pinned versions until they are unpinned', async () => {
+    expect(await statusOf(addRule({ channel: 'beta', keepVersions: 1 }))).toBe(201);
+    expect(await statusOf(apiRequest('/api/releases/zz-app/1.1.0-beta.1/pin', { method: 'POST' }))).toBe(200);
+    expect(await previewVersions()).toEqual(['1.1.0-beta.2']);
+
+    expect(await statusOf(apiRequest('/api/releases/zz-app/1.1.0-beta.1/unpin', { method: 'POST' }))).toBe(200);
+    expect(await previewVersions()).toEqual(['1.1.0-beta.1', '1.1.0-beta.2']);
+  });
+
+  it('keeps prerelease versions that have a stable artifact', async () => {
+    await upload('1.1.0-beta.1', 'stable', 'windows-x64');
+    expect(await statusOf(addRule({ channel: 'beta', keepVersions: 1 }))).toBe(201);
+    expect(await previewVersions()).toEqual(['1.1.0-beta.2']);
+  });
+
+  it('follows the most specific rule', async () => {
+    expect(await statusOf(addRule({ keepVersions: 1 }))).toBe(201);
+    expect(await statusOf(addRule({ product: 'zz-app', channel: 'beta', keepVersions: 3 }))).toBe(201);
+    expect(await previewVersions()).toEqual([]);
+  });
+
+  it('deletes the planned versions when applied', async () => {
+    expect(await statusOf(addRule({ channel: 'beta', keepVersions: 2 }))).toBe(201);
+
+    const pruned = await applyRetention(env);
+    expect(pruned.map((version) => version.version)).toEqual(['1.1.0-beta.1']);
+    expect(await env.RELEASES.head('zz-app/1.1.0-beta.1/linux-x64/zz-app.tar.gz')).toBeNull();
+    expect(await env.RELEASES.head('zz-app/1.1.0-beta.2/linux-x64/zz-app.tar.gz')).not.toBeNull();
+    expect(await previewVersions()).toEqual([]);
+  });
+});
+
+describe('POST /api/admin/retention/rules', () => {
+  it('rejects an empty product name', async () => {
+    const response = await addRule({ product: '', keepVersions: 1 });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: 'product must be a product name, or null for every product',
+    });
+  });
+
+  it('rejects rules for the stable channel, unknown products and rules without a limit', async () => {
+    expect(await statusOf(addRule({ channel: 'stable', keepVersions: 1 }))).toBe(400);
+    expect(await statusOf(addRule({ product: 'zz-missing', keepVersions: 1 }))).toBe(400);
+    expect(await statusOf(addRule({ channel: 'beta' }))).toBe(400);
+  });
+
+  it('rejects a second rule for the same product and channel', async () => {
+    expect(await statusOf(addRule({ keepVersions: 1 }))).toBe(201);
+    expect(await statusOf(addRule({ product: null, keepDays: 3 }))).toBe(409);
+    expect(await statusOf(addRule({ product: 'zz-app', keepDays: 3 }))).toBe(201);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { compareVersions, parseRange, parseSemver, satisfiesRange } from '../src/semver';
+
+function satisfies(version: string, range: string): boolean {
+  const parsedVersion = parseSemver(version);
+  const parsedRange = parseRange(range);
+  if (!parsedVersion || !parsedRange) throw new Error(`Invalid test input: ${version} ${range}`);
+  return satisfiesRange(parsedVersion, parsedRange);
+}
+
+describe('parseSemver', () => {
+  it('parses versions with pre-release and build identifiers', () => {
+    expect(parseSemver('v1.2.3-beta.11+build.5')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: ['beta', 11],
+      build: ['build', '5'],
+    });
+  });
+
+  it('rejects anything that is not semver', () => {
+    for (const version of ['1.2', '01.2.3', '1.2.3-', '1.2.3-beta..1', 'latest', '']) {
+      expect(parseSemver(version), version).toBeNull();
+    }
+  });
+});
+
+describe('compareVersions', () => {
+  it('orders by semver precedence', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.2.0',
+      '1.10.0',
+    ];
+    expect([...ordered].reverse().sort(compareVersions)).toEqual(ordered);
+  });
+
+  it('ignores build metadata', () => {
+    expect(compareVersions('1.0.0+a', '1.0.0+b')).toBe(0);
+  });
+
+  it('sorts invalid versions below valid ones, by string among themselves', () => {
+    expect(['nightly', '1.0.0', 'beta'].sort(compareVersions)).toEqual(['beta', 'nightly', '1.0.0']);
+  });
+});
+
+describe('satisfiesRange', () => {
+  it.each([
+    ['1.2.3', '1.2.3', true],
+    ['1.2.4', '1.2.3', false],
+    ['1.2.9', '1.2', true],
+    ['1.3.0', '1.2.x', false],
+    ['5.0.0', '*', true],
+    ['1.9.0', '^1.2.3', true],
+    ['2.0.0', '^1.2.3', false],
+    ['0.2.5', '^0.2.3', true],
+    ['0.3.0', '^0.2.3', false],
+    ['0.0.4', '^0.0.3', false],
+    ['1.2.9', '~1.2.3', true],
+    ['1.3.0', '~1.2.3', false],
+    ['1.5.0', '>=1.2 <2', true],
+    ['2.0.0', '>=1.2 <2', false],
+    ['1.3.0', '>1.2', true],
+    ['1.2.9', '>1.2', false],
+    ['1.2.9', '<=1.2', true],
+    ['1.3.0', '<=1.2', false],
+    ['1.2.0', '>= 1.2.0', true],
+    ['3.1.0', '^1.0.0 || ^3.0.0', true],
+    ['2.1.0', '^1.0.0 || ^3.0.0', false],
+  ])('%s in %s is %s', (version, range, expected) => {
+    expect(satisfies(version, range)).toBe(expected);
+  });
+
+  it('only matches pre-releases of the version a comparator names', () => {
+    expect(satisfies('1.3.0-beta.1', '^1.2')).toBe(false);
+    expect(satisfies('1.3.0-beta.2', '>=1.3.0-beta.1')).toBe(true);
+    expect(satisfies('1.4.0-beta.1', '>=1.3.0-beta.1')).toBe(false);
+  });
+
+  it('rejects invalid ranges', () => {
+    for (const range of ['1.2.3.4', '^^1', 'latest', '>=1.2.3-']) {
+      expect(parseRange(range), range).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,120 @@
+import { SELF, env } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { apiRequest, registerProduct, request, statusOf } from './helpers';
+
+const PUBLIC_KEY = 'zz-app/1.0.0/linux-x64/zz-app.bin';
+const PRIVATE_KEY = 'zz-private/1.0.0/linux-x64/zz-private.bin';
+const BODY = '0123456789'.repeat(10);
+
+describe('signed download URLs', () => {
+  beforeEach(async () => {
+    await registerProduct('zz-private', 'private');
+    await env.RELEASES.put(PRIVATE_KEY, BODY);
+    await env.RELEASES.put(PUBLIC_KEY, BODY);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function signUrl(options: { key?: string; ttl?: number; ip?: string; maxUses?: number } = {}): Promise<string> {
+    const response = await apiRequest('/api/sign', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ key: PRIVATE_KEY, ...options }),
+    });
+    expect(response.status).toBe(200);
+    return (await response.json<{ url: string }>()).url;
+  }
+
+  it('grants access to a private artifact and keeps it out of shared caches', async () => {
+    expect(await statusOf(request(`/download/${PRIVATE_KEY}`))).toBe(401);
+
+    const response = await SELF.fetch(await signUrl());
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('private, max-age=31536000');
+    expect(await response.text()).toBe(BODY);
+  });
+
+  it('rejects a tampered signature or restriction', async () => {
+    const url = new URL(await signUrl());
+
+    const tampered = new URL(url);
+    const sig = url.searchParams.get('sig') ?? '';
+    tampered.searchParams.set('sig', sig.slice(0, -1) + (sig.endsWith('A') ? 'B' : 'A'));
+    expect(await statusOf(SELF.fetch(tampered))).toBe(403);
+
+    const extended = new URL(url);
+    extended.searchParams.set('expires', String(Number(url.searchParams.get('expires')) + 3600));
+    expect(await statusOf(SELF.fetch(extended))).toBe(403);
+
+    const unlimited = new URL(await signUrl({ maxUses: 1 }));
+    unlimited.searchParams.delete('uses');
+    expect(await statusOf(SELF.fetch(unlimited))).toBe(403);
+
+    const otherKey = new URL(url);
+    otherKey.pathname = `/download/${PUBLIC_KEY}`;
+    expect(await statusOf(SELF.fetch(otherKey))).toBe(403);
+  });
+
+  it('expires', async () => {
+    const url = await signUrl({ ttl: 60 });
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 61_000);
+    expect(await statusOf(SELF.fetch(url))).toBe(410);
+  });
+
+  it('is bound to an IP address when signed with one', async () => {
+    const url = await signUrl({ ip: '203.0.113.7' });
+    expect(await statusOf(SELF.fetch(url, { headers: { 'CF-Connecting-IP': '198.51.100.1' } }))).toBe(403);
+    expect(await statusOf(SELF.fetch(url, { headers: { 'CF-Connecting-IP': '203.0.113.7' } }))).toBe(200);
+  });
+
+  it('spends a use on every GET, range requests included', async () => {
+    const url = await signUrl({ maxUses: 2 });
+
+    expect(await statusOf(SELF.fetch(url, { method: 'HEAD' }))).toBe(200);
+    expect(await statusOf(SELF.fetch(url, { headers: { Range: 'bytes=1-' } }))).toBe(206);
+    expect(await statusOf(SELF.fetch(url, { headers: { Range: 'bytes=1-,0-0' } }))).toBe(206);
+    expect(await statusOf(SELF.fetch(url, { headers: { Range: 'bytes=1-' } }))).toBe(410);
+  });
+});
+
+describe('POST /api/sign', () => {
+  function sign(body: unknown, init: RequestInit = {}): Promise<Response> {
+    return apiRequest('/api/sign', { method: 'POST', body: JSON.stringify(body), ...init });
+  }
+
+  beforeEach(async () => {
+    await env.RELEASES.put(PUBLIC_KEY, BODY);
+  });
+
+  it('requires the API token', async () => {
+    const response = await request('/api/sign', { method: 'POST', body: JSON.stringify({ key: PUBLIC_KEY }) });
+    expect(response.status).toBe(401);
+    await response.arrayBuffer();
+  });
+
+  it.each([
+    [{}, 400],
+    [{ key: PUBLIC_KEY, ttl: 0 }, 400],
+    [{ key: PUBLIC_KEY, ttl: 31 * 24 * 60 * 60 }, 400],
+    [{ key: PUBLIC_KEY, maxUses: 0 }, 400],
+    [{ key: PUBLIC_KEY, ip: '' }, 400],
+    [{ key: 'zz-app/1.0.0/linux-x64/missing.bin' }, 404],
+  ])('rejects %j with %i', async (body, status) => {
+    expect(await statusOf(sign(body))).toBe(status);
+  });
+
+  it('reports the restrictions and expiry it signed', async () => {
+    const response = await sign({ key: PUBLIC_KEY, ttl: 120, ip: '203.0.113.7', maxUses: 3 });
+    const result = await response.json<{ url: string; expiresAt: string; ip: string; maxUses: number }>();
+
+    const url = new URL(result.url);
+    expect(url.pathname).toBe(`/download/${encodeURIComponent(PUBLIC_KEY)}`);
+    expect(url.searchParams.get('ip')).toBe('203.0.113.7');
+    expect(url.searchParams.get('uses')).toBe('3');
+    expect(new Date(result.expiresAt).getTime()).toBe(Number(url.searchParams.get('expires')) * 1000);
+    expect(result).toMatchObject({ ip: '203.0.113.7', maxUses: 3 });
+  });
+});
@@ -0,0 +1,80 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { ReleaseFile } from '../src/types';
+import { apiRequest, registerProduct, request, sha256Hex, statusOf, uploadRelease } from './helpers';
+
+const KEY = 'zz-app/1.1.0/windows-x64/zz-app-setup.exe';
+const SIGNATURE = 'dW50cnVzdGVkIGNvbW1lbnQ6IHNpZ25hdHVyZQ==';
+
+beforeEach(async () => {
+  await registerProduct('zz-app');
+  expect(await statusOf(uploadRelease('zz-app/1.0.0/windows-x64/zz-app-setup.exe', 'old installer'))).toBe(201);
+  expect(await statusOf(uploadRelease(KEY, 'installer'))).toBe(201);
+  expect(await statusOf(uploadRelease(`${KEY}.sig`, `${SIGNATURE}\n`))).toBe(201);
+});
+
+describe('Tauri update feeds', () => {
+  it('offers the newest signed build to older clients', async () => {
+    const response = await request('/update/zz-app/windows/x86_64/1.0.0');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      version: '1.1.0',
+      url: expect.stringContaining(encodeURIComponent(KEY)),
+      signature: SIGNATURE,
+    });
+  });
+
+  it('answers 204 to clients that are up to date', async () => {
+    expect(await statusOf(request('/update/zz-app/windows/x86_64/1.1.0'))).toBe(204);
+  });
+
+  it('lists signed builds in latest.json', async () => {
+    const response = await request('/update/zz-app/latest.json');
+    expect(await response.json()).toMatchObject({
+      version: '1.1.0',
+      platforms: { 'windows-x86_64': { signature: SIGNATURE } },
+    });
+  });
+});
+
+describe('electron-updater feeds', () => {
+  it('describes the newest installer with its uploaded SHA-256', async () => {
+    const response = await request('/update/zz-app/latest.yml');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/yaml; charset=utf-8');
+    const yaml = await response.text();
+    expect(yaml).toMatch(/^version: '?1\.1\.0'?\n/);
+    expect(yaml).toContain(encodeURIComponent(KEY));
+    expect(yaml).toContain(`sha2: '${await sha256Hex('installer')}'`);
+  });
+
+  it('answers 404 when no build matches the target', async () => {
+    expect(await statusOf(request('/update/zz-app/latest-mac.yml'))).toBe(404);
+  });
+});
+
+describe('update signatures', () => {
+  it('are left out of listings and stats', async () => {
+    const listing = await request('/api/releases/zz-app');
+    const { releases } = await listing.json<{ releases: ReleaseFile[] }>();
+    expect(releases.map((release) => release.key).sort()).toEqual(['zz-app/1.0.0/windows-x64/zz-app-setup.exe', KEY]);
+
+    const stats = await request('/api/stats');
+    expect(await stats.json()).toMatchObject({ stats: { totalReleases: 2 } });
+  });
+
+  it('are left out of SHA256SUMS and /latest lookups', async () => {
+    const sums = await request('/checksums/zz-app/1.1.0/SHA256SUMS');
+    expect(await sums.text()).not.toContain('.sig');
+
+    const latest = await request('/latest/zz-app/windows-x64?ext=.sig', { redirect: 'manual' });
+    expect(latest.status).toBe(404);
+    await latest.arrayBuffer();
+  });
+
+  it('go with their artifact when a version is deleted', async () => {
+    expect(await statusOf(apiRequest('/api/releases/zz-app/1.1.0', { method: 'DELETE' }))).toBe(200);
+    expect(await env.RELEASES.head(`${KEY}.sig`)).toBeNull();
+    expect(await env.DB.prepare('SELECT key FROM releases WHERE key = ?').bind(`${KEY}.sig`).first()).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+import { env } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Env, ReleaseFile, WebhookMessage } from '../src/types';
+import { deliverWebhooks, dispatchWebhooks, type WebhookDelivery } from '../src/webhooks';
+import { apiRequest, statusOf } from './helpers';
+
+const SECRET = 'whsec_test-webhook-secret';
+
+const RELEASE: ReleaseFile = {
+  key: 'zz-app/1.0.0/linux-x64/zz-app.tar.gz',
+  size: 7,
+  uploaded: new Date('2026-01-01T00:00:00Z'),
+  metadata: {
+    product: 'zz-app',
+    version: '1.0.0',
+    platform: 'linux',
+    arch: 'x64',
+    uploadDate: '2026-01-01T00:00:00.000Z',
+    size: 7,
+    filename: 'zz-app.tar.gz',
+    channel: 'stable',
+  },
+};
+
+async function createWebhook(fields: Record<string, unknown>): Promise<string> {
+  const response = await apiRequest('/api/admin/webhooks', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ secret: SECRET, ...fields }),
+  });
+  expect(response.status).toBe(201);
+  const { webhook } = await response.json<{ webhook: { id: string } }>();
+  return webhook.id;
+}
+
+/**
+ * Dispatch with a queue stub, so nothing reaches the real consumer
+ */
+async function dispatch(event: 'release.published' | 'release.yanked'): Promise<number[]> {
+  const sendBatch = vi.fn(async () => {});
+  const stubbed = { ...env, WEBHOOK_QUEUE: { sendBatch } } as unknown as Env;
+  await dispatchWebhooks(stubbed, event, [RELEASE]);
+  const messages = (sendBatch.mock.calls[0] as unknown as [{ body: WebhookMessage }[]] | undefined)?.[0] ?? [];
+  return messages.map((message) => message.body.deliveryId);
+}
+
+function createMessage(deliveryId: number, attempts: number) {
+  return { id: String(deliveryId), timestamp: new Date(), body: { deliveryId }, attempts, ack: vi.fn(), retry: vi.fn() };
+}
+
+async function deliver(deliveryId: number, attempts = 1) {
+  const message = createMessage(deliveryId, attempts);
+  const batch = { queue: 'cogix-release-webhooks', messages: [message], ackAll: vi.fn(), retryAll: vi.fn() };
+  await deliverWebhooks(batch as unknown as MessageBatch<WebhookMessage>, env);
+  return message;
+}
+
+async function getDelivery(webhookId: string): Promise<WebhookDelivery> {
+  const response = await apiRequest(`/api/admin/webhooks/${webhookId}/deliveries`);
+  const { deliveries } = await response.json<{ deliveries: WebhookDelivery[] }>();
+  return deliveries[0];
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('dispatchWebhooks', () => {
+  it('queues one delivery per active webhook subscribed to the event and product', async () => {
+    const everything = await createWebhook({ url: 'https://hooks.test/all' });
+    const scoped = await createWebhook({ url: 'https://hooks.test/app', products: ['zz-app'], events: ['release.published'] });
+    await createWebhook({ url: 'https://hooks.test/other', products: ['zz-other'] });
+    await createWebhook({ url: 'https://hooks.test/yanked', events: ['release.yanked'] });
+    await createWebhook({ url: 'https://hooks.test/inactive', active: false });
+
+    const queued = await dispatch('release.published');
+    expect(queued).toHaveLength(2);
+
+    const { results } = await env.DB
+      .prepare('SELECT id, webhook_id, event, status, attempts, payload FROM webhook_deliveries ORDER BY id')
+      .all<{ id: number; webhook_id: string; event: string; status: string; attempts: number; payload: string }>();
+    expect(results.map((row) => row.id)).toEqual(queued);
+    expect(results.map((row) => row.webhook_id).sort()).toEqual([everything, scoped].sort());
+    for (const row of results) {
+      expect(row).toMatchObject({ event: 'release.published', status: 'pending', attempts: 0 });
+      expect(JSON.parse(row.payload)).toMatchObject({
+        event: 'release.published',
+        product: 'zz-app',
+        version: '1.0.0',
+        releases: [{ key: RELEASE.key }],
+      });
+    }
+    // Every subscriber receives the same payload
+    expect(new Set(results.map((row) => row.payload)).size).toBe(1);
+  });
+
+  it('queues nothing without subscribers', async () => {
+    await createWebhook({ url: 'https://hooks.test/yanked', events: ['release.yanked'] });
+    expect(await dispatch('release.published')).toEqual([]);
+  });
+});
+
+describe('deliverWebhooks', () => {
+  let webhookId: string;
+  let deliveryId: number;
+
+  beforeEach(async () => {
+    webhookId = await createWebhook({ url: 'https://hooks.test/receiver' });
+    [deliveryId] = await dispatch('release.published');
+  });
+
+  it('posts the payload signed with the webhook secret and acks on success', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('ok'));
+
+    const message = await deliver(deliveryId);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+
+    const [url, init] = fetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('https://hooks.test/receiver');
+    const headers = new Headers(init.headers);
+    expect(headers.get('X-Cogix-Event')).toBe('release.published');
+    expect(headers.get('X-Cogix-Delivery')).toBe(String(deliveryId));
+
+    const key = await crypto.subtle.importKey(
+      'raw', new TextEncoder().encode(SECRET), { name: 'HMAC', hash: 'SHA-256' }, false, ['verify'],
+    );
+    const signature = headers.get('X-Cogix-Signature')!.replace(/^sha256=/, '');
+    const bytes = new Uint8Array(signature.match(/../g)!.map((byte) => parseInt(byte, 16)));
+    const signed = new TextEncoder().encode(`${headers.get('X-Cogix-Timestamp')}.${init.body as string}`);
+    expect(await crypto.subtle.verify('HMAC', key, bytes, signed)).toBe(true);
+
+    expect(await getDelivery(webhookId)).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200 });
+  });
+
+  it('retries failed deliveries with exponential backoff', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('upstream down', { status: 503 }));
+
+    const first = await deliver(deliveryId, 1);
+    expect(first.retry).toHaveBeenCalledWith({ delaySeconds: 30 });
+    expect(first.ack).not.toHaveBeenCalled();
+    expect(await getDelivery(webhookId)).toMatchObject({
+      status: 'retrying',
+      attempts: 1,
+      responseStatus: 503,
+      error: 'upstream down',
+    });
+
+    const third = await deliver(deliveryId, 3);
+    expect(third.retry).toHaveBeenCalledWith({ delaySeconds: 120 });
+    expect(await getDelivery(webhookId)).toMatchObject({ status: 'retrying', attempts: 3 });
+  });
+
+  it('retries network errors', async () => {
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('connection refused'));
+
+    const message = await deliver(deliveryId);
+    expect(message.retry).toHaveBeenCalled();
+    const delivery = await getDelivery(webhookId);
+    expect(delivery).toMatchObject({ status: 'retrying', error: 'connection refused' });
+    expect(delivery.responseStatus).toBeUndefined();
+  });
+
+  it('marks the delivery failed after the last attempt', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('nope', { status: 500 }));
+
+    const message = await deliver(deliveryId, 8);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+    expect(await getDelivery(webhookId)).toMatchObject({ status: 'failed', attempts: 8 });
+  });
+
+  it('acks deliveries of deleted webhooks without sending them', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch');
+    expect(await statusOf(apiRequest(`/api/admin/webhooks/${webhookId}`, { method: 'DELETE' }))).toBe(200);
+
+    const message = await deliver(deliveryId);
+    expect(message.ack).toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { XzError, decompressXz } from '../src/xz';
+import { XZ_BLOCKS, XZ_CRC32, XZ_CRC64, XZ_NOISE, XZ_NONE, XZ_SHA256, xzNoise, xzText } from './fixtures';
+
+const MAX_SIZE = 1024 * 1024;
+
+/**
+ * A copy of the stream with one byte inverted
+ */
+function corrupt(stream: Uint8Array, pos: number): Uint8Array {
+  const copy = stream.slice();
+  copy[pos] ^= 0xff;
+  return copy;
+}
+
+/**
+ * Offset of the last byte of a single-block stream's check, just before the
+ * index: the stream footer is 12 bytes and records the index size
+ */
+function lastCheckByte(stream: Uint8Array): number {
+  const footer = new DataView(stream.buffer, stream.byteOffset + stream.length - 12);
+  const indexSize = (footer.getUint32(4, true) + 1) * 4;
+  return stream.length - 12 - indexSize - 1;
+}
+
+describe('decompressXz', () => {
+  it.each([
+    ['none', XZ_NONE],
+    ['CRC32', XZ_CRC32],
+    ['CRC64', XZ_CRC64],
+    ['SHA-256', XZ_SHA256],
+  ])('decodes a stream with a %s check', async (_, stream) => {
+    expect(await decompressXz(stream, MAX_SIZE)).toEqual(xzText());
+  });
+
+  it('decodes a stream of several blocks', async () => {
+    expect(await decompressXz(XZ_BLOCKS, MAX_SIZE)).toEqual(xzText());
+  });
+
+  it('decodes uncompressed LZMA2 chunks', async () => {
+    expect(await decompressXz(XZ_NOISE, MAX_SIZE)).toEqual(xzNoise());
+  });
+
+  it.each([
+    ['CRC32', XZ_CRC32],
+    ['CRC64', XZ_CRC64],
+    ['SHA-256', XZ_SHA256],
+  ])('rejects a block whose %s check does not match', async (_, stream) => {
+    await expect(decompressXz(corrupt(stream, lastCheckByte(stream)), MAX_SIZE)).rejects.toThrow('xz block check mismatch');
+  });
+
+  it('rejects corrupt compressed data', async () => {
+    await expect(decompressXz(corrupt(XZ_CRC64, 100), MAX_SIZE)).rejects.toThrow(XzError);
+    await expect(decompressXz(corrupt(XZ_NOISE, 500), MAX_SIZE)).rejects.toThrow('xz block check mismatch');
+  });
+
+  it('rejects corrupt headers', async () => {
+    await expect(decompressXz(corrupt(XZ_CRC32, 7), MAX_SIZE)).rejects.toThrow('Corrupt xz stream header');
+    await expect(decompressXz(corrupt(XZ_CRC32, 14), MAX_SIZE)).rejects.toThrow('Corrupt xz block header');
+  });
+
+  it.each([
+    ['a block header', XZ_CRC32, 20],
+    ['compressed data', XZ_BLOCKS, 500],
+    ['an uncompressed chunk', XZ_NOISE, 500],
+    ['a check', XZ_SHA256, lastCheckByte(XZ_SHA256)],
+  ])('rejects a stream truncated in %s', async (_, stream, length) => {
+    await expect(decompressXz(stream.slice(0, length), MAX_SIZE)).rejects.toThrow(XzError);
+  });
+
+  it('rejects input that is not xz', async () => {
+    await expect(decompressXz(new TextEncoder().encode('not an xz stream'), MAX_SIZE)).rejects.toThrow('Not an xz stream');
+  });
+
+  it('stops once the output would exceed the maximum size', async () => {
+    await expect(decompressXz(XZ_CRC32, 1000)).rejects.toThrow('Decompressed data is too large');
+  });
+});
@@ -0,0 +1,25 @@
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
+
+export default defineWorkersConfig(async () => {
+  // Applied to the test D1 database by test/apply-migrations.ts
+  const migrations = await readD1Migrations('./migrations');
+
+  return {
+    test: {
+      setupFiles: ['./test/apply-migrations.ts'],
+      poolOptions: {
+        workers: {
+          singleWorker: true,
+          wrangler: { configPath: './wrangler.jsonc' },
+          miniflare: {
+            bindings: {
+              API_TOKEN: 'test-api-token',
+              SIGNING_SECRET: 'test-signing-secret',
+              TEST_MIGRATIONS: migrations,
+            },
+          },
+        },
+      },
+    },
+  };
+});